@@ -1,142 +1,855 @@
-import React, { useState, useRef } from 'react';
-import { generateChibiStyle } from './services/geminiService';
-import { AppStatus } from './types';
+import React, { useState, useRef, useEffect } from 'react';
+import { generateChibiStyle, RefinementTurn } from './services/geminiService';
+import { getConfiguredProviderId } from './services/imageProvider';
+import {
+  DEFAULT_PRESET_ID,
+  getBuiltInPresets,
+  getPresetVariant,
+  importPresets,
+  loadSelectedPresetId,
+  loadUserPresets,
+  saveSelectedPresetId,
+  saveUserPresets,
+} from './services/presetService';
+import { renderTemplate, validateTemplate } from './services/promptTemplate';
+import { createStyleReference, MAX_STYLE_REFERENCES } from './services/styleReferences';
+import { compositeMaskedEdit } from './services/maskEdit';
+import { fetchImageFile } from './services/imageSources';
+import { downloadBlob, downloadUrl, validateImageFile } from './services/fileUtils';
+import { buildProvenance, PngProvenance, readProvenance, sha256Hex, withProvenance } from './services/pngMetadata';
+import { exportProject, importProject, isProjectFileName, PROJECT_FILE_EXTENSION, ProjectFile } from './services/projectFile';
+import { EXPRESSION_VARIABLE } from './services/expressionSheet';
+import { createId } from './services/ids';
+import { deleteCharacter, listCharacters, putCharacter } from './services/characterService';
+import { DEFAULT_GENERATION_SETTINGS, getModelLabel, loadGenerationSettings, saveGenerationSettings } from './services/modelSettings';
+import {
+  loadPreprocessOptions,
+  PreprocessOptions,
+  preprocessImageFile,
+  savePreprocessOptions,
+} from './services/imagePreprocess';
+import {
+  clearHistory,
+  deleteHistoryEntries,
+  getStorageUsage,
+  listHistory,
+  putHistoryEntry,
+  StorageUsage,
+} from './services/historyService';
+import { AppStatus, BatchRequest, CharacterProfile, GenerationSettings, HistoryEntry, Revision, StylePreset, StyleReference, VariantSlot } from './types';
 import { UploadIcon, MagicIcon, DownloadIcon, AlertCircle, ArrowRight } from './components/Icons';
 import { Spinner } from './components/Spinner';
+import { PresetPanel } from './components/PresetPanel';
+import { PromptEditor } from './components/PromptEditor';
+import { BatchPanel } from './components/BatchPanel';
+import { ExpressionSheetPanel } from './components/ExpressionSheetPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { VariantGrid } from './components/VariantGrid';
+import { ImageCropper } from './components/ImageCropper';
+import { PreprocessSettings } from './components/PreprocessSettings';
+import { ModelSettings } from './components/ModelSettings';
+import { CharacterLibrary } from './components/CharacterLibrary';
+import { StickerStudio } from './components/StickerStudio';
+import { RefinePanel } from './components/RefinePanel';
+import { StyleReferencePanel } from './components/StyleReferencePanel';
+import { MaskEditor } from './components/MaskEditor';
+import { ImageDropZone } from './components/ImageDropZone';
+import { ImageImportBar } from './components/ImageImportBar';
+import { WebcamCapture } from './components/WebcamCapture';
+import { BudgetNotice, UsagePanel } from './components/UsagePanel';
+import { ProjectMenu } from './components/ProjectMenu';
+import { CompareView } from './components/CompareView';
+import { ShareCardPanel } from './components/ShareCardPanel';
+import { LanguageSwitcher, useI18n } from './components/I18nProvider';
 
-// Prompt for when both Style and Content images are present
-const PROMPT_WITH_STYLE = `任务：图像生成。
+type Mode = 'single' | 'batch' | 'sheet';
+type ImageSlot = 'content' | 'style';
 
-输入包含两张图片：
-1. 第一张图是【风格参考图】(Style Reference)
-2. 第二张图是【人物原型图】(Character Content)
+// Everything needed to repeat a generation, kept so individual variants can be regenerated
+interface GenerationRequest {
+  content: string;
+  styles: StyleReference[];
+  promptText: string;
+  values: Record<string, string>;
+  preset: { id: string; name: string };
+  settings: GenerationSettings;
+  // Saved character being drawn, whose extra images and notes go along
+  character: CharacterProfile | null;
+}
 
-请生成一张新的Q版人物贴纸，必须严格遵守以下指令：
+const MAX_VARIANTS = 4;
 
-1. **内容（发型与服装）必须来自第二张图**：
-   - 仔细观察第二张图（人物原型图）的**发型**（刘海、长短、颜色）和**服装**（款式、颜色）。
-   - **生成的图片必须完全复制第二张图的发型和衣服**。
-   - **严禁**使用第一张图的发型或衣服。第一张图仅供参考画风，绝不可参考其内容。
+// Extra views and trait notes of a saved character, as generation options
+const characterOptions = (character: CharacterProfile | null) => character
+  ? { characterReferences: character.images.slice(1), characterTraits: character.traits }
+  : {};
 
-2. **风格必须来自第一张图**：
-   - 学习第一张图的绘画风格（线条粗细、Q版头身比例、上色质感）。
-   - 只模仿画风，不要模仿内容。
+const byName = (a: CharacterProfile, b: CharacterProfile) => a.name.localeCompare(b.name);
 
-3. **固定特征**：
-   - 人物必须佩戴**纯黑色墨镜**。
-   - 墨镜镜片必须是纯黑色块，**绝对不可有反光**，不可有高光，不可有倒影。
-   - 表情自信微笑。
-   - 白色背景。
+const createVariantSlot = (): VariantSlot => ({
+  id: createId(),
+  status: AppStatus.IDLE,
+  imageUrl: null,
+});
 
-**总结：用图1的画风，画图2的人（保留图2的发型和衣服）。**`;
+// The slot's own result is the root revision and shares the slot id
+const createRootRevision = (slot: VariantSlot): Revision => ({
+  id: slot.id,
+  parentId: null,
+  imageUrl: slot.imageUrl!,
+  instruction: null,
+  createdAt: 0,
+});
 
-// Prompt for when only Content image is present
-const PROMPT_SINGLE = `任务：图像生成。
-
-基于提供的人物图片，创作一个Q版风格贴纸。
-
-执行步骤：
-1. **分析人物**：识别图片中人物的发型、发色和服装特征。
-2. **重绘**：在保持上述人物特征（**特别是发型**）的前提下，将其重绘为Q版风格。
-3. **风格要求**：极简矢量插画，粗线条，平涂上色。
-4. **配饰要求**：
-   - 必须佩戴**纯黑色墨镜**。
-   - 墨镜必须完全无反光、无高光、无渐变，呈现纯黑平面风格。
-5. **输出规格**：白色背景，自信微笑表情。`;
+// Revisions from the root down to (and including) the given one
+const revisionPath = (revisions: Revision[], id: string): Revision[] => {
+  const path: Revision[] = [];
+  let node = revisions.find(r => r.id === id);
+  while (node) {
+    path.unshift(node);
+    const parentId: string | null = node.parentId;
+    node = parentId ? revisions.find(r => r.id === parentId) : undefined;
+  }
+  return path;
+};
 
 const App: React.FC = () => {
+  const { t, locale } = useI18n();
+  const [mode, setMode] = useState<Mode>('single');
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
   const [contentImage, setContentImage] = useState<string | null>(null);
-  const [styleImage, setStyleImage] = useState<string | null>(null);
+  const [styleReferences, setStyleReferences] = useState<StyleReference[]>([]);
   const [resultImage, setResultImage] = useState<string | null>(null);
+  const [variantCount, setVariantCount] = useState<number>(1);
+  const [variants, setVariants] = useState<VariantSlot[]>([]);
+  const [winnerId, setWinnerId] = useState<string | null>(null);
+  // Refinement trees and the revision on display, both keyed by variant slot id
+  const [revisionTrees, setRevisionTrees] = useState<Record<string, Revision[]>>({});
+  const [currentRevisionIds, setCurrentRevisionIds] = useState<Record<string, string>>({});
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
-  const [prompt, setPrompt] = useState<string>(PROMPT_SINGLE);
-  
+  const [userPresets, setUserPresets] = useState<StylePreset[]>(loadUserPresets);
+  const [presetId, setPresetId] = useState<string>(loadSelectedPresetId);
+  // Model and sampling parameters, keyed by preset id
+  const [presetSettings, setPresetSettings] = useState<Record<string, GenerationSettings>>(loadGenerationSettings);
+  const [characters, setCharacters] = useState<CharacterProfile[]>([]);
+  const [characterId, setCharacterId] = useState<string | null>(null);
+  // null while the prompt follows the active preset, otherwise the user's edited text
+  const [customPrompt, setCustomPrompt] = useState<string | null>(null);
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [preprocessOptions, setPreprocessOptions] = useState<PreprocessOptions>(loadPreprocessOptions);
+  const [cropTarget, setCropTarget] = useState<{ slot: ImageSlot; image: string } | null>(null);
+  const [cameraOpen, setCameraOpen] = useState<boolean>(false);
+  const [comparing, setComparing] = useState<boolean>(false);
+
+  const builtInPresets = getBuiltInPresets(locale);
+  const presets = [...builtInPresets, ...userPresets];
+  const activePreset = presets.find(p => p.id === presetId) || builtInPresets[0];
+  const activeVariant = getPresetVariant(activePreset, styleReferences.length > 0);
+  const prompt = customPrompt ?? activeVariant.prompt;
+  const promptWarnings = validateTemplate(prompt, templateValues, styleReferences.length > 0);
+  const settingsFor = (id: string) => presetSettings[id] ?? DEFAULT_GENERATION_SETTINGS;
+  const generationSettings = settingsFor(activePreset.id);
+  // A picked character stays active until another content image replaces its main image
+  const activeCharacter = characters.find(c => c.id === characterId && c.images[0] === contentImage) ?? null;
+
+  const winnerSlot = variants.find(v => v.id === winnerId);
+  const winnerRevisions = winnerSlot?.imageUrl
+    ? revisionTrees[winnerSlot.id] || [createRootRevision(winnerSlot)]
+    : [];
+  const currentRevisionId = winnerSlot ? currentRevisionIds[winnerSlot.id] || winnerSlot.id : null;
+  const currentRevision = winnerRevisions.find(r => r.id === currentRevisionId);
+
   const contentInputRef = useRef<HTMLInputElement>(null);
-  const styleInputRef = useRef<HTMLInputElement>(null);
+  const lastRequestRef = useRef<GenerationRequest | null>(null);
+  // Aborts whatever generation is running (variants or refinement)
+  const abortRef = useRef<AbortController | null>(null);
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>, type: 'content' | 'style') => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  useEffect(() => {
+    saveUserPresets(userPresets);
+  }, [userPresets]);
+
+  useEffect(() => {
+    saveSelectedPresetId(presetId);
+  }, [presetId]);
+
+  useEffect(() => {
+    saveGenerationSettings(presetSettings);
+  }, [presetSettings]);
 
-    // Validate type
-    if (!file.type.startsWith('image/')) {
-      setErrorMsg("请上传有效的图片文件。");
+  useEffect(() => {
+    savePreprocessOptions(preprocessOptions);
+  }, [preprocessOptions]);
+
+  const refreshStorageUsage = () => {
+    getStorageUsage().then(setStorageUsage).catch(console.error);
+  };
+
+  useEffect(() => {
+    listHistory().then(setHistory).catch(console.error);
+    listCharacters().then(setCharacters).catch(console.error);
+    refreshStorageUsage();
+  }, []);
+
+  const handleSelectPreset = (id: string) => {
+    setPresetId(id);
+    setCustomPrompt(null);
+  };
+
+  const handleSavePreset = (preset: StylePreset) => {
+    setUserPresets(prev => prev.some(p => p.id === preset.id)
+      ? prev.map(p => p.id === preset.id ? preset : p)
+      : [...prev, preset]);
+  };
+
+  const handleDeletePreset = (id: string) => {
+    setUserPresets(prev => prev.filter(p => p.id !== id));
+    setPresetSettings(prev => Object.fromEntries(Object.entries(prev).filter(([key]) => key !== id)));
+    if (presetId === id) handleSelectPreset(DEFAULT_PRESET_ID);
+  };
+
+  const handleImportPresets = (imported: StylePreset[]) => {
+    setUserPresets(prev => [
+      ...prev.filter(p => !imported.some(i => i.id === p.id)),
+      ...imported,
+    ]);
+    handleSelectPreset(imported[0].id);
+    setErrorMsg(null);
+  };
+
+  const handleSettingsChange = (settings: GenerationSettings) => {
+    setPresetSettings(prev => ({ ...prev, [activePreset.id]: settings }));
+  };
+
+  const applyImage = (slot: ImageSlot, image: string) => {
+    if (slot === 'content') {
+      resetResult(); // Clear result if content changes
+      setContentImage(image);
+    } else {
+      setStyleReferences(prev => [...prev, createStyleReference(image)]);
+    }
+  };
+
+  const handleUseCharacter = (profile: CharacterProfile) => {
+    applyImage('content', profile.images[0]);
+    setCharacterId(profile.id);
+    setErrorMsg(null);
+    if (contentInputRef.current) contentInputRef.current.value = '';
+  };
+
+  const handleSaveCharacter = async (profile: CharacterProfile) => {
+    try {
+      await putCharacter(profile);
+    } catch (err: any) {
+      setErrorMsg(err.message);
       return;
     }
+    setCharacters(prev => [...prev.filter(c => c.id !== profile.id), profile].sort(byName));
+    // Editing the character in use keeps it in use, even with a new main image
+    if (profile.id === activeCharacter?.id && profile.images[0] !== contentImage) {
+      applyImage('content', profile.images[0]);
+    }
+  };
 
-    // Validate size (max 5MB roughly to be safe with base64 overhead)
-    if (file.size > 5 * 1024 * 1024) {
-      setErrorMsg("文件过大，请使用 5MB 以下的图片。");
+  const handleDeleteCharacter = async (id: string) => {
+    try {
+      await deleteCharacter(id);
+    } catch (err: any) {
+      setErrorMsg(err.message);
+      return;
+    }
+    setCharacters(prev => prev.filter(c => c.id !== id));
+  };
+
+  const handleImportCharacters = async (imported: CharacterProfile[]) => {
+    try {
+      await Promise.all(imported.map(putCharacter));
+    } catch (err: any) {
+      setErrorMsg(err.message);
+      return;
+    }
+    setCharacters(prev => [...prev.filter(c => !imported.some(i => i.id === c.id)), ...imported].sort(byName));
+  };
+
+  const handleUpdateStyleReference = (id: string, patch: Partial<StyleReference>) => {
+    setStyleReferences(prev => prev.map(reference => reference.id === id ? { ...reference, ...patch } : reference));
+  };
+
+  const handleRemoveStyleReference = (id: string) => {
+    setStyleReferences(prev => prev.filter(reference => reference.id !== id));
+  };
+
+  /**
+   * Single entry point for every image source: picker, drop, paste, URL and camera.
+   * Project files dropped on a card are opened (drops elsewhere on the page are
+   * caught by a window listener), and a result downloaded from this app
+   * dropped as content offers to restore the settings behind it.
+   */
+  const handleFile = async (file: File, type: ImageSlot) => {
+    if (isProjectFileName(file.name)) {
+      await handleOpenProject(file);
+      return;
+    }
+
+    const validationError = validateImageFile(file);
+    if (validationError) {
+      setErrorMsg(validationError);
       return;
     }
 
     // Reset error when a new valid file is picked
     setErrorMsg(null);
-    if (type === 'content') setResultImage(null); // Clear result if content changes
 
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      if (type === 'content') {
-        setContentImage(reader.result as string);
+    try {
+      const provenance = type === 'content' ? await readProvenance(file) : null;
+      if (provenance && window.confirm(t('project.restorePngConfirm', {
+        preset: provenance.presetName,
+        date: new Date(provenance.createdAt).toLocaleString(locale),
+      }))) {
+        await restoreProvenance(provenance);
+        return;
+      }
+
+      const dataUrl = await preprocessImageFile(file, preprocessOptions);
+      if (preprocessOptions.cropOnUpload) {
+        setCropTarget({ slot: type, image: dataUrl });
       } else {
-        setStyleImage(reader.result as string);
-        // Switch to style prompt if currently on single prompt
-        setPrompt(prev => prev === PROMPT_SINGLE ? PROMPT_WITH_STYLE : prev);
+        applyImage(type, dataUrl);
       }
+    } catch (err: any) {
+      setErrorMsg(err.message);
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>, type: ImageSlot) => {
+    const file = event.target.files?.[0];
+    if (file) handleFile(file, type);
+  };
+
+  const handleImportUrl = async (url: string, type: ImageSlot) => {
+    setErrorMsg(null);
+    try {
+      await handleFile(await fetchImageFile(url), type);
+    } catch (err: any) {
+      setErrorMsg(err.message);
+    }
+  };
+
+  const handleCameraCapture = (file: File) => {
+    setCameraOpen(false);
+    handleFile(file, 'content');
+  };
+
+  const handleCropConfirm = (image: string) => {
+    if (cropTarget) applyImage(cropTarget.slot, image);
+    setCropTarget(null);
+  };
+
+  const handleCropCancel = () => {
+    // Allow picking the same file again
+    if (cropTarget?.slot === 'content' && contentInputRef.current) contentInputRef.current.value = '';
+    setCropTarget(null);
+  };
+
+  const recordHistory = async (entry: Omit<HistoryEntry, 'id' | 'createdAt' | 'favorite'>) => {
+    const saved: HistoryEntry = {
+      ...entry,
+      id: createId(),
+      createdAt: Date.now(),
+      favorite: false,
     };
-    reader.onerror = () => {
-      setErrorMsg("读取文件失败。");
-    };
-    reader.readAsDataURL(file);
+    setHistory(prev => [saved, ...prev]);
+    try {
+      await putHistoryEntry(saved);
+    } catch (error) {
+      console.error("Failed to save history entry:", error);
+    }
+    refreshStorageUsage();
+  };
+
+  const resetResult = () => {
+    setResultImage(null);
+    setVariants([]);
+    setWinnerId(null);
+    setRevisionTrees({});
+    setCurrentRevisionIds({});
+  };
+
+  const dropRevisions = (slotId: string) => {
+    setRevisionTrees(({ [slotId]: _, ...rest }) => rest);
+    setCurrentRevisionIds(({ [slotId]: _, ...rest }) => rest);
+  };
+
+  const updateVariant = (id: string, patch: Partial<VariantSlot>) => {
+    setVariants(prev => prev.map(slot => slot.id === id ? { ...slot, ...patch } : slot));
+  };
+
+  const startAbortable = (): AbortSignal => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return controller.signal;
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const runVariant = async (id: string, request: GenerationRequest, signal: AbortSignal): Promise<VariantSlot> => {
+    updateVariant(id, { status: AppStatus.GENERATING, imageUrl: null, error: undefined, reason: undefined });
+    dropRevisions(id);
+    const result = await generateChibiStyle(request.content, request.styles, renderTemplate(request.promptText, request.values), [], {
+      signal,
+      usage: { kind: 'generate', presetId: request.preset.id, presetName: request.preset.name },
+      settings: request.settings,
+      ...characterOptions(request.character),
+    });
+    const slot: VariantSlot = { ...result, id, status: result.imageUrl ? AppStatus.SUCCESS : AppStatus.ERROR };
+    updateVariant(id, slot);
+    if (result.imageUrl) {
+      recordHistory({
+        contentImage: request.content,
+        styleReferences: request.styles,
+        resultImage: result.imageUrl,
+        prompt: request.promptText,
+        templateValues: request.values,
+        presetId: request.preset.id,
+        presetName: request.preset.name,
+        model: request.settings.model,
+        settings: request.settings,
+      });
+    }
+    return slot;
+  };
+
+  /**
+   * Runs the given slots in parallel. A slot failing never fails the others;
+   * the run only counts as an error when nothing usable is left.
+   */
+  const runVariants = async (ids: string[], request: GenerationRequest, currentWinner: string | null) => {
+    setStatus(AppStatus.GENERATING);
+    setErrorMsg(null);
+
+    const signal = startAbortable();
+    const results = await Promise.all(ids.map(id => runVariant(id, request, signal)));
+    const firstSuccess = results.find(result => result.imageUrl);
+    const failures = results.filter(result => result.reason !== 'CANCELLED');
+
+    if (!currentWinner && firstSuccess) {
+      setWinnerId(firstSuccess.id);
+      setResultImage(firstSuccess.imageUrl);
+    }
+
+    if (currentWinner || firstSuccess) {
+      setStatus(AppStatus.SUCCESS);
+    } else if (failures.length === 0) {
+      // Cancelled by the user, nothing to report
+      setStatus(AppStatus.IDLE);
+    } else {
+      setErrorMsg(results.length === 1
+        ? failures[0].error!
+        : t('controls.allVariantsFailed', { count: results.length, error: failures[0].error! }));
+      setStatus(AppStatus.ERROR);
+    }
+  };
+
+  const generate = async (request: GenerationRequest) => {
+    lastRequestRef.current = request;
+    const slots = Array.from({ length: variantCount }, createVariantSlot);
+    resetResult();
+    setVariants(slots);
+    await runVariants(slots.map(slot => slot.id), request, null);
+  };
+
+  const handleSelectVariant = (id: string) => {
+    const slot = variants.find(v => v.id === id);
+    if (!slot?.imageUrl) return;
+    const revisions = revisionTrees[id];
+    const current = revisions?.find(r => r.id === currentRevisionIds[id]);
+    setWinnerId(id);
+    setResultImage(current?.imageUrl || slot.imageUrl);
+  };
+
+  const handleSelectRevision = (id: string) => {
+    const revision = winnerRevisions.find(r => r.id === id);
+    if (!winnerSlot || !revision) return;
+    setCurrentRevisionIds(prev => ({ ...prev, [winnerSlot.id]: id }));
+    setResultImage(revision.imageUrl);
+  };
+
+  /**
+   * Sends the path from the original result to the current revision as
+   * conversation history, so the model edits its own output instead of
+   * starting over. The new revision branches off the current one. With a
+   * mask, only the masked area of the answer is pasted onto the current image.
+   */
+  const handleRefine = async (instruction: string, mask?: string) => {
+    const request = lastRequestRef.current;
+    if (!request || !winnerSlot || !currentRevisionId) return;
+
+    const slotId = winnerSlot.id;
+    const tree = winnerRevisions;
+    const path = revisionPath(tree, currentRevisionId);
+    const turns: RefinementTurn[] = path.map((revision, i) => i + 1 < path.length
+      ? { resultImage: revision.imageUrl, instruction: path[i + 1].instruction!, mask: path[i + 1].mask }
+      : { resultImage: revision.imageUrl, instruction, mask });
+
+    setStatus(AppStatus.GENERATING);
+    setErrorMsg(null);
+    const result = await generateChibiStyle(
+      request.content, request.styles, renderTemplate(request.promptText, request.values), turns, {
+        signal: startAbortable(),
+        usage: { kind: 'refine', presetId: request.preset.id, presetName: request.preset.name },
+        settings: request.settings,
+        ...characterOptions(request.character),
+      }
+    );
+    let imageUrl = result.imageUrl;
+    if (imageUrl && mask) {
+      try {
+        imageUrl = await compositeMaskedEdit(path[path.length - 1].imageUrl, imageUrl, mask);
+      } catch (error) {
+        console.error("Failed to composite masked edit:", error);
+        setErrorMsg(t('mask.compositeFailed'));
+        setStatus(AppStatus.ERROR);
+        return;
+      }
+    }
+    if (imageUrl) {
+      const revision: Revision = {
+        id: createId(),
+        parentId: currentRevisionId,
+        imageUrl,
+        instruction,
+        mask,
+        createdAt: Date.now(),
+      };
+      setRevisionTrees(prev => ({ ...prev, [slotId]: [...tree, revision] }));
+      setCurrentRevisionIds(prev => ({ ...prev, [slotId]: revision.id }));
+      setResultImage(imageUrl);
+      setStatus(AppStatus.SUCCESS);
+      recordHistory({
+        contentImage: request.content,
+        styleReferences: request.styles,
+        resultImage: imageUrl,
+        prompt: request.promptText,
+        templateValues: request.values,
+        presetId: request.preset.id,
+        presetName: request.preset.name,
+        model: request.settings.model,
+        settings: request.settings,
+      });
+    } else if (result.reason === 'CANCELLED') {
+      setStatus(AppStatus.SUCCESS);
+    } else {
+      setErrorMsg(result.error!);
+      setStatus(AppStatus.ERROR);
+    }
+  };
+
+  const handleRetryVariant = (id: string) => {
+    if (!lastRequestRef.current) return;
+    runVariants([id], lastRequestRef.current, winnerId);
+  };
+
+  const handleRegenerateRejected = () => {
+    if (!lastRequestRef.current) return;
+    const rejected = variants.filter(slot => slot.id !== winnerId).map(slot => slot.id);
+    runVariants(rejected, lastRequestRef.current, winnerId);
   };
 
   const handleGenerate = async () => {
     if (!contentImage) {
-      setErrorMsg("请至少上传人物原图。");
+      setErrorMsg(t('controls.missingContent'));
       return;
     }
 
-    setStatus(AppStatus.GENERATING);
+    if (!prompt.trim()) {
+      setErrorMsg(t('controls.emptyPrompt'));
+      return;
+    }
+
+    await generate({
+      content: contentImage,
+      styles: styleReferences,
+      promptText: prompt,
+      values: templateValues,
+      preset: activePreset,
+      settings: generationSettings,
+      character: activeCharacter,
+    });
+  };
+
+  const handleBatchGenerated = (content: string, result: string, request: BatchRequest) => {
+    recordHistory({
+      contentImage: content,
+      styleReferences: request.styleReferences,
+      resultImage: result,
+      prompt: request.prompt,
+      templateValues: request.templateValues,
+      presetId: request.preset.id,
+      presetName: request.preset.name,
+      model: request.settings.model,
+      settings: request.settings,
+    });
+  };
+
+  const handleSheetGenerated = (content: string, result: string, expression: string) => {
+    recordHistory({
+      contentImage: content,
+      styleReferences,
+      resultImage: result,
+      prompt,
+      templateValues: { ...templateValues, [EXPRESSION_VARIABLE]: expression },
+      presetId: activePreset.id,
+      presetName: activePreset.name,
+      model: generationSettings.model,
+      settings: generationSettings,
+    });
+  };
+
+  // Older entries only name the model; they run with the preset's settings
+  const historySettings = (entry: HistoryEntry): GenerationSettings => entry.settings ?? settingsFor(entry.presetId);
+
+  const handleRestoreHistory = (entry: HistoryEntry) => {
+    const preset = presets.find(p => p.id === entry.presetId);
+
+    setMode('single');
+    applyPromptSettings(preset, entry.prompt, entry.templateValues, entry.styleReferences.length > 0, entry.settings);
+    setContentImage(entry.contentImage);
+    setStyleReferences(entry.styleReferences);
+    resetResult();
+    // A single finished slot so the restored image can be refined further
+    const slot: VariantSlot = { ...createVariantSlot(), status: AppStatus.SUCCESS, imageUrl: entry.resultImage };
+    setVariants([slot]);
+    setWinnerId(slot.id);
+    setResultImage(entry.resultImage);
+    lastRequestRef.current = {
+      content: entry.contentImage,
+      styles: entry.styleReferences,
+      promptText: entry.prompt,
+      values: entry.templateValues,
+      preset: { id: entry.presetId, name: entry.presetName },
+      settings: historySettings(entry),
+      character: null,
+    };
+    setStatus(AppStatus.SUCCESS);
     setErrorMsg(null);
+    if (contentInputRef.current) contentInputRef.current.value = '';
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
 
-    // Determine prompt based on images present at runtime to ensure sync
-    const currentPrompt = styleImage ? PROMPT_WITH_STYLE : PROMPT_SINGLE;
-    // Update state to match (optional, mainly for UI if we showed the prompt)
-    setPrompt(currentPrompt);
+  const handleRerunHistory = (entry: HistoryEntry) => {
+    handleRestoreHistory(entry);
+    generate({
+      content: entry.contentImage,
+      styles: entry.styleReferences,
+      promptText: entry.prompt,
+      values: entry.templateValues,
+      preset: { id: entry.presetId, name: entry.presetName },
+      settings: historySettings(entry),
+      character: null,
+    });
+  };
 
+  const handleToggleFavorite = async (entry: HistoryEntry) => {
+    const updated = { ...entry, favorite: !entry.favorite };
+    setHistory(prev => prev.map(e => e.id === entry.id ? updated : e));
     try {
-      const generatedImg = await generateChibiStyle(contentImage, styleImage, currentPrompt);
-      setResultImage(generatedImg);
-      setStatus(AppStatus.SUCCESS);
-    } catch (err: any) {
-      setErrorMsg(err.message || "生成过程中出现了问题。");
-      setStatus(AppStatus.ERROR);
+      await putHistoryEntry(updated);
+    } catch (error) {
+      console.error("Failed to update history entry:", error);
     }
   };
 
-  const handleDownload = () => {
+  const handleDeleteHistory = async (ids: string[]) => {
+    setHistory(prev => prev.filter(e => !ids.includes(e.id)));
+    try {
+      await deleteHistoryEntries(ids);
+    } catch (error) {
+      console.error("Failed to delete history entries:", error);
+    }
+    refreshStorageUsage();
+  };
+
+  const handleClearHistory = async () => {
+    setHistory([]);
+    try {
+      await clearHistory();
+    } catch (error) {
+      console.error("Failed to clear history:", error);
+    }
+    refreshStorageUsage();
+  };
+
+  /**
+   * Saves the result as a PNG carrying the settings that produced it. Falls
+   * back to the bare image if the metadata cannot be written.
+   */
+  const handleDownload = async () => {
     if (!resultImage) return;
-    const link = document.createElement('a');
-    link.href = resultImage;
-    link.download = 'chibi-style.png';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  };
-
-  const clearImage = (type: 'content' | 'style') => {
-    if (type === 'content') {
-      setContentImage(null);
-      setResultImage(null);
-      if (contentInputRef.current) contentInputRef.current.value = '';
-    } else {
-      setStyleImage(null);
-      if (styleInputRef.current) styleInputRef.current.value = '';
-      // Switch back to single prompt if currently on style prompt
-      setPrompt(prev => prev === PROMPT_WITH_STYLE ? PROMPT_SINGLE : prev);
+    const request = lastRequestRef.current;
+    if (!request) {
+      downloadUrl(resultImage, 'chibi-style.png');
+      return;
+    }
+    try {
+      const provenance = await buildProvenance(request);
+      downloadBlob(await withProvenance(resultImage, provenance), 'chibi-style.png');
+    } catch (error) {
+      console.error("Failed to embed provenance:", error);
+      downloadUrl(resultImage, 'chibi-style.png');
+    }
+  };
+
+  // Switches to `preset` and shows `promptText` as a custom edit only if it differs from the preset's own prompt
+  const applyPromptSettings = (
+    preset: StylePreset | undefined,
+    promptText: string,
+    values: Record<string, string>,
+    hasStyle: boolean,
+    settings?: GenerationSettings
+  ) => {
+    const presetPrompt = preset && getPresetVariant(preset, hasStyle).prompt;
+    if (preset) setPresetId(preset.id);
+    if (preset && settings) setPresetSettings(prev => ({ ...prev, [preset.id]: settings }));
+    setCustomPrompt(presetPrompt === promptText ? null : promptText);
+    setTemplateValues(values);
+  };
+
+  /**
+   * Applies the settings recorded in a downloaded PNG. The source images are
+   * only referenced by hash, so they are looked up in the local history.
+   */
+  const restoreProvenance = async (provenance: PngProvenance) => {
+    let source: HistoryEntry | undefined;
+    for (const entry of history) {
+      if (await sha256Hex(entry.contentImage) === provenance.contentSha256) {
+        source = entry;
+        break;
+      }
+    }
+
+    const preset = presets.find(p => p.id === provenance.presetId);
+    setMode('single');
+    resetResult();
+    applyPromptSettings(
+      preset, provenance.prompt, provenance.templateValues, provenance.styleReferences.length > 0,
+      provenance.settings
+    );
+    // Without a match the current images stay as they are
+    if (source) {
+      setContentImage(source.contentImage);
+      setStyleReferences(source.styleReferences);
     }
     setStatus(AppStatus.IDLE);
+
+    const notes = [
+      !source && t('project.sourcesMissing'),
+      !preset && t('project.presetMissing', { name: provenance.presetName }),
+    ].filter(Boolean);
+    setErrorMsg(notes.length > 0 ? notes.join(' ') : null);
+  };
+
+  const handleSaveProject = () => {
+    const project: ProjectFile = {
+      createdAt: Date.now(),
+      model: generationSettings.model,
+      settings: generationSettings,
+      preset: activePreset,
+      prompt,
+      templateValues,
+      contentImage,
+      styleReferences,
+      results: variants.filter(slot => slot.imageUrl).map(slot => ({
+        id: slot.id,
+        imageUrl: slot.imageUrl!,
+        revisions: revisionTrees[slot.id] || [createRootRevision(slot)],
+        currentRevisionId: currentRevisionIds[slot.id] || slot.id,
+      })),
+      selectedResultId: winnerId,
+    };
+    downloadBlob(new Blob([exportProject(project)], { type: 'application/json' }), `chibify-project${PROJECT_FILE_EXTENSION}`);
+  };
+
+  /**
+   * Restores the editor from a project file. A custom preset that does not
+   * exist here is imported the same way a preset file would be.
+   */
+  const handleOpenProject = async (file: File) => {
+    let project: ProjectFile;
+    try {
+      project = importProject(await file.text());
+    } catch (err: any) {
+      setErrorMsg(err.message || t('project.readFailed'));
+      return;
+    }
+
+    let preset = presets.find(p => p.id === project.preset.id);
+    if (!preset) {
+      try {
+        preset = importPresets(JSON.stringify([project.preset]))[0];
+        setUserPresets(prev => [...prev, preset!]);
+      } catch {
+        // Not a usable definition; the prompt is still restored as custom text
+      }
+    }
+
+    setMode('single');
+    setErrorMsg(null);
+    resetResult();
+    applyPromptSettings(preset, project.prompt, project.templateValues, project.styleReferences.length > 0, project.settings);
+    setContentImage(project.contentImage);
+    setStyleReferences(project.styleReferences);
+    if (contentInputRef.current) contentInputRef.current.value = '';
+
+    const slots: VariantSlot[] = project.results.map(result => ({ id: result.id, status: AppStatus.SUCCESS, imageUrl: result.imageUrl }));
+    setVariants(slots);
+    setRevisionTrees(Object.fromEntries(project.results.map(result => [result.id, result.revisions])));
+    setCurrentRevisionIds(Object.fromEntries(project.results.map(result => [result.id, result.currentRevisionId])));
+    const selected = project.results.find(result => result.id === project.selectedResultId);
+    setWinnerId(selected?.id ?? null);
+    setResultImage(selected?.revisions.find(r => r.id === selected.currentRevisionId)?.imageUrl ?? selected?.imageUrl ?? null);
+    lastRequestRef.current = project.contentImage ? {
+      content: project.contentImage,
+      styles: project.styleReferences,
+      promptText: project.prompt,
+      values: project.templateValues,
+      preset: { id: preset?.id ?? project.preset.id, name: project.preset.name },
+      settings: project.settings,
+      character: null,
+    } : null;
+    setStatus(selected ? AppStatus.SUCCESS : AppStatus.IDLE);
+  };
+
+  // The window listeners below are registered once and call the latest handler
+  const openProjectRef = useRef(handleOpenProject);
+  openProjectRef.current = handleOpenProject;
+
+  // A file dropped outside the upload cards, or on a disabled one, would make the
+  // browser navigate to it and lose everything in memory. Project files are opened.
+  useEffect(() => {
+    const handleDragOver = (event: DragEvent) => event.preventDefault();
+    const handleDrop = (event: DragEvent) => {
+      // Already taken by a drop zone
+      if (event.defaultPrevented) return;
+      event.preventDefault();
+      const file = event.dataTransfer?.files[0];
+      if (file && isProjectFileName(file.name)) openProjectRef.current(file);
+    };
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, []);
+
+  const clearContentImage = () => {
+    setContentImage(null);
+    resetResult();
+    if (contentInputRef.current) contentInputRef.current.value = '';
+    setStatus(AppStatus.IDLE);
   };
 
   return (
@@ -149,11 +862,15 @@ const App: React.FC = () => {
               <MagicIcon />
             </div>
             <h1 className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-indigo-400 to-cyan-400">
-              Chibify 风格转换器
+              {t('app.title')}
             </h1>
           </div>
-          <div className="text-sm text-slate-400 hidden sm:block">
-            由 Gemini 2.5 驱动
+          <div className="flex items-center gap-3">
+            <div className="text-sm text-slate-400 hidden sm:block">
+              {getConfiguredProviderId() === 'mock' ? t('app.mockMode') : t('app.poweredBy', { model: getModelLabel(generationSettings.model) })}
+            </div>
+            <ProjectMenu canSave={!!contentImage} onSave={handleSaveProject} onOpen={handleOpenProject} />
+            <LanguageSwitcher />
           </div>
         </div>
       </header>
@@ -163,147 +880,190 @@ const App: React.FC = () => {
           
           {/* Left Column: Input */}
           <div className="space-y-6">
-            <div className="space-y-2">
-              <h2 className="text-2xl font-semibold">上传图片</h2>
-              <p className="text-slate-400">请上传风格参考图（可选）和需要转换的人物图。</p>
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-2">
+                <h2 className="text-2xl font-semibold">{t('upload.heading')}</h2>
+                <p className="text-slate-400">
+                  {mode === 'single' ? t('upload.hintSingle') : mode === 'batch' ? t('upload.hintBatch') : t('upload.hintSheet')}
+                </p>
+              </div>
+              <div className="flex shrink-0 bg-slate-800 border border-slate-700 rounded-lg p-1 text-sm">
+                {(['single', 'batch', 'sheet'] as Mode[]).map(m => (
+                  <button
+                    key={m}
+                    onClick={() => setMode(m)}
+                    className={`px-3 py-1 rounded-md transition-colors ${mode === m ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                  >
+                    {t(`mode.${m}`)}
+                  </button>
+                ))}
+              </div>
             </div>
 
             {/* Upload Area Grid */}
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
               
               {/* Style Reference Upload */}
-              <div 
-                className={`relative group border-2 border-dashed rounded-2xl p-4 transition-all duration-300 ease-in-out h-64 flex flex-col items-center justify-center
-                  ${styleImage 
-                    ? 'border-indigo-500/50 bg-slate-800/50' 
-                    : 'border-slate-700 hover:border-indigo-400 hover:bg-slate-800/30 cursor-pointer'
-                  }`}
-                onClick={() => !styleImage && styleInputRef.current?.click()}
-              >
-                <input 
-                  type="file" 
-                  ref={styleInputRef} 
-                  onChange={(e) => handleFileChange(e, 'style')} 
-                  className="hidden" 
-                  accept="image/*"
-                />
-
-                {styleImage ? (
-                  <div className="relative w-full h-full rounded-lg overflow-hidden bg-slate-900">
-                    <img 
-                      src={styleImage} 
-                      alt="Style Reference" 
-                      className="w-full h-full object-contain opacity-80"
-                    />
-                    <div className="absolute top-2 left-2 bg-indigo-600/90 text-white text-xs px-2 py-1 rounded">风格参考 (Style)</div>
-                    <button 
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        clearImage('style');
-                      }}
-                      className="absolute top-2 right-2 bg-slate-900/80 hover:bg-red-500/90 text-white p-1.5 rounded-full transition-colors backdrop-blur-sm"
-                    >
-                      <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
-                    </button>
-                  </div>
-                ) : (
-                  <div className="flex flex-col items-center justify-center text-slate-400 text-center">
-                    <div className="p-3 bg-slate-800 rounded-full mb-3 group-hover:bg-indigo-600/20 group-hover:text-indigo-400 transition-colors">
-                      <UploadIcon />
-                    </div>
-                    <p className="font-medium text-sm mb-1">风格参考图</p>
-                    <p className="text-xs text-slate-500">上传你想模仿的风格<br/>(可选)</p>
-                  </div>
-                )}
-              </div>
+              <StyleReferencePanel
+                references={styleReferences}
+                onFile={(file) => handleFile(file, 'style')}
+                onUrl={(url) => handleImportUrl(url, 'style')}
+                onUpdate={handleUpdateStyleReference}
+                onRemove={handleRemoveStyleReference}
+              />
 
               {/* Content Upload */}
-              <div 
-                className={`relative group border-2 border-dashed rounded-2xl p-4 transition-all duration-300 ease-in-out h-64 flex flex-col items-center justify-center
-                  ${contentImage 
-                    ? 'border-indigo-500/50 bg-slate-800/50' 
-                    : 'border-slate-700 hover:border-indigo-400 hover:bg-slate-800/30 cursor-pointer'
-                  }`}
-                onClick={() => !contentImage && contentInputRef.current?.click()}
-              >
-                <input 
-                  type="file" 
-                  ref={contentInputRef} 
-                  onChange={(e) => handleFileChange(e, 'content')} 
-                  className="hidden" 
-                  accept="image/*"
-                />
+              {mode !== 'batch' && (
+                <ImageDropZone
+                  className={`relative group border-2 border-dashed rounded-2xl p-4 transition-all duration-300 ease-in-out h-64 flex flex-col items-center justify-center
+                    ${contentImage 
+                      ? 'border-indigo-500/50 bg-slate-800/50' 
+                      : 'border-slate-700 hover:border-indigo-400 hover:bg-slate-800/30 cursor-pointer'
+                    }`}
+                  onClick={() => !contentImage && contentInputRef.current?.click()}
+                  onFile={(file) => handleFile(file, 'content')}
+                  onUrl={(url) => handleImportUrl(url, 'content')}
+                >
+                  <input 
+                    type="file" 
+                    ref={contentInputRef} 
+                    onChange={(e) => handleFileChange(e, 'content')} 
+                    className="hidden" 
+                    accept="image/*"
+                  />
 
-                {contentImage ? (
-                  <div className="relative w-full h-full rounded-lg overflow-hidden bg-slate-900">
-                    <img 
-                      src={contentImage} 
-                      alt="Original" 
-                      className="w-full h-full object-contain"
-                    />
-                     <div className="absolute top-2 left-2 bg-indigo-600/90 text-white text-xs px-2 py-1 rounded">人物原图 (Content)</div>
-                    <button 
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        clearImage('content');
-                      }}
-                      className="absolute top-2 right-2 bg-slate-900/80 hover:bg-red-500/90 text-white p-1.5 rounded-full transition-colors backdrop-blur-sm"
-                    >
-                      <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
-                    </button>
-                  </div>
-                ) : (
-                  <div className="flex flex-col items-center justify-center text-slate-400 text-center">
-                    <div className="p-3 bg-slate-800 rounded-full mb-3 group-hover:bg-indigo-600/20 group-hover:text-indigo-400 transition-colors">
-                      <UploadIcon />
+                  {contentImage ? (
+                    <div className="relative w-full h-full rounded-lg overflow-hidden bg-slate-900">
+                      <img 
+                        src={contentImage} 
+                        alt="Original" 
+                        className="w-full h-full object-contain"
+                      />
+                       <div className="absolute top-2 left-2 bg-indigo-600/90 text-white text-xs px-2 py-1 rounded">{activeCharacter ? t('characters.active', { name: activeCharacter.name }) : t('upload.contentBadge')}</div>
+                      <button 
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          clearContentImage();
+                        }}
+                        className="absolute top-2 right-2 bg-slate-900/80 hover:bg-red-500/90 text-white p-1.5 rounded-full transition-colors backdrop-blur-sm"
+                      >
+                        <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+                      </button>
                     </div>
-                    <p className="font-medium text-sm mb-1">人物原图</p>
-                    <p className="text-xs text-slate-500">上传你想转换的人物<br/>(必须)</p>
-                  </div>
-                )}
-              </div>
+                  ) : (
+                    <div className="flex flex-col items-center justify-center text-slate-400 text-center">
+                      <div className="p-3 bg-slate-800 rounded-full mb-3 group-hover:bg-indigo-600/20 group-hover:text-indigo-400 transition-colors">
+                        <UploadIcon />
+                      </div>
+                      <p className="font-medium text-sm mb-1">{t('upload.contentTitle')}</p>
+                      <p className="text-xs text-slate-500">{t('upload.contentHint')}<br/>{t('upload.required')}</p>
+                    </div>
+              )}
+              </ImageDropZone>
+              )}
 
             </div>
 
+            <ImageImportBar
+              allowContent={mode !== 'batch'}
+              allowStyle={styleReferences.length < MAX_STYLE_REFERENCES}
+              onImportUrl={handleImportUrl}
+              onOpenCamera={() => setCameraOpen(true)}
+            />
+
+            {mode !== 'batch' && (
+              <CharacterLibrary
+                characters={characters}
+                activeId={activeCharacter?.id ?? null}
+                currentImage={contentImage}
+                preprocessOptions={preprocessOptions}
+                onUse={handleUseCharacter}
+                onSave={handleSaveCharacter}
+                onDelete={handleDeleteCharacter}
+                onImport={handleImportCharacters}
+                onError={setErrorMsg}
+              />
+            )}
+
+            <PreprocessSettings options={preprocessOptions} onChange={setPreprocessOptions} />
+
             {/* Controls */}
             <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700 space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-slate-300 mb-2">
-                  风格描述 (Prompt)
-                </label>
-                <textarea 
-                  value={styleImage ? PROMPT_WITH_STYLE : PROMPT_SINGLE}
-                  onChange={(e) => setPrompt(e.target.value)}
-                  className="w-full h-40 bg-slate-900 border border-slate-700 rounded-lg p-3 text-xs text-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none resize-none font-mono"
-                  placeholder="描述你想要生成的风格..."
-                  readOnly={true} 
-                />
-                 <p className="text-xs text-slate-500 mt-2">
-                   {styleImage ? "提示词：强制使用图2的发型和衣服，参考图1画风。" : "提示词：基于原图进行Q版重绘。"}
-                </p>
-              </div>
+              <PresetPanel
+                presets={presets}
+                selectedId={activePreset.id}
+                onSelect={handleSelectPreset}
+                onSave={handleSavePreset}
+                onDelete={handleDeletePreset}
+                onImport={handleImportPresets}
+                onError={setErrorMsg}
+              />
+
+              <PromptEditor
+                prompt={prompt}
+                hint={activeVariant.label}
+                isCustom={customPrompt !== null}
+                values={templateValues}
+                warnings={promptWarnings}
+                onChange={setCustomPrompt}
+                onValuesChange={setTemplateValues}
+                onReset={() => setCustomPrompt(null)}
+              />
+
+              <ModelSettings settings={generationSettings} presetName={activePreset.name} onChange={handleSettingsChange} />
+
+              {mode === 'single' && (
+                <div className="flex items-center justify-between gap-2">
+                  <label className="text-sm font-medium text-slate-300">{t('controls.variantCount')}</label>
+                  <div className="flex bg-slate-900 border border-slate-700 rounded-lg p-1 text-sm">
+                    {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(n => (
+                      <button
+                        key={n}
+                        onClick={() => setVariantCount(n)}
+                        className={`w-8 py-0.5 rounded-md transition-colors ${variantCount === n ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                      >
+                        {n}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
 
-              <button
-                onClick={handleGenerate}
-                disabled={!contentImage || status === AppStatus.GENERATING}
-                className={`w-full py-3 px-4 rounded-lg font-semibold text-white flex items-center justify-center gap-2 transition-all
-                  ${!contentImage || status === AppStatus.GENERATING
-                    ? 'bg-slate-700 cursor-not-allowed text-slate-400'
-                    : 'bg-indigo-600 hover:bg-indigo-500 shadow-lg shadow-indigo-500/20 active:scale-[0.98]'
-                  }`}
-              >
-                {status === AppStatus.GENERATING ? (
-                  <>
-                    <Spinner />
-                    正在转换中...
-                  </>
-                ) : (
-                  <>
-                    <MagicIcon />
-                    生成 Q 版风格
-                  </>
-                )}
-              </button>
+              {mode === 'single' && (
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleGenerate}
+                    disabled={!contentImage || status === AppStatus.GENERATING}
+                    className={`flex-1 py-3 px-4 rounded-lg font-semibold text-white flex items-center justify-center gap-2 transition-all
+                      ${!contentImage || status === AppStatus.GENERATING
+                        ? 'bg-slate-700 cursor-not-allowed text-slate-400'
+                        : 'bg-indigo-600 hover:bg-indigo-500 shadow-lg shadow-indigo-500/20 active:scale-[0.98]'
+                      }`}
+                  >
+                    {status === AppStatus.GENERATING ? (
+                      <>
+                        <Spinner />
+                        {t('controls.generating')}
+                      </>
+                    ) : (
+                      <>
+                        <MagicIcon />
+                        {t('controls.generate')}
+                      </>
+                    )}
+                  </button>
+                  {status === AppStatus.GENERATING && (
+                    <button
+                      onClick={handleCancel}
+                      className="shrink-0 py-3 px-4 rounded-lg font-semibold bg-slate-700 hover:bg-red-500/80 text-slate-200 transition-colors"
+                    >
+                      {t('controls.cancel')}
+                    </button>
+                  )}
+                </div>
+              )}
+
+              <BudgetNotice />
 
               {errorMsg && (
                 <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-start gap-2 text-red-400 text-sm">
@@ -322,51 +1082,161 @@ const App: React.FC = () => {
 
             <div className="space-y-6 h-full flex flex-col">
               <div className="space-y-2">
-                <h2 className="text-2xl font-semibold">生成结果</h2>
-                <p className="text-slate-400">转换后的 Q 版形象将显示在这里。</p>
+                <h2 className="text-2xl font-semibold">{t('result.heading')}</h2>
+                <p className="text-slate-400">
+                  {mode === 'single' ? t('result.hintSingle') : mode === 'batch' ? t('result.hintBatch') : t('result.hintSheet')}
+                </p>
               </div>
 
-              <div className="flex-1 bg-slate-800/30 border border-slate-700 rounded-2xl p-8 flex items-center justify-center min-h-[400px] relative overflow-hidden">
-                {resultImage ? (
-                  <div className="relative w-full h-full flex items-center justify-center animate-in fade-in duration-700">
-                     <img 
-                      src={resultImage} 
-                      alt="Generated Result" 
-                      className="max-w-full max-h-[500px] object-contain rounded-lg shadow-2xl shadow-black/50"
-                    />
-                    <div className="absolute top-0 right-0 p-4">
-                       <button
-                        onClick={handleDownload}
-                        className="bg-indigo-600 hover:bg-indigo-500 text-white p-3 rounded-lg shadow-lg flex items-center gap-2 font-medium transition-all"
-                      >
-                        <DownloadIcon />
-                        下载图片
-                      </button>
-                    </div>
-                  </div>
-                ) : (
-                  <div className="text-center text-slate-500">
-                    {status === AppStatus.GENERATING ? (
-                      <div className="flex flex-col items-center gap-4">
-                        <div className="w-16 h-16 border-4 border-indigo-500/30 border-t-indigo-500 rounded-full animate-spin"></div>
-                        <p className="animate-pulse">AI 正在绘图...</p>
-                      </div>
-                    ) : (
-                      <div className="flex flex-col items-center gap-4 opacity-50">
-                        <div className="w-24 h-24 rounded-2xl bg-slate-700/50 flex items-center justify-center">
-                          <MagicIcon />
+              {mode === 'single' && (
+                <div className="flex-1 bg-slate-800/30 border border-slate-700 rounded-2xl p-8 flex items-center justify-center min-h-[400px] relative overflow-hidden">
+                  {resultImage ? (
+                    <div className="relative w-full h-full flex items-center justify-center animate-in fade-in duration-700">
+                      {comparing && contentImage ? (
+                        <CompareView before={contentImage} after={resultImage} />
+                      ) : (
+                        <img
+                          src={resultImage}
+                          alt="Generated Result"
+                          className="max-w-full max-h-[500px] object-contain rounded-lg shadow-2xl shadow-black/50"
+                        />
+                      )}
+                      {contentImage && (
+                        <div className="absolute top-0 left-0 p-4">
+                          <button
+                            onClick={() => setComparing(prev => !prev)}
+                            className="bg-slate-900/80 hover:bg-slate-700 text-slate-200 px-3 py-2 rounded-lg text-sm font-medium backdrop-blur-sm transition-colors"
+                          >
+                            {comparing ? t('compare.showResult') : t('compare.show')}
+                          </button>
                         </div>
-                        <p>结果将在此处显示</p>
+                      )}
+                      <div className="absolute top-0 right-0 p-4">
+                         <button
+                          onClick={handleDownload}
+                          className="bg-indigo-600 hover:bg-indigo-500 text-white p-3 rounded-lg shadow-lg flex items-center gap-2 font-medium transition-all"
+                        >
+                          <DownloadIcon />
+                          {t('result.download')}
+                        </button>
                       </div>
-                    )}
-                  </div>
-                )}
+                    </div>
+                  ) : (
+                    <div className="text-center text-slate-500">
+                      {status === AppStatus.GENERATING ? (
+                        <div className="flex flex-col items-center gap-4">
+                          <div className="w-16 h-16 border-4 border-indigo-500/30 border-t-indigo-500 rounded-full animate-spin"></div>
+                          <p className="animate-pulse">{t('result.drawing')}</p>
+                        </div>
+                      ) : (
+                        <div className="flex flex-col items-center gap-4 opacity-50">
+                          <div className="w-24 h-24 rounded-2xl bg-slate-700/50 flex items-center justify-center">
+                            <MagicIcon />
+                          </div>
+                          <p>{t('result.placeholder')}</p>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {mode === 'single' && variants.length > 1 && (
+                <VariantGrid
+                  slots={variants}
+                  winnerId={winnerId}
+                  busy={status === AppStatus.GENERATING}
+                  onSelect={handleSelectVariant}
+                  onRetry={handleRetryVariant}
+                  onRegenerateRejected={handleRegenerateRejected}
+                />
+              )}
+
+              {mode === 'single' && resultImage && currentRevisionId && winnerRevisions.length > 0 && (
+                <RefinePanel
+                  revisions={winnerRevisions}
+                  currentId={currentRevisionId}
+                  busy={status === AppStatus.GENERATING}
+                  onSelect={handleSelectRevision}
+                  onRefine={handleRefine}
+                />
+              )}
+
+              {mode === 'single' && resultImage && currentRevisionId && winnerRevisions.length > 0 && (
+                <MaskEditor
+                  image={resultImage}
+                  beforeImage={winnerRevisions.find(r => r.id === currentRevision?.parentId)?.imageUrl ?? null}
+                  busy={status === AppStatus.GENERATING}
+                  onSubmit={handleRefine}
+                />
+              )}
+
+              {mode === 'single' && resultImage && (
+                <StickerStudio image={resultImage} fileName="chibi-style.png" onError={setErrorMsg} />
+              )}
+
+              {mode === 'single' && resultImage && contentImage && (
+                <ShareCardPanel before={contentImage} after={resultImage} onError={setErrorMsg} />
+              )}
+
+              <div className={mode === 'batch' ? 'flex-1 flex flex-col' : 'hidden'}>
+                <BatchPanel
+                  styleReferences={styleReferences}
+                  prompt={prompt}
+                  templateValues={templateValues}
+                  preset={activePreset}
+                  settings={generationSettings}
+                  preprocessOptions={preprocessOptions}
+                  onError={setErrorMsg}
+                  onGenerated={handleBatchGenerated}
+                />
+              </div>
+
+              <div className={mode === 'sheet' ? 'flex-1 flex flex-col' : 'hidden'}>
+                <ExpressionSheetPanel
+                  contentImage={contentImage}
+                  styleReferences={styleReferences}
+                  prompt={prompt}
+                  templateValues={templateValues}
+                  preset={activePreset}
+                  settings={generationSettings}
+                  character={activeCharacter}
+                  onError={setErrorMsg}
+                  onGenerated={handleSheetGenerated}
+                />
               </div>
             </div>
           </div>
 
         </div>
+
+        <HistoryPanel
+          entries={history}
+          usage={storageUsage}
+          onRestore={handleRestoreHistory}
+          onRerun={handleRerunHistory}
+          onToggleFavorite={handleToggleFavorite}
+          onDelete={handleDeleteHistory}
+          onClear={handleClearHistory}
+        />
+
+        <UsagePanel />
       </main>
+
+      {cameraOpen && (
+        <WebcamCapture onCapture={handleCameraCapture} onCancel={() => setCameraOpen(false)} />
+      )}
+
+      {cropTarget && (
+        <ImageCropper
+          image={cropTarget.image}
+          title={cropTarget.slot === 'content' ? t('upload.cropContent') : t('upload.cropStyle')}
+          options={preprocessOptions}
+          onConfirm={handleCropConfirm}
+          onCancel={handleCropCancel}
+          onError={setErrorMsg}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,362 @@
+import fs from "node:fs";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { loadEnvFile, resolveUpstreamProvider } from "../server/env";
+import { createBatchItem, resultFileNames, runWithConcurrency } from "../services/batchService";
+import { extensionForMimeType, formatBytes, MAX_UPLOAD_BYTES, OUTPUT_EXTENSIONS } from "../services/fileUtils";
+import { generateWithProvider, runGeneration } from "../services/geminiService";
+import { DEFAULT_RETRY_OPTIONS } from "../services/generationErrors";
+import { isLocale, Locale, resolveLocale, setLocale, t } from "../services/i18n";
+import { detectImageFormat } from "../services/imagePreprocess";
+import { ASPECT_RATIOS, DEFAULT_IMAGE_MODEL, getModelSpec, IMAGE_MODELS, isGenerationSettings } from "../services/modelSettings";
+import { getBuiltInPresets, getPresetVariant, importPresets } from "../services/presetService";
+import { renderTemplate } from "../services/promptTemplate";
+import { createStyleReference, isStyleRole, MAX_STYLE_REFERENCES, MAX_STYLE_WEIGHT, MIN_STYLE_WEIGHT } from "../services/styleReferences";
+import { estimateCost } from "../services/usageService";
+import { BatchItem, GenerationFailureReason, GenerationSettings, StylePreset, StyleReference, TokenUsage } from "../types";
+
+/**
+ * Headless batch conversion, e.g.
+ *
+ *   npm run chibify -- --content ./chars/*.png --style ref.png --preset sunglasses --out ./out
+ *
+ * Uses the same request building, response parsing and retry logic as the
+ * app, talking to the upstream directly (UPSTREAM_PROVIDER=mock stubs it).
+ * Exit codes: 0 everything converted or skipped, 1 at least one failure,
+ * 2 invalid arguments, 130 interrupted.
+ */
+
+const USAGE = `Usage: chibify --content <files...> [options]
+
+  --content <path>      Character image, directory or pattern (repeatable; extra arguments count too)
+  --style <path>        Style reference, optionally path@role:weight, e.g. lines.png@linework:70 (up to ${MAX_STYLE_REFERENCES})
+  --preset <id|name>    Built-in preset id or a preset from --presets-file (default: sunglasses)
+  --presets-file <json> Preset file exported from the app
+  --prompt <text>       Prompt template overriding the preset
+  --var <name=value>    Template variable (repeatable)
+  --out <dir>           Output directory (default: ./out)
+  --concurrency <n>     Parallel requests (default: 2)
+  --model <id>          ${IMAGE_MODELS.map(model => model.id).join(" or ")} (default: ${DEFAULT_IMAGE_MODEL})
+  --aspect-ratio <r>    Output aspect ratio, one of ${ASPECT_RATIOS.join(", ")} (default: model default)
+  --temperature <t>     Sampling temperature, 0-2 (default: model default)
+  --seed <n>            Fixed seed for repeatable results, where the model supports it
+  --skip-existing       Skip inputs whose output file already exists
+  --report <file>       JSON report path (default: <out>/report.json)
+  --provider <id>       gemini or mock (default: UPSTREAM_PROVIDER or gemini)
+  --locale <id>         zh-CN or en, for preset prompts and messages (default: from LANG)
+  --retries <n>         Retries for transient failures (default: ${DEFAULT_RETRY_OPTIONS.maxRetries})
+  --timeout <ms>        Per-attempt timeout (default: GENERATION_TIMEOUT_MS or ${DEFAULT_RETRY_OPTIONS.timeoutMs})
+  -h, --help            Show this help`;
+
+const IMAGE_EXTENSIONS = [".png", ".jpg", ".jpeg", ".webp", ".gif", ".bmp", ".heic"];
+
+type ItemStatus = "success" | "failed" | "skipped" | "cancelled";
+
+interface ReportItem {
+  input: string;
+  output: string | null;
+  status: ItemStatus;
+  reason?: GenerationFailureReason;
+  error?: string;
+  durationMs: number;
+  usage?: TokenUsage;
+}
+
+class UsageError extends Error {}
+
+const isImagePath = (file: string) => IMAGE_EXTENSIONS.includes(path.extname(file).toLowerCase());
+
+/**
+ * Expands a directory, a `*`/`?` pattern in the last path segment (for shells
+ * that do not expand it, or quoted arguments) or returns the path as is.
+ */
+const expandInput = (input: string): string[] => {
+  if (fs.existsSync(input) && fs.statSync(input).isDirectory()) {
+    return fs.readdirSync(input).filter(isImagePath).sort().map(name => path.join(input, name));
+  }
+  const base = path.basename(input);
+  if (!/[*?]/.test(base)) return [input];
+
+  const dir = path.dirname(input);
+  const pattern = new RegExp(`^${base.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".")}$`);
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir).filter(name => pattern.test(name)).sort().map(name => path.join(dir, name));
+};
+
+/**
+ * Reads an image as a data URL. Unlike the browser there is no canvas to
+ * downscale or re-encode, so the format is only checked from the header.
+ */
+const readImage = (file: string): string => {
+  const bytes = fs.readFileSync(file);
+  if (bytes.length > MAX_UPLOAD_BYTES) {
+    throw new Error(t("file.tooLarge", { limit: formatBytes(MAX_UPLOAD_BYTES) }));
+  }
+  const format = detectImageFormat(bytes);
+  if (!format) {
+    throw new Error(t("file.unknownFormat"));
+  }
+  return `data:${format};base64,${bytes.toString("base64")}`;
+};
+
+const parseStyleArg = (arg: string): StyleReference => {
+  // Only a trailing @role[:weight] counts, so paths may contain "@"
+  const at = arg.lastIndexOf("@");
+  const hasSpec = at > 0 && /^[a-z]+(:\d+)?$/.test(arg.slice(at + 1));
+  const file = hasSpec ? arg.slice(0, at) : arg;
+  const [role, weight = String(MAX_STYLE_WEIGHT)] = hasSpec ? arg.slice(at + 1).split(":") : ["overall"];
+  const numericWeight = Number(weight);
+  if (!isStyleRole(role) || !(numericWeight >= MIN_STYLE_WEIGHT && numericWeight <= MAX_STYLE_WEIGHT)) {
+    throw new UsageError(`Invalid style reference "${arg}": expected path@role:weight with role overall|linework|coloring|shading and weight ${MIN_STYLE_WEIGHT}-${MAX_STYLE_WEIGHT}.`);
+  }
+  try {
+    return { ...createStyleReference(readImage(file)), role, weight: numericWeight };
+  } catch (error: any) {
+    throw new UsageError(`Cannot use style reference ${file}: ${error.message}`);
+  }
+};
+
+const parseVars = (pairs: string[]): Record<string, string> => {
+  const values: Record<string, string> = {};
+  for (const pair of pairs) {
+    const eq = pair.indexOf("=");
+    if (eq <= 0) throw new UsageError(`Invalid --var "${pair}": expected name=value.`);
+    values[pair.slice(0, eq)] = pair.slice(eq + 1);
+  }
+  return values;
+};
+
+/**
+ * Builds the generation settings from the flags. Asking for a parameter the
+ * model ignores is an error rather than being silently dropped.
+ */
+const parseSettings = (model: string, aspectRatio?: string, temperature?: string, seed?: string): GenerationSettings => {
+  const spec = getModelSpec(model);
+  if (!spec) throw new UsageError(`Unknown model "${model}". Available: ${IMAGE_MODELS.map(m => m.id).join(", ")}.`);
+  const unsupported = [
+    aspectRatio !== undefined && !spec.aspectRatio && "--aspect-ratio",
+    temperature !== undefined && !spec.temperature && "--temperature",
+    seed !== undefined && !spec.seed && "--seed",
+  ].filter(Boolean);
+  if (unsupported.length > 0) throw new UsageError(`${model} does not support ${unsupported.join(", ")}.`);
+
+  const settings: GenerationSettings = {
+    model,
+    aspectRatio: aspectRatio ?? null,
+    temperature: temperature !== undefined ? Number(temperature) : null,
+    seed: seed !== undefined ? Number(seed) : null,
+  };
+  if (!isGenerationSettings(settings)) {
+    throw new UsageError(`Invalid generation settings: aspect ratio must be one of ${ASPECT_RATIOS.join(", ")}, temperature 0-2 and seed a non-negative integer.`);
+  }
+  return settings;
+};
+
+const findPreset = (id: string, presetsFile: string | undefined, locale: Locale): StylePreset => {
+  const presets = [...getBuiltInPresets(locale)];
+  if (presetsFile) {
+    try {
+      presets.push(...importPresets(fs.readFileSync(presetsFile, "utf8")));
+    } catch (error: any) {
+      throw new UsageError(`Cannot read presets from ${presetsFile}: ${error.message}`);
+    }
+  }
+  const preset = presets.find(p => p.id === id) || presets.find(p => p.name === id);
+  if (!preset) {
+    throw new UsageError(`Unknown preset "${id}". Available: ${presets.map(p => p.id).join(", ")}.`);
+  }
+  return preset;
+};
+
+// An earlier run may have written the result with a different extension
+const findExistingOutput = (outDir: string, name: string): string | null => {
+  const stem = name.replace(/\.png$/, "");
+  return Object.values(OUTPUT_EXTENSIONS)
+    .map(ext => path.join(outDir, stem + ext))
+    .find(file => fs.existsSync(file)) || null;
+};
+
+const main = async (): Promise<number> => {
+  loadEnvFile(path.resolve(".env.local"));
+
+  const { values: args, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      content: { type: "string", multiple: true },
+      style: { type: "string", multiple: true },
+      preset: { type: "string", default: "sunglasses" },
+      "presets-file": { type: "string" },
+      prompt: { type: "string" },
+      var: { type: "string", multiple: true },
+      out: { type: "string", default: "./out" },
+      concurrency: { type: "string", default: "2" },
+      model: { type: "string", default: DEFAULT_IMAGE_MODEL },
+      "aspect-ratio": { type: "string" },
+      temperature: { type: "string" },
+      seed: { type: "string" },
+      "skip-existing": { type: "boolean", default: false },
+      report: { type: "string" },
+      provider: { type: "string" },
+      locale: { type: "string" },
+      retries: { type: "string" },
+      timeout: { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (args.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const locale = args.locale ?? resolveLocale(process.env.LC_ALL || process.env.LANG);
+  if (!isLocale(locale)) throw new UsageError(`Unknown locale "${locale}".`);
+  setLocale(locale);
+
+  // Shells expand `--content ./chars/*.png` into one flag value plus positionals
+  const inputs = [...new Set([...(args.content ?? []), ...positionals].flatMap(expandInput))];
+  if (inputs.length === 0) throw new UsageError("No content images given.");
+  const missing = inputs.filter(file => !fs.existsSync(file));
+  if (missing.length > 0) throw new UsageError(`Content image not found: ${missing.join(", ")}`);
+
+  const styleArgs = args.style ?? [];
+  if (styleArgs.length > MAX_STYLE_REFERENCES) {
+    throw new UsageError(`At most ${MAX_STYLE_REFERENCES} style references are supported.`);
+  }
+  const styleReferences = styleArgs.map(parseStyleArg);
+
+  const preset = findPreset(args.preset!, args["presets-file"], locale);
+  const template = args.prompt ?? getPresetVariant(preset, styleReferences.length > 0).prompt;
+  const prompt = renderTemplate(template, parseVars(args.var ?? []));
+  if (!prompt.trim()) throw new UsageError("The prompt is empty.");
+
+  const concurrency = Number(args.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) throw new UsageError("--concurrency must be a positive integer.");
+
+  const maxRetries = args.retries !== undefined ? Number(args.retries) : DEFAULT_RETRY_OPTIONS.maxRetries;
+  if (!Number.isInteger(maxRetries) || maxRetries < 0) throw new UsageError("--retries must be a non-negative integer.");
+
+  const settings = parseSettings(args.model!, args["aspect-ratio"], args.temperature, args.seed);
+
+  const provider = resolveUpstreamProvider(args.provider ?? process.env.UPSTREAM_PROVIDER);
+  const retryOptions = {
+    maxRetries,
+    timeoutMs: Number(args.timeout) || Number(process.env.GENERATION_TIMEOUT_MS) || DEFAULT_RETRY_OPTIONS.timeoutMs,
+  };
+
+  const outDir = path.resolve(args.out!);
+  fs.mkdirSync(outDir, { recursive: true });
+  const reportPath = path.resolve(args.report ?? path.join(outDir, "report.json"));
+
+  // Output names come from the same rules as the app's batch download
+  const items: BatchItem[] = inputs.map(file => createBatchItem(file, ""));
+  const names = resultFileNames(items);
+  const inputOf = new Map(items.map((item, i) => [item.id, inputs[i]]));
+
+  const controller = new AbortController();
+  process.once("SIGINT", () => {
+    console.error("Interrupted, cancelling running requests...");
+    controller.abort();
+  });
+
+  const startedAt = new Date();
+  const results: ReportItem[] = [];
+  const log = (item: ReportItem) => {
+    results.push(item);
+    const prefix = `[${results.length}/${items.length}]`;
+    if (item.status === "success") console.log(`${prefix} ok       ${item.input} -> ${path.relative(process.cwd(), item.output!)}`);
+    else if (item.status === "skipped") console.log(`${prefix} skipped  ${item.input} (${path.relative(process.cwd(), item.output!)} exists)`);
+    else console.log(`${prefix} ${item.status.padEnd(8)} ${item.input}: ${item.error}`);
+  };
+
+  console.log(`Converting ${items.length} image(s) with "${preset.name}" via ${provider.label} (${settings.model}), ${concurrency} at a time`);
+
+  await runWithConcurrency(items, concurrency, async item => {
+    const input = inputOf.get(item.id)!;
+    const started = Date.now();
+    const name = names.get(item.id)!;
+
+    if (controller.signal.aborted) {
+      log({ input, output: null, status: "cancelled", reason: "CANCELLED", error: t("error.CANCELLED"), durationMs: 0 });
+      return;
+    }
+
+    const existing = args["skip-existing"] ? findExistingOutput(outDir, name) : null;
+    if (existing) {
+      log({ input, output: existing, status: "skipped", durationMs: 0 });
+      return;
+    }
+
+    let contentImage: string;
+    try {
+      contentImage = readImage(input);
+    } catch (error: any) {
+      log({ input, output: null, status: "failed", error: error.message, durationMs: Date.now() - started });
+      return;
+    }
+
+    const result = await runGeneration(
+      signal => generateWithProvider(provider, contentImage, styleReferences, prompt, [], signal, locale, [], settings),
+      { ...retryOptions, signal: controller.signal },
+      provider.label
+    );
+
+    if (!result.imageUrl) {
+      const status: ItemStatus = result.reason === "CANCELLED" ? "cancelled" : "failed";
+      log({ input, output: null, status, reason: result.reason, error: result.error, durationMs: Date.now() - started, usage: result.usage });
+      return;
+    }
+
+    const [, mimeType, data] = result.imageUrl.match(/^data:([^;]+);base64,(.*)$/s) || [];
+    const output = path.join(outDir, name.replace(/\.png$/, extensionForMimeType(mimeType)));
+    fs.writeFileSync(output, Buffer.from(data || "", "base64"));
+    log({ input, output, status: "success", durationMs: Date.now() - started, usage: result.usage });
+  });
+
+  const count = (status: ItemStatus) => results.filter(item => item.status === status).length;
+  const tokens = results.reduce((sum, item) => ({
+    promptTokens: sum.promptTokens + (item.usage?.promptTokens ?? 0),
+    outputTokens: sum.outputTokens + (item.usage?.outputTokens ?? 0),
+    totalTokens: sum.totalTokens + (item.usage?.totalTokens ?? 0),
+  }), { promptTokens: 0, outputTokens: 0, totalTokens: 0 });
+  const summary = {
+    total: items.length,
+    succeeded: count("success"),
+    failed: count("failed"),
+    skipped: count("skipped"),
+    cancelled: count("cancelled"),
+    totalTokens: tokens.totalTokens,
+    estimatedCostUsd: Number(estimateCost({ model: settings.model, ...tokens }).toFixed(4)),
+  };
+  const report = {
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    provider: provider.id,
+    model: settings.model,
+    settings,
+    preset: preset.id,
+    prompt,
+    styleReferences: styleArgs,
+    summary,
+    // Input order rather than completion order, so reports diff cleanly between runs
+    items: inputs.map(input => results.find(item => item.input === input)!),
+  };
+  fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+  fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+
+  console.log(`Done: ${summary.succeeded} converted, ${summary.skipped} skipped, ${summary.failed} failed, ${summary.cancelled} cancelled. Report: ${path.relative(process.cwd(), reportPath)}`);
+  if (controller.signal.aborted) return 130;
+  return summary.failed > 0 ? 1 : 0;
+};
+
+main().then(
+  code => process.exit(code),
+  error => {
+    if (error instanceof UsageError || error?.code?.startsWith?.("ERR_PARSE_ARGS")) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      process.exit(2);
+    }
+    console.error(error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,200 @@
+import React, { useRef, useState } from 'react';
+import { generateChibiStyle } from '../services/geminiService';
+import { buildResultsZip, createBatchItem, resultFileNames, runWithConcurrency } from '../services/batchService';
+import { downloadBlob, downloadUrl, validateImageFile } from '../services/fileUtils';
+import { PreprocessOptions, preprocessImageFile } from '../services/imagePreprocess';
+import { renderTemplate } from '../services/promptTemplate';
+import { AppStatus, BatchItem, BatchRequest } from '../types';
+import { DownloadIcon, UploadIcon } from './Icons';
+import { useI18n } from './I18nProvider';
+import { buttonClass, primaryButtonClass } from './styles';
+
+interface BatchPanelProps extends BatchRequest {
+  preprocessOptions: PreprocessOptions;
+  onError: (message: string | null) => void;
+  onGenerated: (contentImage: string, resultImage: string, request: BatchRequest) => void;
+}
+
+const STATUS_CLASSES: Record<AppStatus, string> = {
+  [AppStatus.IDLE]: 'bg-slate-700 text-slate-300',
+  [AppStatus.UPLOADING]: 'bg-slate-700 text-slate-300',
+  [AppStatus.GENERATING]: 'bg-indigo-600/80 text-white animate-pulse',
+  [AppStatus.SUCCESS]: 'bg-emerald-600/80 text-white',
+  [AppStatus.ERROR]: 'bg-red-600/80 text-white',
+};
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({
+  styleReferences, prompt, templateValues, preset, settings, preprocessOptions, onError, onGenerated,
+}) => {
+  const { t } = useI18n();
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [concurrency, setConcurrency] = useState<number>(2);
+  const [running, setRunning] = useState<boolean>(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Shared by the run and any retries, so Stop cancels all of them
+  const batchSignal = (): AbortSignal => {
+    if (!abortRef.current || abortRef.current.signal.aborted) {
+      abortRef.current = new AbortController();
+    }
+    return abortRef.current.signal;
+  };
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+  };
+
+  // A run keeps the props of the render that started it, so every item reports what it actually used
+  const processItem = async (item: BatchItem, signal: AbortSignal) => {
+    const request: BatchRequest = { styleReferences, prompt, templateValues, preset, settings };
+    updateItem(item.id, { status: AppStatus.GENERATING, error: null });
+    const result = await generateChibiStyle(item.contentImage, styleReferences, renderTemplate(prompt, templateValues), [], {
+      signal,
+      usage: { kind: 'batch', presetId: preset.id, presetName: preset.name },
+      settings,
+    });
+    if (result.imageUrl) {
+      updateItem(item.id, { status: AppStatus.SUCCESS, resultImage: result.imageUrl });
+      onGenerated(item.contentImage, result.imageUrl, request);
+    } else if (result.reason === 'CANCELLED') {
+      // Back in the queue so the next run picks it up
+      updateItem(item.id, { status: AppStatus.IDLE });
+    } else {
+      updateItem(item.id, { status: AppStatus.ERROR, error: result.error! });
+    }
+  };
+
+  const handleAddFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+    event.target.value = '';
+
+    const added: BatchItem[] = [];
+    const errors: string[] = [];
+    for (const file of files) {
+      const error = validateImageFile(file);
+      if (error) {
+        errors.push(t('batch.fileError', { name: file.name, error }));
+        continue;
+      }
+      try {
+        added.push(createBatchItem(file.name, await preprocessImageFile(file, preprocessOptions)));
+      } catch (err: any) {
+        errors.push(t('batch.fileError', { name: file.name, error: err.message }));
+      }
+    }
+
+    setItems(prev => [...prev, ...added]);
+    onError(errors.length > 0 ? errors.join(' ') : null);
+  };
+
+  const handleStart = async () => {
+    const queued = items.filter(item => item.status === AppStatus.IDLE);
+    if (queued.length === 0) return;
+    setRunning(true);
+    onError(null);
+    const signal = batchSignal();
+    await runWithConcurrency(queued, concurrency, (item: BatchItem) => processItem(item, signal));
+    setRunning(false);
+  };
+
+  const handleDownloadAll = () => {
+    downloadBlob(buildResultsZip(items), 'chibify-batch.zip');
+  };
+
+  const fileNames = resultFileNames(items);
+  const queuedCount = items.filter(item => item.status === AppStatus.IDLE).length;
+  const successCount = items.filter(item => item.status === AppStatus.SUCCESS).length;
+  const busy = running || items.some(item => item.status === AppStatus.GENERATING);
+
+  return (
+    <div className="flex-1 bg-slate-800/30 border border-slate-700 rounded-2xl p-4 space-y-4 min-h-[400px]">
+      <div className="flex flex-wrap items-center gap-2">
+        <button className={buttonClass} onClick={() => inputRef.current?.click()}>{t('batch.addImages')}</button>
+        <input type="file" ref={inputRef} onChange={handleAddFiles} className="hidden" accept="image/*" multiple />
+        <label className="flex items-center gap-1 text-xs text-slate-400">
+          {t('batch.concurrency')}
+          <select
+            value={concurrency}
+            onChange={(e) => setConcurrency(Number(e.target.value))}
+            className="bg-slate-900 border border-slate-700 rounded px-1.5 py-1 text-slate-200 outline-none"
+          >
+            {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <button
+          className={primaryButtonClass}
+          onClick={handleStart}
+          disabled={running || queuedCount === 0 || !prompt.trim()}
+        >
+          {running ? t('batch.running') : t('batch.start', { count: queuedCount })}
+        </button>
+        {busy && (
+          <button className={buttonClass} onClick={() => abortRef.current?.abort()}>
+            {t('batch.stop')}
+          </button>
+        )}
+        <button className={buttonClass} onClick={handleDownloadAll} disabled={successCount === 0}>
+          {t('batch.downloadAll')}
+        </button>
+        <button className={buttonClass} onClick={() => setItems([])} disabled={busy || items.length === 0}>
+          {t('batch.clear')}
+        </button>
+      </div>
+
+      {items.length === 0 ? (
+        <div
+          className="h-64 border-2 border-dashed border-slate-700 hover:border-indigo-400 rounded-xl flex flex-col items-center justify-center text-slate-400 cursor-pointer transition-colors"
+          onClick={() => inputRef.current?.click()}
+        >
+          <UploadIcon />
+          <p className="text-sm mt-3">{t('batch.emptyTitle')}</p>
+          <p className="text-xs text-slate-500 mt-1">{t('batch.emptyHint')}</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {items.map(item => (
+            <div key={item.id} className="bg-slate-900/60 border border-slate-700 rounded-lg overflow-hidden flex flex-col">
+              <div className="relative aspect-square bg-slate-900">
+                <img
+                  src={item.resultImage || item.contentImage}
+                  alt={item.fileName}
+                  className={`w-full h-full object-contain ${item.resultImage ? '' : 'opacity-60'}`}
+                />
+                <span className={`absolute top-1.5 left-1.5 text-[10px] px-1.5 py-0.5 rounded ${STATUS_CLASSES[item.status]}`}>
+                  {t(`batch.status.${item.status}`)}
+                </span>
+              </div>
+              <div className="p-2 space-y-1.5 text-xs">
+                <p className="truncate text-slate-300" title={item.fileName}>{item.fileName}</p>
+                {item.error && <p className="text-red-400 line-clamp-2" title={item.error}>{item.error}</p>}
+                <div className="flex gap-1.5">
+                  {item.status === AppStatus.ERROR && (
+                    <button className={buttonClass} onClick={() => processItem(item, batchSignal())}>{t('batch.retry')}</button>
+                  )}
+                  {item.resultImage && (
+                    <button
+                      className={buttonClass}
+                      onClick={() => downloadUrl(item.resultImage!, fileNames.get(item.id)!)}
+                      title={t('batch.download')}
+                    >
+                      <DownloadIcon />
+                    </button>
+                  )}
+                  {item.status !== AppStatus.GENERATING && (
+                    <button
+                      className={`${buttonClass} ml-auto`}
+                      onClick={() => setItems(prev => prev.filter(i => i.id !== item.id))}
+                    >
+                      {t('batch.remove')}
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
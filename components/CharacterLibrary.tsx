@@ -0,0 +1,254 @@
+import React, { useRef, useState } from 'react';
+import {
+  createCharacter,
+  exportCharacters,
+  importCharacters,
+  MAX_CHARACTER_IMAGES,
+  MAX_TRAIT_LENGTH,
+  TRAIT_FIELDS,
+} from '../services/characterService';
+import { downloadBlob, validateImageFile } from '../services/fileUtils';
+import { PreprocessOptions, preprocessImageFile } from '../services/imagePreprocess';
+import { CharacterProfile } from '../types';
+import { useI18n } from './I18nProvider';
+import { buttonClass, inputClass, primaryButtonClass } from './styles';
+
+interface CharacterLibraryProps {
+  characters: CharacterProfile[];
+  activeId: string | null;
+  // The content image on screen, offered as the first image of a new character
+  currentImage: string | null;
+  preprocessOptions: PreprocessOptions;
+  onUse: (profile: CharacterProfile) => void;
+  onSave: (profile: CharacterProfile) => void;
+  onDelete: (id: string) => void;
+  onImport: (profiles: CharacterProfile[]) => void;
+  onError: (message: string | null) => void;
+}
+
+const traitSummary = (profile: CharacterProfile) => TRAIT_FIELDS.map(field => profile.traits[field].trim()).filter(Boolean).join(' · ');
+
+const fileName = (name: string) => `${name.trim().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '') || 'character'}.json`;
+
+/**
+ * Saved characters. Picking one puts its main image in the content slot;
+ * its extra images and trait notes then go along with every request.
+ */
+export const CharacterLibrary: React.FC<CharacterLibraryProps> = ({
+  characters, activeId, currentImage, preprocessOptions, onUse, onSave, onDelete, onImport, onError,
+}) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<CharacterProfile | null>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleNew = () => {
+    setDraft(createCharacter(t('characters.newName'), currentImage ? [currentImage] : []));
+  };
+
+  const handleDelete = (profile: CharacterProfile) => {
+    if (!window.confirm(t('characters.confirmDelete', { name: profile.name }))) return;
+    onDelete(profile.id);
+  };
+
+  const handleSaveDraft = () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      onError(t('characters.nameRequired'));
+      return;
+    }
+    if (draft.images.length === 0) {
+      onError(t('characters.imageRequired'));
+      return;
+    }
+    onSave({ ...draft, name: draft.name.trim(), updatedAt: Date.now() });
+    onError(null);
+    setDraft(null);
+  };
+
+  const addImages = (images: string[]) => {
+    setDraft(prev => prev && { ...prev, images: [...prev.images, ...images].slice(0, MAX_CHARACTER_IMAGES) });
+  };
+
+  const handleImageFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+    event.target.value = '';
+    const added: string[] = [];
+    for (const file of files) {
+      const error = validateImageFile(file);
+      if (error) {
+        onError(error);
+        continue;
+      }
+      try {
+        added.push(await preprocessImageFile(file, preprocessOptions));
+      } catch (err: any) {
+        onError(err.message);
+      }
+    }
+    addImages(added);
+  };
+
+  // The main image is the one used as the content image
+  const makeMain = (index: number) => {
+    setDraft(prev => prev && { ...prev, images: [prev.images[index], ...prev.images.filter((_, i) => i !== index)] });
+  };
+
+  const removeImage = (index: number) => {
+    setDraft(prev => prev && { ...prev, images: prev.images.filter((_, i) => i !== index) });
+  };
+
+  const handleExport = (profiles: CharacterProfile[], name: string) => {
+    downloadBlob(new Blob([exportCharacters(profiles)], { type: 'application/json' }), fileName(name));
+  };
+
+  const handleImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      try {
+        onImport(importCharacters(reader.result as string));
+        onError(null);
+      } catch (err: any) {
+        onError(err.message);
+      }
+    };
+    reader.onerror = () => {
+      onError(t('characters.readFailed'));
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl p-4 border border-slate-700 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-medium text-slate-300">{t('characters.heading')}</h3>
+        {!draft && (
+          <div className="flex flex-wrap gap-2">
+            <button className={buttonClass} onClick={handleNew}>{t('characters.new')}</button>
+            <button className={buttonClass} onClick={() => importInputRef.current?.click()}>{t('characters.import')}</button>
+            <button
+              className={buttonClass}
+              onClick={() => handleExport(characters, 'chibify-characters')}
+              disabled={characters.length === 0}
+            >
+              {t('characters.exportAll')}
+            </button>
+            <input type="file" ref={importInputRef} onChange={handleImportFile} className="hidden" accept="application/json,.json" />
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-slate-500">{t('characters.hint')}</p>
+
+      {!draft && (characters.length === 0 ? (
+        <p className="text-xs text-slate-500">{t('characters.empty')}</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {characters.map(profile => (
+            <div
+              key={profile.id}
+              className={`flex gap-2 p-2 rounded-lg border bg-slate-900/60 ${profile.id === activeId ? 'border-indigo-500' : 'border-slate-700'}`}
+            >
+              <img src={profile.images[0]} alt={profile.name} className="w-14 h-14 rounded object-cover bg-slate-900 shrink-0" />
+              <div className="min-w-0 flex-1 space-y-1">
+                <p className="text-sm text-slate-200 truncate">{profile.name}</p>
+                <p className="text-[11px] text-slate-500 truncate" title={traitSummary(profile)}>{traitSummary(profile)}</p>
+                <div className="flex flex-wrap gap-1">
+                  <button
+                    className={profile.id === activeId ? primaryButtonClass : buttonClass}
+                    onClick={() => onUse(profile)}
+                    disabled={profile.id === activeId}
+                  >
+                    {profile.id === activeId ? t('characters.inUse') : t('characters.use')}
+                  </button>
+                  <button className={buttonClass} onClick={() => setDraft(profile)}>{t('characters.edit')}</button>
+                  <button className={buttonClass} onClick={() => handleExport([profile], profile.name)}>{t('characters.export')}</button>
+                  <button className={buttonClass} onClick={() => handleDelete(profile)}>{t('characters.delete')}</button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ))}
+
+      {draft && (
+        <div className="space-y-3 border border-slate-700 rounded-lg p-3 bg-slate-900/40">
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className={inputClass}
+            placeholder={t('characters.namePlaceholder')}
+            maxLength={60}
+          />
+
+          <div className="space-y-1">
+            <p className="text-xs text-slate-400">{t('characters.images', { count: draft.images.length, max: MAX_CHARACTER_IMAGES })}</p>
+            <div className="flex flex-wrap gap-2">
+              {draft.images.map((image, i) => (
+                <div key={i} className="relative w-20 h-20 rounded overflow-hidden bg-slate-900 border border-slate-700">
+                  <img src={image} alt="" className="w-full h-full object-cover" />
+                  {i === 0 ? (
+                    <span className="absolute top-1 left-1 text-[10px] px-1 rounded bg-indigo-600 text-white">{t('characters.mainImage')}</span>
+                  ) : (
+                    <button
+                      onClick={() => makeMain(i)}
+                      title={t('characters.makeMain')}
+                      className="absolute top-1 left-1 text-[10px] px-1 rounded bg-slate-900/80 text-slate-200 hover:bg-indigo-600"
+                    >
+                      ★
+                    </button>
+                  )}
+                  <button
+                    onClick={() => removeImage(i)}
+                    className="absolute top-1 right-1 bg-slate-900/80 hover:bg-red-500/90 text-white w-5 h-5 rounded-full text-xs leading-none"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+            <p className="text-[11px] text-slate-500">{t('characters.imagesHint')}</p>
+            <div className="flex gap-2">
+              <button
+                className={buttonClass}
+                onClick={() => imageInputRef.current?.click()}
+                disabled={draft.images.length >= MAX_CHARACTER_IMAGES}
+              >
+                {t('characters.addImage')}
+              </button>
+              <button
+                className={buttonClass}
+                onClick={() => currentImage && addImages([currentImage])}
+                disabled={!currentImage || draft.images.includes(currentImage) || draft.images.length >= MAX_CHARACTER_IMAGES}
+              >
+                {t('characters.addCurrent')}
+              </button>
+              <input type="file" ref={imageInputRef} onChange={handleImageFiles} className="hidden" accept="image/*" multiple />
+            </div>
+          </div>
+
+          {TRAIT_FIELDS.map(field => (
+            <label key={field} className="block space-y-1">
+              <span className="text-xs text-slate-400">{t(`characters.trait.${field}`)}</span>
+              <input
+                value={draft.traits[field]}
+                onChange={(e) => setDraft({ ...draft, traits: { ...draft.traits, [field]: e.target.value } })}
+                placeholder={t(`characters.placeholder.${field}`)}
+                maxLength={MAX_TRAIT_LENGTH}
+                className={inputClass}
+              />
+            </label>
+          ))}
+
+          <div className="flex justify-end gap-2">
+            <button className={buttonClass} onClick={() => setDraft(null)}>{t('characters.cancel')}</button>
+            <button className={primaryButtonClass} onClick={handleSaveDraft}>{t('characters.save')}</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useRef, useState } from 'react';
+import { useI18n } from './I18nProvider';
+
+interface CompareViewProps {
+  before: string;
+  after: string;
+}
+
+type CompareMode = 'overlay' | 'side';
+
+const badgeClass = "absolute top-2 bg-slate-900/80 text-white text-xs px-2 py-1 rounded pointer-events-none";
+
+/**
+ * Source and result in one frame: stacked with a draggable split line, or
+ * next to each other. Both images are contained in the same box, so the
+ * split line cuts them at the same place even when their sizes differ.
+ */
+export const CompareView: React.FC<CompareViewProps> = ({ before, after }) => {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<CompareMode>('overlay');
+  // Position of the split line, in percent of the frame width
+  const [split, setSplit] = useState<number>(50);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragging = useRef<boolean>(false);
+
+  const moveTo = (clientX: number) => {
+    const rect = frameRef.current!.getBoundingClientRect();
+    setSplit(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    (event.target as Element).setPointerCapture(event.pointerId);
+    dragging.current = true;
+    moveTo(event.clientX);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    const step = event.shiftKey ? 10 : 2;
+    if (event.key === 'ArrowLeft') setSplit(prev => Math.max(0, prev - step));
+    if (event.key === 'ArrowRight') setSplit(prev => Math.min(100, prev + step));
+  };
+
+  return (
+    <div className="w-full space-y-3">
+      <div className="flex justify-center">
+        <div className="flex bg-slate-900 border border-slate-700 rounded-lg p-0.5 text-xs">
+          {(['overlay', 'side'] as CompareMode[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`px-2.5 py-1 rounded-md transition-colors ${mode === option ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+            >
+              {t(`compare.mode.${option}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === 'overlay' ? (
+        <div
+          ref={frameRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={(e) => dragging.current && moveTo(e.clientX)}
+          onPointerUp={() => { dragging.current = false; }}
+          className="relative w-full h-[440px] select-none touch-none cursor-ew-resize"
+        >
+          <img src={before} alt={t('compare.before')} className="absolute inset-0 w-full h-full object-contain" draggable={false} />
+          <img
+            src={after}
+            alt={t('compare.after')}
+            className="absolute inset-0 w-full h-full object-contain"
+            style={{ clipPath: `inset(0 0 0 ${split}%)` }}
+            draggable={false}
+          />
+          <div className="absolute inset-y-0 w-0.5 bg-white/90 shadow" style={{ left: `${split}%` }}>
+            <div
+              role="slider"
+              tabIndex={0}
+              aria-label={t('compare.slider')}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(split)}
+              onKeyDown={handleKeyDown}
+              className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-8 h-8 rounded-full bg-white text-slate-900 shadow-lg flex items-center justify-center text-xs font-bold outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              ⇔
+            </div>
+          </div>
+          <span className={`${badgeClass} left-2`}>{t('compare.before')}</span>
+          <span className={`${badgeClass} right-2`}>{t('compare.after')}</span>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-3">
+          {[before, after].map((image, i) => (
+            <div key={i} className="relative bg-slate-900 rounded-lg overflow-hidden">
+              <img src={image} alt={i === 0 ? t('compare.before') : t('compare.after')} className="w-full h-[400px] object-contain" />
+              <span className={`${badgeClass} left-2`}>{i === 0 ? t('compare.before') : t('compare.after')}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
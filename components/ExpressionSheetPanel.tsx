@@ -0,0 +1,350 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { generateChibiStyle, MAX_CHARACTER_REFERENCES } from '../services/geminiService';
+import { runWithConcurrency } from '../services/batchService';
+import {
+  BUILT_IN_EXPRESSIONS,
+  buildStickerPackZip,
+  createSheetCell,
+  DEFAULT_EXPRESSIONS,
+  DEFAULT_SHEET_OPTIONS,
+  expressionText,
+  MAX_SHEET_CELLS,
+  renderCellPrompt,
+  renderSheet,
+  sheetFileNames,
+  SheetOptions,
+} from '../services/expressionSheet';
+import { dataUrlToBytes, downloadBlob, downloadUrl } from '../services/fileUtils';
+import { AppStatus, CharacterProfile, GenerationSettings, SheetCell, StyleReference } from '../types';
+import { DownloadIcon } from './Icons';
+import { useI18n } from './I18nProvider';
+import { buttonClass, fieldClass, primaryButtonClass } from './styles';
+
+interface ExpressionSheetPanelProps {
+  contentImage: string | null;
+  styleReferences: StyleReference[];
+  // The prompt template; each cell fills in its own {{expression}}
+  prompt: string;
+  templateValues: Record<string, string>;
+  preset: { id: string; name: string };
+  settings: GenerationSettings;
+  // Saved character in the content slot, if any
+  character: CharacterProfile | null;
+  onError: (message: string | null) => void;
+  onGenerated: (contentImage: string, resultImage: string, expression: string) => void;
+}
+
+const STATUS_CLASSES: Record<AppStatus, string> = {
+  [AppStatus.IDLE]: 'bg-slate-700 text-slate-300',
+  [AppStatus.UPLOADING]: 'bg-slate-700 text-slate-300',
+  [AppStatus.GENERATING]: 'bg-indigo-600/80 text-white animate-pulse',
+  [AppStatus.SUCCESS]: 'bg-emerald-600/80 text-white',
+  [AppStatus.ERROR]: 'bg-red-600/80 text-white',
+};
+
+const SHEET_CONCURRENCY = 2;
+
+/**
+ * Sticker sheet mode. Every expression is generated from the same content
+ * and style inputs; once one result exists it is sent along as a character
+ * reference so the rest of the pack draws the same character.
+ */
+export const ExpressionSheetPanel: React.FC<ExpressionSheetPanelProps> = ({
+  contentImage, styleReferences, prompt, templateValues, preset, settings, character, onError, onGenerated,
+}) => {
+  const { t, locale } = useI18n();
+  const [cells, setCells] = useState<SheetCell[]>(() => DEFAULT_EXPRESSIONS.map(id => createSheetCell(id)));
+  // The cell whose result keeps the others consistent
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+  const [consistent, setConsistent] = useState<boolean>(true);
+  const [custom, setCustom] = useState<string>('');
+  const [running, setRunning] = useState<boolean>(false);
+  const [options, setOptions] = useState<SheetOptions>(DEFAULT_SHEET_OPTIONS);
+  const [sheet, setSheet] = useState<HTMLCanvasElement | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Shared by the run and any regenerations, so Stop cancels all of them
+  const sheetSignal = (): AbortSignal => {
+    if (!abortRef.current || abortRef.current.signal.aborted) {
+      abortRef.current = new AbortController();
+    }
+    return abortRef.current.signal;
+  };
+
+  const doneCells = cells.filter(cell => cell.resultImage);
+  const anchor = cells.find(cell => cell.id === anchorId && cell.resultImage);
+  const queuedCount = cells.filter(cell => cell.status === AppStatus.IDLE || cell.status === AppStatus.ERROR).length;
+  const busy = running || cells.some(cell => cell.status === AppStatus.GENERATING);
+
+  // Results drawn from another photo do not belong in this pack
+  useEffect(() => {
+    setCells(prev => prev.map(cell => ({ ...cell, status: AppStatus.IDLE, resultImage: null, error: null })));
+    setAnchorId(null);
+  }, [contentImage]);
+
+  const resultsKey = doneCells.map(cell => `${cell.id}:${cell.resultImage!.length}`).join('|');
+  useEffect(() => {
+    if (doneCells.length === 0) {
+      setSheet(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      renderSheet(cells, options)
+        .then(canvas => { if (!cancelled) setSheet(canvas); })
+        .catch(err => onError(err.message || t('sheet.renderFailed')));
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [resultsKey, options, locale]);
+
+  const sheetUrl = useMemo(() => sheet?.toDataURL('image/png'), [sheet]);
+
+  const updateCell = (id: string, patch: Partial<SheetCell>) => {
+    setCells(prev => prev.map(cell => cell.id === id ? { ...cell, ...patch } : cell));
+  };
+
+  const processCell = async (cell: SheetCell, references: string[], signal?: AbortSignal): Promise<string | null> => {
+    if (!contentImage) return null;
+    const expression = expressionText(cell);
+    updateCell(cell.id, { status: AppStatus.GENERATING, error: null });
+    const result = await generateChibiStyle(contentImage, styleReferences, renderCellPrompt(prompt, templateValues, expression), [], {
+      signal,
+      // The pack's own reference comes first; the character's extra photos fill the remaining slots
+      characterReferences: [...references, ...(character?.images.slice(1) ?? [])].slice(0, MAX_CHARACTER_REFERENCES),
+      characterTraits: character?.traits,
+      usage: { kind: 'sheet', presetId: preset.id, presetName: preset.name },
+      settings,
+    });
+    if (result.imageUrl) {
+      updateCell(cell.id, { status: AppStatus.SUCCESS, resultImage: result.imageUrl });
+      onGenerated(contentImage, result.imageUrl, expression);
+      return result.imageUrl;
+    }
+    updateCell(cell.id, result.reason === 'CANCELLED'
+      ? { status: AppStatus.IDLE }
+      : { status: AppStatus.ERROR, error: result.error! });
+    return null;
+  };
+
+  /**
+   * Without a reference yet, cells run one at a time until the first
+   * succeeds; everything after that runs in parallel against it.
+   */
+  const handleGenerate = async () => {
+    const queued = cells.filter(cell => cell.status === AppStatus.IDLE || cell.status === AppStatus.ERROR);
+    if (!contentImage || queued.length === 0) return;
+    setRunning(true);
+    onError(null);
+    const signal = sheetSignal();
+
+    let reference = consistent ? anchor?.resultImage ?? null : null;
+    while (consistent && !reference && queued.length > 0 && !signal.aborted) {
+      const cell = queued.shift()!;
+      reference = await processCell(cell, [], signal);
+      if (reference) setAnchorId(cell.id);
+    }
+    await runWithConcurrency(queued, SHEET_CONCURRENCY, async (cell: SheetCell) => {
+      await processCell(cell, reference ? [reference] : [], signal);
+    });
+    setRunning(false);
+  };
+
+  const handleRegenerate = (cell: SheetCell) => {
+    const useAnchor = consistent && anchor && anchor.id !== cell.id;
+    processCell(cell, useAnchor ? [anchor.resultImage!] : [], sheetSignal());
+  };
+
+  const toggleExpression = (id: string) => {
+    const existing = cells.find(cell => cell.expressionId === id);
+    if (existing) {
+      if (existing.status !== AppStatus.GENERATING) removeCell(existing.id);
+    } else if (cells.length < MAX_SHEET_CELLS) {
+      setCells(prev => [...prev, createSheetCell(id)]);
+    }
+  };
+
+  const handleAddCustom = () => {
+    const text = custom.trim();
+    if (!text || cells.length >= MAX_SHEET_CELLS) return;
+    setCells(prev => [...prev, createSheetCell(null, text)]);
+    setCustom('');
+  };
+
+  const removeCell = (id: string) => {
+    setCells(prev => prev.filter(cell => cell.id !== id));
+    if (anchorId === id) setAnchorId(null);
+  };
+
+  const handleDownloadSheet = () => {
+    if (sheetUrl) downloadUrl(sheetUrl, 'sticker-sheet.png');
+  };
+
+  const handleDownloadPack = () => {
+    if (!sheetUrl) return;
+    downloadBlob(buildStickerPackZip(cells, dataUrlToBytes(sheetUrl)), 'sticker-pack.zip');
+  };
+
+  const fileNames = sheetFileNames(cells);
+
+  return (
+    <div className="flex-1 bg-slate-800/30 border border-slate-700 rounded-2xl p-4 space-y-4 min-h-[400px]">
+      <div className="space-y-2">
+        <p className="text-xs text-slate-400">{t('sheet.pickHint', { max: MAX_SHEET_CELLS })}</p>
+        <div className="flex flex-wrap gap-1.5">
+          {BUILT_IN_EXPRESSIONS.map(id => {
+            const selected = cells.some(cell => cell.expressionId === id);
+            return (
+              <button
+                key={id}
+                onClick={() => toggleExpression(id)}
+                disabled={!selected && cells.length >= MAX_SHEET_CELLS}
+                className={`px-2.5 py-1 rounded-full text-xs transition-colors disabled:opacity-40 ${selected ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+              >
+                {t(`sheet.expression.${id}`)}
+              </button>
+            );
+          })}
+        </div>
+        <div className="flex gap-2">
+          <input
+            value={custom}
+            onChange={(e) => setCustom(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddCustom()}
+            placeholder={t('sheet.customPlaceholder')}
+            maxLength={80}
+            className={`${fieldClass} flex-1`}
+          />
+          <button className={buttonClass} onClick={handleAddCustom} disabled={!custom.trim() || cells.length >= MAX_SHEET_CELLS}>
+            {t('sheet.add')}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          className={primaryButtonClass}
+          onClick={handleGenerate}
+          disabled={busy || !contentImage || queuedCount === 0 || !prompt.trim()}
+        >
+          {running ? t('sheet.running') : t('sheet.generate', { count: queuedCount })}
+        </button>
+        {busy && (
+          <button className={buttonClass} onClick={() => abortRef.current?.abort()}>
+            {t('sheet.stop')}
+          </button>
+        )}
+        <label className="flex items-center gap-1.5 text-xs text-slate-400" title={t('sheet.consistentHint')}>
+          <input type="checkbox" checked={consistent} onChange={(e) => setConsistent(e.target.checked)} />
+          {t('sheet.consistent')}
+        </label>
+      </div>
+
+      {!contentImage && <p className="text-xs text-amber-400">{t('sheet.needContent')}</p>}
+
+      {cells.length === 0 ? (
+        <p className="text-sm text-slate-500">{t('sheet.empty')}</p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {cells.map(cell => (
+            <div
+              key={cell.id}
+              className={`bg-slate-900/60 border rounded-lg overflow-hidden flex flex-col ${cell.id === anchor?.id ? 'border-indigo-500' : 'border-slate-700'}`}
+            >
+              <div className="relative aspect-square bg-slate-900 flex items-center justify-center">
+                {cell.resultImage ? (
+                  <img src={cell.resultImage} alt={expressionText(cell)} className="w-full h-full object-contain" />
+                ) : (
+                  <span className="text-slate-500 text-sm px-2 text-center">{expressionText(cell)}</span>
+                )}
+                <span className={`absolute top-1.5 left-1.5 text-[10px] px-1.5 py-0.5 rounded ${STATUS_CLASSES[cell.status]}`}>
+                  {t(`batch.status.${cell.status}`)}
+                </span>
+                {cell.id === anchor?.id && (
+                  <span className="absolute top-1.5 right-1.5 text-[10px] px-1.5 py-0.5 rounded bg-indigo-600 text-white">
+                    {t('sheet.reference')}
+                  </span>
+                )}
+              </div>
+              <div className="p-2 space-y-1.5 text-xs">
+                <p className="truncate text-slate-300" title={fileNames.get(cell.id)}>{expressionText(cell)}</p>
+                {cell.error && <p className="text-red-400 line-clamp-2" title={cell.error}>{cell.error}</p>}
+                <div className="flex flex-wrap gap-1.5">
+                  {cell.status !== AppStatus.GENERATING && cell.status !== AppStatus.IDLE && contentImage && (
+                    <button className={buttonClass} onClick={() => handleRegenerate(cell)} disabled={busy}>
+                      {t('sheet.regenerate')}
+                    </button>
+                  )}
+                  {cell.resultImage && cell.id !== anchor?.id && (
+                    <button className={buttonClass} onClick={() => setAnchorId(cell.id)} title={t('sheet.useAsReferenceHint')}>
+                      {t('sheet.useAsReference')}
+                    </button>
+                  )}
+                  {cell.resultImage && (
+                    <button
+                      className={buttonClass}
+                      onClick={() => downloadUrl(cell.resultImage!, fileNames.get(cell.id)!)}
+                      title={t('batch.download')}
+                    >
+                      <DownloadIcon />
+                    </button>
+                  )}
+                  {cell.status !== AppStatus.GENERATING && (
+                    <button className={`${buttonClass} ml-auto`} onClick={() => removeCell(cell.id)} disabled={running}>
+                      {t('batch.remove')}
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {doneCells.length > 0 && (
+        <div className="space-y-3 border-t border-slate-700 pt-4">
+          <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+            <label className="flex items-center gap-1">
+              {t('sheet.columns')}
+              <select
+                value={options.columns}
+                onChange={(e) => setOptions(prev => ({ ...prev, columns: Number(e.target.value) }))}
+                className={fieldClass}
+              >
+                {[2, 3, 4, 5, 6].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            <select
+              value={options.background}
+              onChange={(e) => setOptions(prev => ({ ...prev, background: e.target.value as SheetOptions['background'] }))}
+              aria-label={t('sheet.background')}
+              className={fieldClass}
+            >
+              <option value="white">{t('sheet.background.white')}</option>
+              <option value="transparent">{t('sheet.background.transparent')}</option>
+            </select>
+            <label className="flex items-center gap-1.5">
+              <input
+                type="checkbox"
+                checked={options.showLabels}
+                onChange={(e) => setOptions(prev => ({ ...prev, showLabels: e.target.checked }))}
+              />
+              {t('sheet.showLabels')}
+            </label>
+            <button className={`${buttonClass} ml-auto`} onClick={handleDownloadSheet} disabled={!sheetUrl}>
+              {t('sheet.downloadSheet')}
+            </button>
+            <button className={buttonClass} onClick={handleDownloadPack} disabled={!sheetUrl}>
+              {t('sheet.downloadPack')}
+            </button>
+          </div>
+          <div className="bg-slate-900 rounded-lg p-2 flex justify-center">
+            {sheetUrl && <img src={sheetUrl} alt={t('sheet.preview')} className="max-w-full max-h-[420px] object-contain" />}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { HistoryEntry } from '../types';
+import { StorageUsage } from '../services/historyService';
+import { formatBytes } from '../services/fileUtils';
+import { useI18n } from './I18nProvider';
+import { buttonClass, fieldClass } from './styles';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  usage: StorageUsage | null;
+  onRestore: (entry: HistoryEntry) => void;
+  onRerun: (entry: HistoryEntry) => void;
+  onToggleFavorite: (entry: HistoryEntry) => void;
+  onDelete: (ids: string[]) => void;
+  onClear: () => void;
+}
+
+// yyyy-mm-dd in local time, matching the value of <input type="date">
+const toDateKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, usage, onRestore, onRerun, onToggleFavorite, onDelete, onClear }) => {
+  const { t } = useI18n();
+  const [dateFilter, setDateFilter] = useState<string>('');
+  const [presetFilter, setPresetFilter] = useState<string>('');
+  const [favoritesOnly, setFavoritesOnly] = useState<boolean>(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const presetNames = Array.from(new Set(entries.map(e => e.presetName)));
+  const visible = entries.filter(entry =>
+    (!dateFilter || toDateKey(entry.createdAt) === dateFilter)
+    && (!presetFilter || entry.presetName === presetFilter)
+    && (!favoritesOnly || entry.favorite)
+  );
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const handleDeleteSelected = () => {
+    const ids = visible.filter(e => selected.has(e.id)).map(e => e.id);
+    if (ids.length === 0 || !window.confirm(t('history.confirmDelete', { count: ids.length }))) return;
+    onDelete(ids);
+    setSelected(new Set());
+  };
+
+  const handleClear = () => {
+    if (!window.confirm(t('history.confirmClear'))) return;
+    onClear();
+    setSelected(new Set());
+  };
+
+  return (
+    <section className="mt-12 space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="space-y-1">
+          <h2 className="text-2xl font-semibold">{t('history.heading')}</h2>
+          <p className="text-xs text-slate-500">
+            {t('history.count', { count: entries.length })}
+            {usage && t('history.storage', { used: formatBytes(usage.usage), quota: formatBytes(usage.quota) })}
+          </p>
+          {usage && usage.quota > 0 && (
+            <div className="w-48 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-indigo-500"
+                style={{ width: `${Math.min(100, (usage.usage / usage.quota) * 100)}%` }}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <input type="date" value={dateFilter} onChange={(e) => setDateFilter(e.target.value)} className={fieldClass} />
+          <select value={presetFilter} onChange={(e) => setPresetFilter(e.target.value)} className={fieldClass}>
+            <option value="">{t('history.allPresets')}</option>
+            {presetNames.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+          <label className="flex items-center gap-1 text-xs text-slate-400">
+            <input type="checkbox" checked={favoritesOnly} onChange={(e) => setFavoritesOnly(e.target.checked)} />
+            {t('history.favoritesOnly')}
+          </label>
+          <button className={buttonClass} onClick={handleDeleteSelected} disabled={selected.size === 0}>
+            {t('history.deleteSelected')}
+          </button>
+          <button className={buttonClass} onClick={handleClear} disabled={entries.length === 0}>
+            {t('history.clear')}
+          </button>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-slate-500 py-8 text-center border border-dashed border-slate-800 rounded-xl">
+          {entries.length === 0 ? t('history.empty') : t('history.noMatch')}
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-3">
+          {visible.map(entry => (
+            <div
+              key={entry.id}
+              className={`group bg-slate-800/40 border rounded-lg overflow-hidden ${selected.has(entry.id) ? 'border-indigo-500' : 'border-slate-700'}`}
+            >
+              <div className="relative aspect-square bg-slate-900 cursor-pointer" onClick={() => onRestore(entry)} title={t('history.restoreTitle')}>
+                <img src={entry.resultImage} alt={entry.presetName} className="w-full h-full object-contain" />
+                <input
+                  type="checkbox"
+                  checked={selected.has(entry.id)}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={() => toggleSelected(entry.id)}
+                  className="absolute top-1.5 left-1.5"
+                />
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onToggleFavorite(entry);
+                  }}
+                  className={`absolute top-1 right-1.5 text-lg leading-none ${entry.favorite ? 'text-amber-400' : 'text-slate-500 opacity-0 group-hover:opacity-100'}`}
+                  title={entry.favorite ? t('history.unfavorite') : t('history.favorite')}
+                >
+                  {entry.favorite ? '★' : '☆'}
+                </button>
+              </div>
+              <div className="p-2 space-y-1.5 text-xs">
+                <p className="truncate text-slate-300">{entry.presetName}</p>
+                <p className="text-slate-500">{new Date(entry.createdAt).toLocaleString()}</p>
+                <div className="flex gap-1.5">
+                  <button className={buttonClass} onClick={() => onRestore(entry)}>{t('history.restore')}</button>
+                  <button className={buttonClass} onClick={() => onRerun(entry)}>{t('history.rerun')}</button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
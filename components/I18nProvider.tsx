@@ -0,0 +1,54 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { findMissingKeys, getLocale, Locale, LOCALES, setLocale, t } from '../services/i18n';
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: typeof t;
+}
+
+const I18nContext = createContext<I18nContextValue>({ locale: getLocale(), setLocale, t });
+
+/**
+ * Holds the active locale in React state so switching languages re-renders
+ * every component that reads strings through `useI18n`.
+ */
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(getLocale);
+
+  // The module-level locale must change before the re-render so `t` already reads it
+  const changeLocale = (next: Locale) => {
+    setLocale(next);
+    setLocaleState(next);
+  };
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    const missing = findMissingKeys(locale);
+    if (missing.length > 0) {
+      console.warn(`[i18n] ${missing.length} messages missing for ${locale}:`, missing);
+    }
+  }, [locale]);
+
+  return (
+    <I18nContext.Provider value={{ locale, setLocale: changeLocale, t }}>
+      {children}
+    </I18nContext.Provider>
+  );
+};
+
+export const useI18n = () => useContext(I18nContext);
+
+export const LanguageSwitcher: React.FC = () => {
+  const { locale, setLocale: change, t } = useI18n();
+  return (
+    <select
+      value={locale}
+      onChange={(e) => change(e.target.value as Locale)}
+      aria-label={t('app.language')}
+      className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-300 outline-none"
+    >
+      {LOCALES.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+    </select>
+  );
+};
@@ -0,0 +1,164 @@
+import React, { useRef, useState } from 'react';
+import { CropRect, PreprocessOptions, Rotation, transformImage } from '../services/imagePreprocess';
+import { Spinner } from './Spinner';
+import { useI18n } from './I18nProvider';
+import { buttonClass, primaryButtonClass } from './styles';
+
+interface ImageCropperProps {
+  image: string;
+  title: string;
+  options: PreprocessOptions;
+  onConfirm: (image: string) => void;
+  onCancel: () => void;
+  onError: (message: string) => void;
+}
+
+type Aspect = 'free' | 'square';
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+export const ImageCropper: React.FC<ImageCropperProps> = ({ image, title, options, onConfirm, onCancel, onError }) => {
+  const { t } = useI18n();
+  // Rotation is baked into `working` immediately so the crop is always drawn on what the user sees
+  const [working, setWorking] = useState<string>(image);
+  const [crop, setCrop] = useState<CropRect | null>(null);
+  const [aspect, setAspect] = useState<Aspect>('free');
+  const [busy, setBusy] = useState<boolean>(false);
+  const imgRef = useRef<HTMLImageElement>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+
+  const pointerPosition = (event: React.PointerEvent) => {
+    const rect = imgRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((event.clientX - rect.left) / rect.width),
+      y: clamp((event.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    (event.target as Element).setPointerCapture(event.pointerId);
+    dragStart.current = pointerPosition(event);
+    setCrop(null);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const start = dragStart.current;
+    if (!start || !imgRef.current) return;
+    const current = pointerPosition(event);
+    let width = Math.abs(current.x - start.x);
+    let height = Math.abs(current.y - start.y);
+
+    if (aspect === 'square') {
+      // Equal on-screen size, converted back to fractions of each axis
+      const rect = imgRef.current.getBoundingClientRect();
+      const side = Math.min(width * rect.width, height * rect.height);
+      width = side / rect.width;
+      height = side / rect.height;
+    }
+
+    setCrop({
+      x: current.x < start.x ? start.x - width : start.x,
+      y: current.y < start.y ? start.y - height : start.y,
+      width,
+      height,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+    setCrop(prev => prev && prev.width > 0.02 && prev.height > 0.02 ? prev : null);
+  };
+
+  const rotate = async (delta: 90 | 270) => {
+    setBusy(true);
+    try {
+      // Intermediate steps stay lossless; the final encode happens on confirm
+      setWorking(await transformImage(working, { rotation: delta as Rotation, crop: null }, { ...options, outputType: 'image/png' }));
+      setCrop(null);
+    } catch (err: any) {
+      onError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (working === image && !crop) {
+      onConfirm(image);
+      return;
+    }
+    setBusy(true);
+    try {
+      onConfirm(await transformImage(working, { rotation: 0, crop }, options));
+    } catch (err: any) {
+      onError(err.message);
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl p-6 w-full max-w-2xl space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold">{title}</h3>
+          <p className="text-xs text-slate-500">{t('cropper.hint')}</p>
+        </div>
+
+        <div className="relative flex items-center justify-center bg-slate-950 rounded-lg overflow-hidden h-[420px] select-none">
+          <div className="relative touch-none">
+            <img
+              ref={imgRef}
+              src={working}
+              alt={title}
+              draggable={false}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              className="max-h-[420px] max-w-full object-contain cursor-crosshair"
+            />
+            {crop && (
+              <div
+                className="absolute border-2 border-indigo-400 pointer-events-none shadow-[0_0_0_9999px_rgba(2,6,23,0.6)]"
+                style={{
+                  left: `${crop.x * 100}%`,
+                  top: `${crop.y * 100}%`,
+                  width: `${crop.width * 100}%`,
+                  height: `${crop.height * 100}%`,
+                }}
+              />
+            )}
+          </div>
+          {busy && (
+            <div className="absolute inset-0 flex items-center justify-center bg-slate-950/60">
+              <Spinner />
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button className={buttonClass} onClick={() => rotate(270)} disabled={busy}>{t('cropper.rotateLeft')}</button>
+          <button className={buttonClass} onClick={() => rotate(90)} disabled={busy}>{t('cropper.rotateRight')}</button>
+          <select
+            value={aspect}
+            onChange={(e) => setAspect(e.target.value as Aspect)}
+            className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-xs text-slate-200 outline-none"
+          >
+            <option value="free">{t('cropper.free')}</option>
+            <option value="square">1:1</option>
+          </select>
+          <button className={buttonClass} onClick={() => setCrop(null)} disabled={busy || !crop}>{t('cropper.clear')}</button>
+          <div className="ml-auto flex gap-2">
+            <button className={buttonClass} onClick={onCancel} disabled={busy}>{t('cropper.cancel')}</button>
+            <button
+              className={primaryButtonClass}
+              onClick={handleConfirm}
+              disabled={busy}
+            >
+              {crop ? t('cropper.cropAndUse') : t('cropper.useWhole')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
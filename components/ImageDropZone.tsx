@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { imageFileFromDataTransfer, imageUrlFromDataTransfer } from '../services/imageSources';
+
+interface ImageDropZoneProps {
+  className: string;
+  onFile: (file: File) => void;
+  onUrl: (url: string) => void;
+  onClick?: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}
+
+/**
+ * Focusable upload card that also accepts dropped files, images dragged from
+ * other pages, and Ctrl+V pastes while it has focus.
+ */
+export const ImageDropZone: React.FC<ImageDropZoneProps> = ({ className, onFile, onUrl, onClick, disabled, children }) => {
+  const [dragging, setDragging] = useState<boolean>(false);
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (disabled) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setDragging(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent) => {
+    // Moving between children fires leave on the parent; only reset when the pointer really left
+    if (!event.currentTarget.contains(event.relatedTarget as Node)) setDragging(false);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setDragging(false);
+    if (disabled) return;
+    const file = imageFileFromDataTransfer(event.dataTransfer);
+    const url = file ? null : imageUrlFromDataTransfer(event.dataTransfer);
+    if (file) onFile(file);
+    else if (url) onUrl(url);
+  };
+
+  const handlePaste = (event: React.ClipboardEvent) => {
+    if (disabled) return;
+    const file = imageFileFromDataTransfer(event.clipboardData);
+    if (file) {
+      event.preventDefault();
+      onFile(file);
+      return;
+    }
+    const text = event.clipboardData.getData('text/plain').trim();
+    if (/^(https?:|data:image\/)/i.test(text)) {
+      event.preventDefault();
+      onUrl(text);
+    }
+  };
+
+  return (
+    <div
+      tabIndex={0}
+      className={`${className} outline-none focus:ring-2 focus:ring-indigo-500/60 ${dragging ? 'ring-2 ring-indigo-400 bg-indigo-500/10' : ''}`}
+      onClick={onClick}
+      onKeyDown={(e) => (e.key === 'Enter' || e.key === ' ') && e.target === e.currentTarget && onClick?.()}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      onPaste={handlePaste}
+    >
+      {children}
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { Spinner } from './Spinner';
+import { useI18n } from './I18nProvider';
+import { buttonClass } from './styles';
+
+type ImportTarget = 'content' | 'style';
+
+interface ImageImportBarProps {
+  // The content slot only exists in single mode
+  allowContent: boolean;
+  allowStyle: boolean;
+  onImportUrl: (url: string, target: ImportTarget) => Promise<void>;
+  onOpenCamera: () => void;
+}
+
+export const ImageImportBar: React.FC<ImageImportBarProps> = ({ allowContent, allowStyle, onImportUrl, onOpenCamera }) => {
+  const { t } = useI18n();
+  const [url, setUrl] = useState<string>('');
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const handleImport = async (target: ImportTarget) => {
+    if (!url.trim() || busy) return;
+    setBusy(true);
+    try {
+      await onImportUrl(url, target);
+      setUrl('');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder={t('source.urlPlaceholder')}
+          disabled={busy}
+          className="flex-1 min-w-[12rem] bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-xs text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+        />
+        {busy && <Spinner />}
+        <button className={buttonClass} onClick={() => handleImport('style')} disabled={busy || !url.trim() || !allowStyle}>
+          {t('source.importStyle')}
+        </button>
+        {allowContent && (
+          <>
+            <button className={buttonClass} onClick={() => handleImport('content')} disabled={busy || !url.trim()}>
+              {t('source.importContent')}
+            </button>
+            <button className={buttonClass} onClick={onOpenCamera} disabled={busy}>
+              {t('source.camera')}
+            </button>
+          </>
+        )}
+      </div>
+      <p className="text-xs text-slate-500">{t('source.hint')}</p>
+    </div>
+  );
+};
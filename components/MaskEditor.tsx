@@ -0,0 +1,180 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { drawMaskStrokes, hasMaskedArea, MaskStroke, MaskTool, renderMask } from '../services/maskEdit';
+import { Spinner } from './Spinner';
+import { useI18n } from './I18nProvider';
+import { buttonClass } from './styles';
+
+interface MaskEditorProps {
+  image: string;
+  // The revision this one was derived from, for the before/after toggle
+  beforeImage: string | null;
+  busy: boolean;
+  onSubmit: (instruction: string, mask: string) => void;
+}
+
+const OVERLAY_COLOR = '#ef4444';
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+export const MaskEditor: React.FC<MaskEditorProps> = ({ image, beforeImage, busy, onSubmit }) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState<boolean>(false);
+  const [strokes, setStrokes] = useState<MaskStroke[]>([]);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState<number>(6);
+  const [instruction, setInstruction] = useState<string>('');
+  const [showBefore, setShowBefore] = useState<boolean>(false);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef<boolean>(false);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) drawMaskStrokes(ctx, strokes, OVERLAY_COLOR);
+  }, [strokes, size, open]);
+
+  // A new revision is compared against its own parent
+  useEffect(() => {
+    setShowBefore(false);
+  }, [image]);
+
+  const pointerPosition = (event: React.PointerEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((event.clientX - rect.left) / rect.width),
+      y: clamp((event.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    if (busy || showBefore) return;
+    (event.target as Element).setPointerCapture(event.pointerId);
+    drawing.current = true;
+    setStrokes(prev => [...prev, { tool, size: brushSize, points: [pointerPosition(event)] }]);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!drawing.current) return;
+    const point = pointerPosition(event);
+    setStrokes(prev => {
+      const last = prev[prev.length - 1];
+      return [...prev.slice(0, -1), { ...last, points: [...last.points, point] }];
+    });
+  };
+
+  const handlePointerUp = () => {
+    drawing.current = false;
+  };
+
+  const handleSubmit = () => {
+    const text = instruction.trim();
+    if (!text || !size || !hasMaskedArea(strokes) || busy) return;
+    onSubmit(text, renderMask(strokes, size.width, size.height));
+  };
+
+  return (
+    <div className="bg-slate-800/30 border border-slate-700 rounded-2xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">{t('mask.heading')}</h3>
+        <button className={buttonClass} onClick={() => setOpen(prev => !prev)}>
+          {open ? t('mask.close') : t('mask.open')}
+        </button>
+      </div>
+
+      {open && (
+        <>
+          <p className="text-xs text-slate-500">{t('mask.hint')}</p>
+
+          <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+            <div className="flex bg-slate-900 border border-slate-700 rounded-lg p-0.5">
+              {(['brush', 'eraser'] as MaskTool[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setTool(option)}
+                  className={`px-2.5 py-1 rounded-md transition-colors ${tool === option ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                >
+                  {t(`mask.${option}`)}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-1">
+              {t('mask.size')}
+              <input
+                type="range"
+                min={1}
+                max={20}
+                value={brushSize}
+                onChange={(e) => setBrushSize(Number(e.target.value))}
+                className="w-20 accent-indigo-500"
+              />
+            </label>
+            <button className={buttonClass} onClick={() => setStrokes(prev => prev.slice(0, -1))} disabled={strokes.length === 0 || busy}>
+              {t('mask.undo')}
+            </button>
+            <button className={buttonClass} onClick={() => setStrokes([])} disabled={strokes.length === 0 || busy}>
+              {t('mask.clear')}
+            </button>
+            {beforeImage && (
+              <div className="flex bg-slate-900 border border-slate-700 rounded-lg p-0.5">
+                {[true, false].map(before => (
+                  <button
+                    key={String(before)}
+                    onClick={() => setShowBefore(before)}
+                    className={`px-2.5 py-1 rounded-md transition-colors ${showBefore === before ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                  >
+                    {before ? t('mask.before') : t('mask.after')}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-center bg-slate-900 rounded-lg p-2">
+            <div className="relative inline-block">
+              <img
+                src={showBefore && beforeImage ? beforeImage : image}
+                alt="Mask target"
+                onLoad={(e) => {
+                  if (showBefore) return;
+                  const img = e.currentTarget;
+                  setSize({ width: img.naturalWidth, height: img.naturalHeight });
+                }}
+                className="max-w-full max-h-[420px] object-contain select-none"
+                draggable={false}
+              />
+              {size && (
+                <canvas
+                  ref={canvasRef}
+                  width={size.width}
+                  height={size.height}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  className={`absolute inset-0 w-full h-full opacity-50 touch-none ${showBefore ? 'hidden' : 'cursor-crosshair'}`}
+                />
+              )}
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+              placeholder={t('mask.placeholder')}
+              disabled={busy}
+              className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+            />
+            <button
+              onClick={handleSubmit}
+              disabled={busy || !instruction.trim() || !hasMaskedArea(strokes)}
+              className="bg-indigo-600 hover:bg-indigo-500 text-white px-4 rounded-lg text-sm font-medium flex items-center disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {busy ? <Spinner /> : t('mask.submit')}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
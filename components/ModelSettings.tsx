@@ -0,0 +1,115 @@
+import React from 'react';
+import {
+  ASPECT_RATIOS,
+  DEFAULT_GENERATION_SETTINGS,
+  getModelSpec,
+  IMAGE_MODELS,
+  MAX_SEED,
+  TEMPERATURE_RANGE,
+} from '../services/modelSettings';
+import { GenerationSettings } from '../types';
+import { useI18n } from './I18nProvider';
+import { fieldClass } from './styles';
+
+interface ModelSettingsProps {
+  settings: GenerationSettings;
+  presetName: string;
+  onChange: (settings: GenerationSettings) => void;
+}
+
+// Empty inputs mean "use the model's default"
+const parseOptional = (value: string): number | null => value.trim() === '' ? null : Number(value);
+
+/**
+ * Model picker and sampling parameters. Parameters the selected model does
+ * not support stay visible but disabled, and are not sent.
+ */
+export const ModelSettings: React.FC<ModelSettingsProps> = ({ settings, presetName, onChange }) => {
+  const { t } = useI18n();
+  const spec = getModelSpec(settings.model) ?? IMAGE_MODELS[0];
+  const unsupported = t('settings.unsupported', { model: spec.label });
+
+  const update = (patch: Partial<GenerationSettings>) => onChange({ ...settings, ...patch });
+
+  const handleTemperature = (value: string) => {
+    const temperature = parseOptional(value);
+    if (temperature === null || (temperature >= TEMPERATURE_RANGE.min && temperature <= TEMPERATURE_RANGE.max)) {
+      update({ temperature });
+    }
+  };
+
+  const handleSeed = (value: string) => {
+    const seed = parseOptional(value);
+    if (seed === null || (Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED)) {
+      update({ seed });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-slate-400">
+        <label className="flex items-center gap-1">
+          {t('settings.model')}
+          <select value={spec.id} onChange={(e) => update({ model: e.target.value })} className={fieldClass}>
+            {IMAGE_MODELS.map(model => <option key={model.id} value={model.id}>{model.label}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1" title={spec.aspectRatio ? undefined : unsupported}>
+          {t('settings.aspectRatio')}
+          <select
+            value={settings.aspectRatio ?? ''}
+            onChange={(e) => update({ aspectRatio: e.target.value || null })}
+            disabled={!spec.aspectRatio}
+            className={fieldClass}
+          >
+            <option value="">{t('settings.modelDefault')}</option>
+            {ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1" title={spec.temperature ? undefined : unsupported}>
+          {t('settings.temperature')}
+          <input
+            type="number"
+            min={TEMPERATURE_RANGE.min}
+            max={TEMPERATURE_RANGE.max}
+            step={TEMPERATURE_RANGE.step}
+            value={settings.temperature ?? ''}
+            onChange={(e) => handleTemperature(e.target.value)}
+            placeholder={t('settings.modelDefault')}
+            disabled={!spec.temperature}
+            className={`${fieldClass} w-20`}
+          />
+        </label>
+        <label className="flex items-center gap-1" title={spec.seed ? undefined : unsupported}>
+          {t('settings.seed')}
+          <input
+            type="number"
+            min={0}
+            max={MAX_SEED}
+            step={1}
+            value={settings.seed ?? ''}
+            onChange={(e) => handleSeed(e.target.value)}
+            placeholder={t('settings.seedRandom')}
+            disabled={!spec.seed}
+            className={`${fieldClass} w-28`}
+          />
+          <button
+            onClick={() => update({ seed: Math.floor(Math.random() * MAX_SEED) })}
+            disabled={!spec.seed}
+            title={t('settings.rollSeed')}
+            className="px-1.5 py-1 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            🎲
+          </button>
+        </label>
+        <button
+          onClick={() => onChange(DEFAULT_GENERATION_SETTINGS)}
+          className="text-slate-400 hover:text-slate-200 underline-offset-2 hover:underline"
+        >
+          {t('settings.reset')}
+        </button>
+      </div>
+      <p className="text-[11px] text-slate-500">{t('settings.perPreset', { name: presetName })}</p>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { MAX_DIMENSION_OPTIONS, OUTPUT_TYPES, OutputType, PreprocessOptions } from '../services/imagePreprocess';
+import { useI18n } from './I18nProvider';
+import { fieldClass } from './styles';
+
+interface PreprocessSettingsProps {
+  options: PreprocessOptions;
+  onChange: (options: PreprocessOptions) => void;
+}
+
+// Format names stay untranslated; 'auto' comes from the catalog
+const OUTPUT_TYPE_LABELS: Record<Exclude<OutputType, 'auto'>, string> = {
+  'image/png': 'PNG',
+  'image/jpeg': 'JPEG',
+  'image/webp': 'WebP',
+};
+
+export const PreprocessSettings: React.FC<PreprocessSettingsProps> = ({ options, onChange }) => {
+  const { t } = useI18n();
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-slate-400">
+      <label className="flex items-center gap-1">
+        {t('preprocess.maxDimension')}
+        <select
+          value={options.maxDimension}
+          onChange={(e) => onChange({ ...options, maxDimension: Number(e.target.value) })}
+          className={fieldClass}
+        >
+          {MAX_DIMENSION_OPTIONS.map(size => <option key={size} value={size}>{size}px</option>)}
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        {t('preprocess.outputType')}
+        <select
+          value={options.outputType}
+          onChange={(e) => onChange({ ...options, outputType: e.target.value as OutputType })}
+          className={fieldClass}
+        >
+          {OUTPUT_TYPES.map(type => (
+            <option key={type} value={type}>{type === 'auto' ? t('preprocess.auto') : OUTPUT_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        <input
+          type="checkbox"
+          checked={options.cropOnUpload}
+          onChange={(e) => onChange({ ...options, cropOnUpload: e.target.checked })}
+        />
+        {t('preprocess.cropOnUpload')}
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useRef, useState } from 'react';
+import { StylePreset } from '../types';
+import { duplicatePreset, exportPresets, importPresets } from '../services/presetService';
+import { downloadBlob } from '../services/fileUtils';
+import { useI18n } from './I18nProvider';
+import { buttonClass, inputClass, primaryButtonClass } from './styles';
+
+interface PresetPanelProps {
+  presets: StylePreset[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onSave: (preset: StylePreset) => void;
+  onDelete: (id: string) => void;
+  onImport: (presets: StylePreset[]) => void;
+  onError: (message: string) => void;
+}
+
+export const PresetPanel: React.FC<PresetPanelProps> = ({ presets, selectedId, onSelect, onSave, onDelete, onImport, onError }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<StylePreset | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = presets.find(p => p.id === selectedId);
+  const userPresets = presets.filter(p => !p.builtIn);
+
+  const handleNew = () => {
+    if (!selected) return;
+    setDraft({ ...duplicatePreset(selected), name: t('presets.newName') });
+  };
+
+  const handleDuplicate = () => {
+    if (!selected) return;
+    const copy = duplicatePreset(selected);
+    onSave(copy);
+    onSelect(copy.id);
+  };
+
+  const handleDelete = () => {
+    if (!selected || selected.builtIn) return;
+    if (!window.confirm(t('presets.confirmDelete', { name: selected.name }))) return;
+    onDelete(selected.id);
+  };
+
+  const handleSaveDraft = () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      onError(t('presets.nameRequired'));
+      return;
+    }
+    onSave({ ...draft, name: draft.name.trim() });
+    onSelect(draft.id);
+    setDraft(null);
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([exportPresets(userPresets)], { type: 'application/json' }), 'chibify-presets.json');
+  };
+
+  const handleImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      try {
+        onImport(importPresets(reader.result as string));
+      } catch (err: any) {
+        onError(err.message);
+      }
+    };
+    reader.onerror = () => {
+      onError(t('presets.readFailed'));
+    };
+    reader.readAsText(file);
+  };
+
+  const updateDraft = (variant: 'single' | 'withStyle', field: 'prompt' | 'label', value: string) => {
+    setDraft(prev => prev && { ...prev, [variant]: { ...prev[variant], [field]: value } });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <label className="text-sm font-medium text-slate-300 shrink-0">{t('presets.label')}</label>
+        <select
+          value={selectedId}
+          onChange={(e) => onSelect(e.target.value)}
+          disabled={!!draft}
+          className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          <optgroup label={t('presets.builtIn')}>
+            {presets.filter(p => p.builtIn).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </optgroup>
+          {userPresets.length > 0 && (
+            <optgroup label={t('presets.mine')}>
+              {userPresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+      </div>
+
+      {!draft && (
+        <div className="flex flex-wrap gap-2">
+          <button className={buttonClass} onClick={handleNew}>{t('presets.new')}</button>
+          <button className={buttonClass} onClick={() => selected && setDraft(selected)} disabled={!selected || selected.builtIn}>{t('presets.edit')}</button>
+          <button className={buttonClass} onClick={handleDuplicate} disabled={!selected}>{t('presets.duplicate')}</button>
+          <button className={buttonClass} onClick={handleDelete} disabled={!selected || selected.builtIn}>{t('presets.delete')}</button>
+          <button className={buttonClass} onClick={() => importInputRef.current?.click()}>{t('presets.import')}</button>
+          <button className={buttonClass} onClick={handleExport} disabled={userPresets.length === 0}>{t('presets.export')}</button>
+          <input type="file" ref={importInputRef} onChange={handleImportFile} className="hidden" accept="application/json,.json" />
+        </div>
+      )}
+
+      {draft && (
+        <div className="space-y-3 border border-slate-700 rounded-lg p-3 bg-slate-900/40">
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className={inputClass}
+            placeholder={t('presets.namePlaceholder')}
+          />
+          <div className="space-y-1">
+            <p className="text-xs text-slate-400">{t('presets.singlePrompt')}</p>
+            <textarea
+              value={draft.single.prompt}
+              onChange={(e) => updateDraft('single', 'prompt', e.target.value)}
+              className={`${inputClass} h-28 resize-none font-mono`}
+            />
+            <input
+              value={draft.single.label}
+              onChange={(e) => updateDraft('single', 'label', e.target.value)}
+              className={inputClass}
+              placeholder={t('presets.labelPlaceholder')}
+            />
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs text-slate-400">{t('presets.withStylePrompt')}</p>
+            <textarea
+              value={draft.withStyle.prompt}
+              onChange={(e) => updateDraft('withStyle', 'prompt', e.target.value)}
+              className={`${inputClass} h-28 resize-none font-mono`}
+            />
+            <input
+              value={draft.withStyle.label}
+              onChange={(e) => updateDraft('withStyle', 'label', e.target.value)}
+              className={inputClass}
+              placeholder={t('presets.labelPlaceholder')}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button className={buttonClass} onClick={() => setDraft(null)}>{t('presets.cancel')}</button>
+            <button className={primaryButtonClass} onClick={handleSaveDraft}>{t('presets.save')}</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
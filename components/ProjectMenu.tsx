@@ -0,0 +1,36 @@
+import React, { useRef } from 'react';
+import { PROJECT_FILE_EXTENSION } from '../services/projectFile';
+import { useI18n } from './I18nProvider';
+import { buttonClass } from './styles';
+
+interface ProjectMenuProps {
+  canSave: boolean;
+  onSave: () => void;
+  onOpen: (file: File) => void;
+}
+
+/**
+ * Save and open buttons for project files, shown in the header.
+ */
+export const ProjectMenu: React.FC<ProjectMenuProps> = ({ canSave, onSave, onOpen }) => {
+  const { t } = useI18n();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) onOpen(file);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <button className={buttonClass} onClick={() => inputRef.current?.click()} title={t('project.openHint')}>
+        {t('project.open')}
+      </button>
+      <button className={buttonClass} onClick={onSave} disabled={!canSave} title={t('project.saveHint')}>
+        {t('project.save')}
+      </button>
+      <input type="file" ref={inputRef} onChange={handleChange} className="hidden" accept={`application/json,.json,${PROJECT_FILE_EXTENSION}`} />
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { extractTemplateVariables, getVariableLabel } from '../services/promptTemplate';
+import { AlertCircle } from './Icons';
+import { useI18n } from './I18nProvider';
+
+interface PromptEditorProps {
+  prompt: string;
+  hint: string;
+  isCustom: boolean;
+  values: Record<string, string>;
+  warnings: string[];
+  onChange: (prompt: string) => void;
+  onValuesChange: (values: Record<string, string>) => void;
+  onReset: () => void;
+}
+
+export const PromptEditor: React.FC<PromptEditorProps> = ({ prompt, hint, isCustom, values, warnings, onChange, onValuesChange, onReset }) => {
+  const { t } = useI18n();
+  const variables = extractTemplateVariables(prompt);
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm font-medium text-slate-300">
+            {t('prompt.label')}
+          </label>
+          <button
+            onClick={onReset}
+            disabled={!isCustom}
+            className="text-xs text-indigo-400 hover:text-indigo-300 disabled:text-slate-600 disabled:cursor-not-allowed"
+          >
+            {t('prompt.reset')}
+          </button>
+        </div>
+        <textarea
+          value={prompt}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-full h-40 bg-slate-900 border border-slate-700 rounded-lg p-3 text-xs text-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none resize-none font-mono"
+          placeholder={t('prompt.placeholder')}
+        />
+        <p className="text-xs text-slate-500 mt-2">
+          {isCustom ? t('prompt.customHint') : hint}
+        </p>
+      </div>
+
+      {variables.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {variables.map(variable => (
+            <div key={variable.name}>
+              <label className="block text-xs text-slate-400 mb-1">
+                {getVariableLabel(variable.name)}
+              </label>
+              <input
+                value={values[variable.name] || ''}
+                onChange={(e) => onValuesChange({ ...values, [variable.name]: e.target.value })}
+                placeholder={variable.defaultValue}
+                className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {warnings.length > 0 && (
+        <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg flex items-start gap-2 text-amber-400 text-xs">
+          <AlertCircle />
+          <ul className="space-y-1">
+            {warnings.map(warning => <li key={warning}>{warning}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
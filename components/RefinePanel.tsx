@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Revision } from '../types';
+import { Spinner } from './Spinner';
+import { useI18n } from './I18nProvider';
+import { buttonClass } from './styles';
+
+interface RefinePanelProps {
+  revisions: Revision[];
+  currentId: string;
+  busy: boolean;
+  onSelect: (id: string) => void;
+  onRefine: (instruction: string) => void;
+}
+
+const SUGGESTION_KEYS = ['refine.suggestion1', 'refine.suggestion2', 'refine.suggestion3'] as const;
+
+export const RefinePanel: React.FC<RefinePanelProps> = ({ revisions, currentId, busy, onSelect, onRefine }) => {
+  const { t } = useI18n();
+  const [instruction, setInstruction] = useState<string>('');
+
+  const current = revisions.find(r => r.id === currentId);
+  const parent = current?.parentId ? revisions.find(r => r.id === current.parentId) : undefined;
+  // "Forward" follows the most recently created branch
+  const latestChild = [...revisions].reverse().find(r => r.parentId === currentId);
+  const depthOf = (revision: Revision): number => {
+    let depth = 0;
+    let node: Revision | undefined = revision;
+    while (node?.parentId) {
+      node = revisions.find(r => r.id === node!.parentId);
+      depth++;
+    }
+    return depth;
+  };
+
+  const handleSubmit = () => {
+    const text = instruction.trim();
+    if (!text || busy) return;
+    onRefine(text);
+    setInstruction('');
+  };
+
+  return (
+    <div className="bg-slate-800/30 border border-slate-700 rounded-2xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">{t('refine.heading')}</h3>
+        <div className="flex gap-1.5">
+          <button className={buttonClass} onClick={() => parent && onSelect(parent.id)} disabled={!parent || busy}>{t('refine.previous')}</button>
+          <button className={buttonClass} onClick={() => latestChild && onSelect(latestChild.id)} disabled={!latestChild || busy}>{t('refine.next')}</button>
+        </div>
+      </div>
+
+      {revisions.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {revisions.map((revision, index) => (
+            <button
+              key={revision.id}
+              onClick={() => onSelect(revision.id)}
+              disabled={busy}
+              title={revision.instruction || t('refine.originalResult')}
+              className={`shrink-0 w-20 text-left rounded-lg overflow-hidden border-2 ${revision.id === currentId ? 'border-indigo-500' : 'border-slate-700 hover:border-slate-500'}`}
+            >
+              <img src={revision.imageUrl} alt={`v${index + 1}`} className="w-full aspect-square object-contain bg-slate-900" />
+              <p className="px-1 py-0.5 text-[10px] text-slate-400 truncate">
+                {'·'.repeat(depthOf(revision))}v{index + 1} {revision.instruction || t('refine.original')}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+          placeholder={t('refine.placeholder')}
+          disabled={busy}
+          className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+        />
+        <button
+          onClick={handleSubmit}
+          disabled={busy || !instruction.trim()}
+          className="bg-indigo-600 hover:bg-indigo-500 text-white px-4 rounded-lg text-sm font-medium flex items-center disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {busy ? <Spinner /> : t('refine.submit')}
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {SUGGESTION_KEYS.map(key => t(key)).map(text => (
+          <button key={text} onClick={() => setInstruction(text)} className="text-[11px] px-2 py-0.5 rounded-full bg-slate-800 text-slate-400 hover:text-slate-200">
+            {text}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500">{t('refine.branchHint')}</p>
+    </div>
+  );
+};
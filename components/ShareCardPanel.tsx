@@ -0,0 +1,135 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  CARD_LAYOUTS,
+  CardLayout,
+  CardOptions,
+  CardTheme,
+  canvasToPng,
+  DEFAULT_CARD_OPTIONS,
+  renderCompareCard,
+} from '../services/compareCard';
+import { downloadBlob } from '../services/fileUtils';
+import { DownloadIcon } from './Icons';
+import { useI18n } from './I18nProvider';
+import { buttonClass, fieldClass, labelClass, primaryButtonClass } from './styles';
+
+interface ShareCardPanelProps {
+  before: string;
+  after: string;
+  onError: (message: string) => void;
+}
+
+/**
+ * Builds a "before → after" card for posting. The preview is the exported
+ * canvas itself, so what you see is what gets downloaded.
+ */
+export const ShareCardPanel: React.FC<ShareCardPanelProps> = ({ before, after, onError }) => {
+  const { t, locale } = useI18n();
+  const [open, setOpen] = useState<boolean>(false);
+  const [options, setOptions] = useState<CardOptions>(DEFAULT_CARD_OPTIONS);
+  const [card, setCard] = useState<HTMLCanvasElement | null>(null);
+
+  // Re-rendered on language changes too, since the card's labels are translated
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    // Debounced so typing a caption does not redraw on every key
+    const timer = setTimeout(() => {
+      renderCompareCard(before, after, options)
+        .then(canvas => { if (!cancelled) setCard(canvas); })
+        .catch(err => onError(err.message || t('compare.renderFailed')));
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, before, after, options, locale]);
+
+  const previewUrl = useMemo(() => card?.toDataURL('image/png'), [card]);
+
+  const update = (patch: Partial<CardOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  const handleExport = async () => {
+    if (!card) return;
+    try {
+      downloadBlob(await canvasToPng(card), `chibi-compare-${options.layout}.png`);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/30 border border-slate-700 rounded-2xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">{t('compare.cardHeading')}</h3>
+        <button className={buttonClass} onClick={() => setOpen(prev => !prev)}>
+          {open ? t('compare.close') : t('compare.open')}
+        </button>
+      </div>
+
+      {open && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={options.layout}
+              onChange={(e) => update({ layout: e.target.value as CardLayout })}
+              aria-label={t('compare.layout')}
+              className={fieldClass}
+            >
+              {(Object.keys(CARD_LAYOUTS) as CardLayout[]).map(layout => (
+                <option key={layout} value={layout}>
+                  {t(`compare.layout.${layout}`)} ({CARD_LAYOUTS[layout].width}×{CARD_LAYOUTS[layout].height})
+                </option>
+              ))}
+            </select>
+            <select
+              value={options.theme}
+              onChange={(e) => update({ theme: e.target.value as CardTheme })}
+              aria-label={t('compare.theme')}
+              className={fieldClass}
+            >
+              {(['dark', 'light'] as CardTheme[]).map(theme => (
+                <option key={theme} value={theme}>{t(`compare.theme.${theme}`)}</option>
+              ))}
+            </select>
+          </div>
+
+          <input
+            value={options.caption}
+            onChange={(e) => update({ caption: e.target.value })}
+            placeholder={t('compare.captionPlaceholder')}
+            maxLength={120}
+            className={`${fieldClass} w-full`}
+          />
+
+          <div className="flex items-center gap-2">
+            <label className={labelClass}>
+              <input type="checkbox" checked={options.watermark} onChange={(e) => update({ watermark: e.target.checked })} />
+              {t('compare.watermark')}
+            </label>
+            <input
+              value={options.watermarkText}
+              onChange={(e) => update({ watermarkText: e.target.value })}
+              disabled={!options.watermark}
+              maxLength={60}
+              className={`${fieldClass} flex-1 disabled:opacity-40`}
+            />
+          </div>
+
+          <div className="bg-slate-900 rounded-lg p-2 flex justify-center">
+            {previewUrl && <img src={previewUrl} alt={t('compare.cardHeading')} className="max-w-full max-h-[360px] object-contain" />}
+          </div>
+
+          <button
+            onClick={handleExport}
+            disabled={!card}
+            className={`${primaryButtonClass} flex items-center gap-1`}
+          >
+            <DownloadIcon />
+            {t('compare.export')}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,174 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  DEFAULT_STICKER_OPTIONS,
+  EXPORT_PRESETS,
+  exportSticker,
+  processSticker,
+  StickerOptions,
+} from '../services/stickerProcessor';
+import { baseName, downloadBlob, formatBytes } from '../services/fileUtils';
+import { DownloadIcon } from './Icons';
+import { useI18n } from './I18nProvider';
+import { labelClass, primaryButtonClass } from './styles';
+
+interface StickerStudioProps {
+  image: string;
+  fileName: string;
+  onError: (message: string) => void;
+}
+
+type PreviewBackground = 'checker' | 'dark' | 'light';
+
+const PREVIEW_STYLES: Record<PreviewBackground, React.CSSProperties> = {
+  checker: {
+    backgroundColor: '#ffffff',
+    backgroundImage: 'conic-gradient(#cbd5e1 25%, transparent 0 50%, #cbd5e1 0 75%, transparent 0)',
+    backgroundSize: '16px 16px',
+  },
+  dark: { backgroundColor: '#0b141a' },
+  light: { backgroundColor: '#f1f5f9' },
+};
+
+export const StickerStudio: React.FC<StickerStudioProps> = ({ image, fileName, onError }) => {
+  const { t } = useI18n();
+  const [options, setOptions] = useState<StickerOptions>(DEFAULT_STICKER_OPTIONS);
+  const [sticker, setSticker] = useState<HTMLCanvasElement | null>(null);
+  const [background, setBackground] = useState<PreviewBackground>('checker');
+  const [presetId, setPresetId] = useState<string>(EXPORT_PRESETS[0].id);
+  const [lastExport, setLastExport] = useState<{ size: number; withinBudget: boolean } | null>(null);
+  const [exporting, setExporting] = useState<boolean>(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Debounce slider drags; processing a full-size image takes a moment
+    const timer = setTimeout(() => {
+      processSticker(image, options)
+        .then(canvas => { if (!cancelled) setSticker(canvas); })
+        .catch(err => onError(err.message || t('sticker.processFailed')));
+    }, 150);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [image, options]);
+
+  const update = (patch: Partial<StickerOptions>) => {
+    setOptions(prev => ({ ...prev, ...patch }));
+    setLastExport(null);
+  };
+
+  const preset = EXPORT_PRESETS.find(p => p.id === presetId)!;
+  const previewUrl = useMemo(() => sticker?.toDataURL('image/png'), [sticker]);
+
+  const handleExport = async () => {
+    if (!sticker) return;
+    setExporting(true);
+    try {
+      const result = await exportSticker(sticker, preset);
+      const extension = preset.format === 'image/webp' ? 'webp' : 'png';
+      downloadBlob(result.blob, `${baseName(fileName)}-${preset.id}.${extension}`);
+      setLastExport({ size: result.blob.size, withinBudget: result.withinBudget });
+    } catch (err: any) {
+      onError(err.message);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/30 border border-slate-700 rounded-2xl p-4 space-y-4">
+      <h3 className="text-lg font-semibold">{t('sticker.heading')}</h3>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-3">
+          <label className={labelClass}>
+            <input type="checkbox" checked={options.removeBackground} onChange={(e) => update({ removeBackground: e.target.checked })} />
+            {t('sticker.removeBackground')}
+          </label>
+          <label className={labelClass}>
+            {t('sticker.tolerance')}
+            <input
+              type="range" min={1} max={40} value={options.tolerance}
+              disabled={!options.removeBackground}
+              onChange={(e) => update({ tolerance: Number(e.target.value) })}
+              className="flex-1"
+            />
+          </label>
+          <label className={labelClass}>
+            <input type="checkbox" checked={options.outline} onChange={(e) => update({ outline: e.target.checked })} />
+            {t('sticker.outline')}
+            <input
+              type="color" value={options.outlineColor}
+              disabled={!options.outline}
+              onChange={(e) => update({ outlineColor: e.target.value })}
+              className="w-6 h-6 bg-transparent"
+            />
+            <input
+              type="range" min={0.5} max={6} step={0.5} value={options.outlineWidth}
+              disabled={!options.outline}
+              onChange={(e) => update({ outlineWidth: Number(e.target.value) })}
+              className="flex-1"
+            />
+          </label>
+          <label className={labelClass}>
+            <input type="checkbox" checked={options.trim} onChange={(e) => update({ trim: e.target.checked })} />
+            {t('sticker.trim')}
+          </label>
+          <label className={labelClass}>
+            {t('sticker.padding')}
+            <input
+              type="range" min={0} max={15} value={options.padding}
+              onChange={(e) => update({ padding: Number(e.target.value) })}
+              className="flex-1"
+            />
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex gap-1">
+            {(Object.keys(PREVIEW_STYLES) as PreviewBackground[]).map(bg => (
+              <button
+                key={bg}
+                onClick={() => setBackground(bg)}
+                className={`px-2 py-1 rounded text-xs ${background === bg ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-slate-300'}`}
+              >
+                {t(`sticker.preview.${bg}`)}
+              </button>
+            ))}
+          </div>
+          <div className="aspect-square rounded-lg overflow-hidden flex items-center justify-center" style={PREVIEW_STYLES[background]}>
+            {previewUrl && <img src={previewUrl} alt="Sticker preview" className="max-w-full max-h-full object-contain" />}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={presetId}
+          onChange={(e) => {
+            setPresetId(e.target.value);
+            setLastExport(null);
+          }}
+          className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 outline-none"
+        >
+          {EXPORT_PRESETS.map(p => <option key={p.id} value={p.id}>{t(p.labelKey)}</option>)}
+        </select>
+        <button
+          onClick={handleExport}
+          disabled={!sticker || exporting}
+          className={`${primaryButtonClass} flex items-center gap-1`}
+        >
+          <DownloadIcon />
+          {t('sticker.export')}
+        </button>
+      </div>
+
+      {lastExport && (
+        <p className={`text-xs ${lastExport.withinBudget ? 'text-emerald-400' : 'text-amber-400'}`}>
+          {t('sticker.fileSize', { size: formatBytes(lastExport.size) })}
+          {preset.maxBytes && t(lastExport.withinBudget ? 'sticker.withinBudget' : 'sticker.overBudget', { limit: formatBytes(preset.maxBytes) })}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useRef } from 'react';
+import { MAX_STYLE_REFERENCES, MAX_STYLE_WEIGHT, MIN_STYLE_WEIGHT, STYLE_ROLES } from '../services/styleReferences';
+import { StyleReference, StyleRole } from '../types';
+import { UploadIcon } from './Icons';
+import { ImageDropZone } from './ImageDropZone';
+import { useI18n } from './I18nProvider';
+
+interface StyleReferencePanelProps {
+  references: StyleReference[];
+  onFile: (file: File) => void;
+  onUrl: (url: string) => void;
+  onUpdate: (id: string, patch: Partial<StyleReference>) => void;
+  onRemove: (id: string) => void;
+}
+
+/**
+ * Upload card for up to MAX_STYLE_REFERENCES style images, each with the role
+ * it plays and how strongly it should be followed. References are numbered in
+ * the order they are sent to the model.
+ */
+export const StyleReferencePanel: React.FC<StyleReferencePanelProps> = ({ references, onFile, onUrl, onUpdate, onRemove }) => {
+  const { t } = useI18n();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const canAdd = references.length < MAX_STYLE_REFERENCES;
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onFile(file);
+    // Allow adding the same file twice, e.g. once for line work and once for coloring
+    event.target.value = '';
+  };
+
+  return (
+    <ImageDropZone
+      className={`relative group border-2 border-dashed rounded-2xl p-4 transition-all duration-300 ease-in-out h-64 flex flex-col
+        ${references.length > 0
+          ? 'border-indigo-500/50 bg-slate-800/50'
+          : 'border-slate-700 hover:border-indigo-400 hover:bg-slate-800/30 cursor-pointer items-center justify-center'
+        }`}
+      onClick={() => references.length === 0 && inputRef.current?.click()}
+      onFile={onFile}
+      onUrl={onUrl}
+      disabled={!canAdd}
+    >
+      <input
+        type="file"
+        ref={inputRef}
+        onChange={handleChange}
+        className="hidden"
+        accept="image/*"
+      />
+
+      {references.length > 0 ? (
+        <>
+          <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+            {references.map((reference, index) => (
+              <div key={reference.id} className="flex gap-2 bg-slate-900/60 rounded-lg p-1.5">
+                <div className="relative w-14 h-14 shrink-0 rounded overflow-hidden bg-slate-900">
+                  <img src={reference.image} alt={`Style ${index + 1}`} className="w-full h-full object-cover" />
+                  <span className="absolute top-0 left-0 bg-indigo-600/90 text-white text-[10px] px-1 rounded-br">{index + 1}</span>
+                </div>
+                <div className="flex-1 min-w-0 space-y-1 text-xs text-slate-400">
+                  <div className="flex items-center gap-1">
+                    <select
+                      value={reference.role}
+                      onChange={(e) => onUpdate(reference.id, { role: e.target.value as StyleRole })}
+                      aria-label={t('styleRef.role')}
+                      className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-200 outline-none"
+                    >
+                      {STYLE_ROLES.map(role => <option key={role} value={role}>{t(`styleRef.role.${role}`)}</option>)}
+                    </select>
+                    <button
+                      onClick={() => onRemove(reference.id)}
+                      title={t('styleRef.remove')}
+                      className="shrink-0 bg-slate-800 hover:bg-red-500/90 text-white p-1 rounded-full transition-colors"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+                    </button>
+                  </div>
+                  <label className="flex items-center gap-1">
+                    {t('styleRef.weight')}
+                    <input
+                      type="range"
+                      min={MIN_STYLE_WEIGHT}
+                      max={MAX_STYLE_WEIGHT}
+                      step={10}
+                      value={reference.weight}
+                      onChange={(e) => onUpdate(reference.id, { weight: Number(e.target.value) })}
+                      className="flex-1 min-w-0 accent-indigo-500"
+                    />
+                    <span className="w-8 text-right">{reference.weight}%</span>
+                  </label>
+                </div>
+              </div>
+            ))}
+          </div>
+          {canAdd && (
+            <button
+              onClick={() => inputRef.current?.click()}
+              className="mt-2 w-full py-1.5 rounded-md text-xs font-medium bg-slate-700 hover:bg-slate-600 text-slate-200 transition-colors"
+            >
+              {t('styleRef.add', { count: references.length, max: MAX_STYLE_REFERENCES })}
+            </button>
+          )}
+        </>
+      ) : (
+        <div className="flex flex-col items-center justify-center text-slate-400 text-center">
+          <div className="p-3 bg-slate-800 rounded-full mb-3 group-hover:bg-indigo-600/20 group-hover:text-indigo-400 transition-colors">
+            <UploadIcon />
+          </div>
+          <p className="font-medium text-sm mb-1">{t('upload.styleTitle')}</p>
+          <p className="text-xs text-slate-500">{t('upload.styleHint')}<br/>{t('upload.optional')}</p>
+        </div>
+      )}
+    </ImageDropZone>
+  );
+};
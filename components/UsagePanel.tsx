@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react';
+import {
+  clearUsageLog,
+  getBudgetStatus,
+  loadBudget,
+  loadUsageLog,
+  periodKey,
+  saveBudget,
+  subscribeUsage,
+  summarizeUsage,
+  UsageGroup,
+  UsageTotals,
+  usageByDay,
+  usageByPreset,
+} from '../services/usageService';
+import { BudgetPeriod, UsageBudget, UsageRecord } from '../types';
+import { AlertCircle } from './Icons';
+import { useI18n } from './I18nProvider';
+import { buttonClass, fieldClass } from './styles';
+
+// Days listed in the per-day table
+const DAYS_SHOWN = 14;
+
+const formatUsd = (value: number) => `$${value.toFixed(value > 0 && value < 1 ? 3 : 2)}`;
+
+// Log and budget kept in sync with every recorded request
+const useUsage = () => {
+  const [records, setRecords] = useState<UsageRecord[]>(loadUsageLog);
+  const [budget, setBudget] = useState<UsageBudget>(loadBudget);
+
+  useEffect(() => subscribeUsage(() => {
+    setRecords(loadUsageLog());
+    setBudget(loadBudget());
+  }), []);
+
+  return { records, budget, status: getBudgetStatus(records, budget) };
+};
+
+/**
+ * Banner next to the generate button once the budget for the current period
+ * is used up.
+ */
+export const BudgetNotice: React.FC = () => {
+  const { t } = useI18n();
+  const { status } = useUsage();
+  if (!status?.exceeded) return null;
+
+  const blocked = status.budget.action === 'block';
+  const values = {
+    spent: formatUsd(status.spentUsd),
+    limit: formatUsd(status.limitUsd),
+    period: t(`usage.periodShort.${status.budget.period}`),
+  };
+  return (
+    <div className={`p-3 rounded-lg flex items-start gap-2 text-sm border ${blocked
+      ? 'bg-red-500/10 border-red-500/20 text-red-400'
+      : 'bg-amber-500/10 border-amber-500/20 text-amber-300'}`}
+    >
+      <AlertCircle />
+      <span>{blocked ? t('usage.budgetBlocked', values) : t('usage.budgetWarn', values)}</span>
+    </div>
+  );
+};
+
+/**
+ * Usage dashboard: totals for today, this month and overall, breakdowns per
+ * day and per preset, and the soft budget settings.
+ */
+export const UsagePanel: React.FC = () => {
+  const { t, locale } = useI18n();
+  const { records, budget, status } = useUsage();
+  const [limitText, setLimitText] = useState<string>(budget.limitUsd === null ? '' : String(budget.limitUsd));
+
+  const now = Date.now();
+  const inPeriod = (period: BudgetPeriod) => records.filter(r => periodKey(r.createdAt, period) === periodKey(now, period));
+  const cards: { label: string; totals: UsageTotals }[] = [
+    { label: t('usage.today'), totals: summarizeUsage(inPeriod('day')) },
+    { label: t('usage.month'), totals: summarizeUsage(inPeriod('month')) },
+    { label: t('usage.allTime'), totals: summarizeUsage(records) },
+  ];
+  const formatTokens = (value: number) => value.toLocaleString(locale);
+
+  const updateBudget = (patch: Partial<UsageBudget>) => saveBudget({ ...budget, ...patch });
+
+  const handleLimitChange = (text: string) => {
+    setLimitText(text);
+    const value = Number(text);
+    if (!text.trim()) updateBudget({ limitUsd: null });
+    else if (Number.isFinite(value) && value >= 0) updateBudget({ limitUsd: value });
+  };
+
+  const handleClear = () => {
+    if (!window.confirm(t('usage.confirmClear'))) return;
+    clearUsageLog();
+  };
+
+  const renderTable = (groups: UsageGroup[], firstColumn: string) => (
+    <table className="w-full text-xs text-slate-300">
+      <thead className="text-slate-500">
+        <tr className="text-left">
+          <th className="py-1 font-medium">{firstColumn}</th>
+          <th className="py-1 font-medium text-right">{t('usage.col.requests')}</th>
+          <th className="py-1 font-medium text-right">{t('usage.col.failed')}</th>
+          <th className="py-1 font-medium text-right">{t('usage.col.cancelled')}</th>
+          <th className="py-1 font-medium text-right">{t('usage.col.tokens')}</th>
+          <th className="py-1 font-medium text-right">{t('usage.col.latency')}</th>
+          <th className="py-1 font-medium text-right">{t('usage.col.cost')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {groups.map(group => (
+          <tr key={group.key} className="border-t border-slate-800">
+            <td className="py-1 truncate max-w-[10rem]">{group.label || t('usage.noPreset')}</td>
+            <td className="py-1 text-right">{group.totals.requests}</td>
+            <td className="py-1 text-right">{group.totals.failures}</td>
+            <td className="py-1 text-right">{group.totals.cancelled}</td>
+            <td className="py-1 text-right">{formatTokens(group.totals.totalTokens)}</td>
+            <td className="py-1 text-right">{(group.totals.latencyMs / group.totals.requests / 1000).toFixed(1)}s</td>
+            <td className="py-1 text-right">{formatUsd(group.totals.costUsd)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <section className="mt-12 space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="space-y-1">
+          <h2 className="text-2xl font-semibold">{t('usage.heading')}</h2>
+          <p className="text-xs text-slate-500">{t('usage.hint')}</p>
+        </div>
+        <button className={buttonClass} onClick={handleClear} disabled={records.length === 0}>
+          {t('usage.clear')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {cards.map(card => (
+          <div key={card.label} className="bg-slate-800/50 border border-slate-700 rounded-xl p-4 space-y-1">
+            <p className="text-xs text-slate-400">{card.label}</p>
+            <p className="text-2xl font-semibold">{formatUsd(card.totals.costUsd)}</p>
+            <p className="text-xs text-slate-500">
+              {t('usage.requests', { count: card.totals.requests })}
+              {card.totals.failures > 0 && ` · ${t('usage.failures', { count: card.totals.failures })}`}
+              {card.totals.cancelled > 0 && ` · ${t('usage.cancelled', { count: card.totals.cancelled })}`}
+              {` · ${t('usage.tokens', { count: formatTokens(card.totals.totalTokens) })}`}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+          <label className="flex items-center gap-2">
+            {t('usage.budget')}
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={limitText}
+              onChange={(e) => handleLimitChange(e.target.value)}
+              placeholder={t('usage.budgetPlaceholder')}
+              className={`${fieldClass} w-24`}
+            />
+          </label>
+          <select
+            value={budget.period}
+            onChange={(e) => updateBudget({ period: e.target.value as BudgetPeriod })}
+            className={fieldClass}
+          >
+            {(['day', 'month'] as BudgetPeriod[]).map(period => (
+              <option key={period} value={period}>{t(`usage.period.${period}`)}</option>
+            ))}
+          </select>
+          <select
+            value={budget.action}
+            onChange={(e) => updateBudget({ action: e.target.value as UsageBudget['action'] })}
+            className={fieldClass}
+          >
+            {(['warn', 'block'] as UsageBudget['action'][]).map(action => (
+              <option key={action} value={action}>{t(`usage.action.${action}`)}</option>
+            ))}
+          </select>
+          {status && (
+            <span className={status.exceeded ? 'text-red-400' : ''}>
+              {t('usage.budgetSpent', { spent: formatUsd(status.spentUsd), limit: formatUsd(status.limitUsd) })}
+            </span>
+          )}
+        </div>
+        {status && status.limitUsd > 0 && (
+          <div className="h-1.5 bg-slate-900 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${status.exceeded ? 'bg-red-500' : 'bg-indigo-500'}`}
+              style={{ width: `${Math.min(100, (status.spentUsd / status.limitUsd) * 100)}%` }}
+            />
+          </div>
+        )}
+      </div>
+
+      {records.length === 0 ? (
+        <p className="text-sm text-slate-500">{t('usage.empty')}</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <div className="bg-slate-800/30 border border-slate-700 rounded-xl p-4 space-y-2">
+            <h3 className="text-sm font-semibold text-slate-300">{t('usage.byDay')}</h3>
+            {renderTable(usageByDay(records).slice(0, DAYS_SHOWN), t('usage.col.date'))}
+          </div>
+          <div className="bg-slate-800/30 border border-slate-700 rounded-xl p-4 space-y-2">
+            <h3 className="text-sm font-semibold text-slate-300">{t('usage.byPreset')}</h3>
+            {renderTable(usageByPreset(records), t('usage.col.preset'))}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
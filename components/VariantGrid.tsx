@@ -0,0 +1,68 @@
+import React from 'react';
+import { AppStatus, VariantSlot } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface VariantGridProps {
+  slots: VariantSlot[];
+  winnerId: string | null;
+  busy: boolean;
+  onSelect: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRegenerateRejected: () => void;
+}
+
+export const VariantGrid: React.FC<VariantGridProps> = ({ slots, winnerId, busy, onSelect, onRetry, onRegenerateRejected }) => {
+  const { t } = useI18n();
+  const rejectedCount = slots.filter(slot => slot.id !== winnerId).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-slate-400">{t('variants.hint')}</p>
+        <button
+          onClick={onRegenerateRejected}
+          disabled={busy || rejectedCount === 0}
+          className="px-2.5 py-1.5 rounded-md text-xs font-medium bg-slate-700 hover:bg-slate-600 text-slate-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {t('variants.regenerateRejected', { count: rejectedCount })}
+        </button>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {slots.map((slot, index) => (
+          <div
+            key={slot.id}
+            onClick={() => slot.imageUrl && onSelect(slot.id)}
+            className={`relative aspect-square rounded-lg overflow-hidden border-2 bg-slate-900 flex items-center justify-center
+              ${slot.id === winnerId ? 'border-indigo-500' : 'border-slate-700'}
+              ${slot.imageUrl ? 'cursor-pointer hover:border-indigo-400' : ''}`}
+          >
+            {slot.status === AppStatus.GENERATING && (
+              <div className="w-8 h-8 border-4 border-indigo-500/30 border-t-indigo-500 rounded-full animate-spin"></div>
+            )}
+            {slot.status === AppStatus.SUCCESS && slot.imageUrl && (
+              <img src={slot.imageUrl} alt={t('variants.candidate', { index: index + 1 })} className="w-full h-full object-contain" />
+            )}
+            {slot.status === AppStatus.ERROR && (
+              <div className="p-2 text-center space-y-2">
+                <p className="text-[11px] text-red-400 line-clamp-4" title={slot.error}>{slot.error}</p>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onRetry(slot.id);
+                  }}
+                  disabled={busy}
+                  className="px-2 py-1 rounded text-[11px] bg-slate-700 hover:bg-slate-600 text-slate-200 disabled:opacity-40"
+                >
+                  {t('variants.retry')}
+                </button>
+              </div>
+            )}
+            <span className="absolute top-1 left-1 text-[10px] px-1.5 py-0.5 rounded bg-slate-900/80 text-slate-300">
+              {slot.id === winnerId ? t('variants.selected') : `#${index + 1}`}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
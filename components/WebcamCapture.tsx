@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { captureVideoFrame, describeCameraError } from '../services/imageSources';
+import { Spinner } from './Spinner';
+import { useI18n } from './I18nProvider';
+import { buttonClass, primaryButtonClass } from './styles';
+
+interface WebcamCaptureProps {
+  onCapture: (file: File) => void;
+  onCancel: () => void;
+}
+
+export const WebcamCapture: React.FC<WebcamCaptureProps> = ({ onCapture, onCancel }) => {
+  const { t } = useI18n();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [ready, setReady] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      // Only available on https or localhost
+      setError(t('webcam.unsupported'));
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'user' }, audio: false })
+      .then(media => {
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = media;
+        if (videoRef.current) videoRef.current.srcObject = media;
+      })
+      .catch(err => setError(describeCameraError(err)));
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const handleCapture = async () => {
+    if (!videoRef.current) return;
+    try {
+      onCapture(await captureVideoFrame(videoRef.current));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl p-6 w-full max-w-2xl space-y-4">
+        <h3 className="text-lg font-semibold">{t('webcam.title')}</h3>
+
+        <div className="relative flex items-center justify-center bg-slate-950 rounded-lg overflow-hidden h-[420px]">
+          {error ? (
+            <p className="px-6 text-sm text-red-300 text-center">{error}</p>
+          ) : (
+            <>
+              {/* Mirrored like a mirror; the captured frame is not */}
+              <video
+                ref={videoRef}
+                autoPlay
+                playsInline
+                muted
+                onLoadedData={() => setReady(true)}
+                className="max-h-[420px] max-w-full object-contain -scale-x-100"
+              />
+              {!ready && (
+                <div className="absolute inset-0 flex items-center justify-center">
+                  <Spinner />
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button className={buttonClass} onClick={onCancel}>{t('webcam.cancel')}</button>
+          <button
+            className={primaryButtonClass}
+            onClick={handleCapture}
+            disabled={!ready || !!error}
+          >
+            {t('webcam.capture')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
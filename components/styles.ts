@@ -0,0 +1,13 @@
+// Tailwind class strings shared by the panels, so buttons and fields look the same everywhere
+
+export const buttonClass = "px-2.5 py-1.5 rounded-md text-xs font-medium bg-slate-700 hover:bg-slate-600 text-slate-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+export const primaryButtonClass = "px-2.5 py-1.5 rounded-md text-xs font-medium bg-indigo-600 hover:bg-indigo-500 text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+// Full-width text input
+export const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-xs text-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none";
+
+// Inline select or input next to other controls
+export const fieldClass = "bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-40 disabled:cursor-not-allowed";
+
+export const labelClass = "flex items-center gap-2 text-xs text-slate-400";
@@ -0,0 +1,27 @@
+import fs from "node:fs";
+import { geminiProvider } from "../services/geminiProvider";
+import { ImageProvider } from "../services/imageProvider";
+import { mockProvider } from "../services/mockProvider";
+
+/**
+ * Copies KEY=value lines into process.env without overriding variables that
+ * are already set, so the shell environment wins over the file.
+ */
+export const loadEnvFile = (file: string) => {
+  if (!fs.existsSync(file)) return;
+  for (const line of fs.readFileSync(file, "utf8").split(/\r?\n/)) {
+    const match = line.match(/^\s*([\w.]+)\s*=\s*(.*?)\s*$/);
+    if (!match || line.trim().startsWith("#")) continue;
+    const [, key, raw] = match;
+    if (process.env[key] === undefined) {
+      process.env[key] = raw.replace(/^(['"])(.*)\1$/, "$2");
+    }
+  }
+};
+
+/**
+ * "mock" stubs the upstream for offline runs; anything else talks to Gemini.
+ */
+export const resolveUpstreamProvider = (id: string | undefined = process.env.UPSTREAM_PROVIDER): ImageProvider => {
+  return id === "mock" ? mockProvider : geminiProvider;
+};
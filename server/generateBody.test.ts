@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { MAX_REFINEMENT_TURNS } from "../services/geminiService";
+import { DEFAULT_GENERATION_SETTINGS } from "../services/modelSettings";
+import { parseGenerateBody } from "./generateBody";
+import { HttpError } from "./http";
+
+const image = "data:image/png;base64,AAAA";
+const valid = { contentImage: image, prompt: "make it chibi" };
+
+const rejects = (body: unknown, key: string) => {
+  assert.throws(
+    () => parseGenerateBody(typeof body === "string" ? body : JSON.stringify(body)),
+    (error: unknown) => error instanceof HttpError && error.status === 400 && error.key === key,
+    key,
+  );
+};
+
+test("a minimal body gets defaults for everything optional", () => {
+  assert.deepEqual(parseGenerateBody(JSON.stringify({ ...valid, locale: "xx" })), {
+    ...valid,
+    styleReferences: [],
+    refinements: [],
+    locale: undefined,
+    characterReferences: [],
+    characterTraits: undefined,
+    settings: DEFAULT_GENERATION_SETTINGS,
+  });
+});
+
+test("malformed bodies are rejected with the part at fault", () => {
+  rejects("{", "server.invalidJson");
+  rejects([valid], "server.missingContent");
+  rejects({ ...valid, contentImage: "https://example.com/a.png" }, "server.missingContent");
+  rejects({ ...valid, styleReferences: [{ id: "s", image, role: "colour", weight: 50 }] }, "server.invalidStyle");
+  rejects({ ...valid, styleReferences: [{ id: "s", image, role: "overall", weight: 500 }] }, "server.invalidStyle");
+  rejects({ ...valid, prompt: "  " }, "server.invalidPrompt");
+  rejects({ ...valid, prompt: "x".repeat(20001) }, "server.invalidPrompt");
+  rejects({ ...valid, refinements: [{ resultImage: image, instruction: "" }] }, "server.invalidRefinements");
+  rejects({
+    ...valid,
+    refinements: Array.from({ length: MAX_REFINEMENT_TURNS + 1 }, () => ({ resultImage: image, instruction: "smaller" })),
+  }, "server.invalidRefinements");
+  rejects({ ...valid, characterReferences: ["not an image"] }, "server.invalidCharacterReferences");
+  rejects({ ...valid, characterTraits: "tall" }, "server.invalidCharacterTraits");
+  rejects({ ...valid, settings: { ...DEFAULT_GENERATION_SETTINGS, model: "unknown-model" } }, "server.invalidSettings");
+});
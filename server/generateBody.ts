@@ -0,0 +1,95 @@
+import {
+  GenerateRequestBody,
+  MAX_CHARACTER_REFERENCES,
+  MAX_REFINEMENT_TURNS,
+  RefinementTurn,
+} from "../services/geminiService";
+import { isCharacterTraits } from "../services/characterService";
+import { isRecord } from "../services/guards";
+import { isLocale } from "../services/i18n";
+import { DEFAULT_GENERATION_SETTINGS, isGenerationSettings } from "../services/modelSettings";
+import { isStyleRole, MAX_STYLE_REFERENCES, MAX_STYLE_WEIGHT, MIN_STYLE_WEIGHT } from "../services/styleReferences";
+import { CharacterTraits, StyleReference } from "../types";
+import { HttpError } from "./http";
+
+const MAX_PROMPT_LENGTH = 20000;
+const MAX_INSTRUCTION_LENGTH = 2000;
+
+const isImageDataUrl = (value: unknown): value is string => {
+  return typeof value === "string" && value.startsWith("data:image/");
+};
+
+const isStyleReference = (value: unknown): value is StyleReference => {
+  return isRecord(value)
+    && typeof value.id === "string"
+    && isImageDataUrl(value.image)
+    && isStyleRole(value.role)
+    && typeof value.weight === "number"
+    && value.weight >= MIN_STYLE_WEIGHT
+    && value.weight <= MAX_STYLE_WEIGHT;
+};
+
+const isRefinementTurn = (value: unknown): value is RefinementTurn => {
+  return isRecord(value)
+    && isImageDataUrl(value.resultImage)
+    && typeof value.instruction === "string"
+    && value.instruction.trim().length > 0
+    && value.instruction.length <= MAX_INSTRUCTION_LENGTH
+    && (value.mask == null || isImageDataUrl(value.mask));
+};
+
+/**
+ * Checks a generate request from the browser. Anything malformed is a 400
+ * naming the offending part, before the upstream is called.
+ */
+export const parseGenerateBody = (raw: string): GenerateRequestBody => {
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, "server.invalidJson");
+  }
+  if (!isRecord(body) || !isImageDataUrl(body.contentImage)) {
+    throw new HttpError(400, "server.missingContent");
+  }
+  const styleReferences = body.styleReferences ?? [];
+  if (!Array.isArray(styleReferences) || styleReferences.length > MAX_STYLE_REFERENCES || !styleReferences.every(isStyleReference)) {
+    throw new HttpError(400, "server.invalidStyle");
+  }
+  if (typeof body.prompt !== "string" || !body.prompt.trim() || body.prompt.length > MAX_PROMPT_LENGTH) {
+    throw new HttpError(400, "server.invalidPrompt");
+  }
+
+  const refinements = body.refinements ?? [];
+  if (!Array.isArray(refinements) || refinements.length > MAX_REFINEMENT_TURNS || !refinements.every(isRefinementTurn)) {
+    throw new HttpError(400, "server.invalidRefinements");
+  }
+
+  const characterReferences = body.characterReferences ?? [];
+  if (!Array.isArray(characterReferences) || characterReferences.length > MAX_CHARACTER_REFERENCES
+    || !characterReferences.every(isImageDataUrl)) {
+    throw new HttpError(400, "server.invalidCharacterReferences");
+  }
+
+  let characterTraits: CharacterTraits | undefined;
+  if (body.characterTraits !== undefined) {
+    if (!isCharacterTraits(body.characterTraits)) throw new HttpError(400, "server.invalidCharacterTraits");
+    characterTraits = body.characterTraits;
+  }
+
+  const settings = body.settings ?? DEFAULT_GENERATION_SETTINGS;
+  if (!isGenerationSettings(settings)) {
+    throw new HttpError(400, "server.invalidSettings");
+  }
+
+  return {
+    contentImage: body.contentImage,
+    styleReferences,
+    prompt: body.prompt,
+    refinements,
+    locale: isLocale(body.locale) ? body.locale : undefined,
+    characterReferences,
+    characterTraits,
+    settings,
+  };
+};
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import { PassThrough, Readable } from "node:stream";
+import { test } from "node:test";
+import { HttpError, readBody, requestPath, serveStatic } from "./http";
+
+const request = (chunks: string[], headers: http.IncomingHttpHeaders = {}) => {
+  return Object.assign(Readable.from(chunks.map(chunk => Buffer.from(chunk))), { headers }) as unknown as http.IncomingMessage;
+};
+
+const rejectsWith = (status: number) => (error: unknown) => error instanceof HttpError && error.status === status;
+
+test("readBody returns bodies within the limit", async () => {
+  assert.equal(await readBody(request(["{\"a\":", "1}"]), 10), "{\"a\":1}");
+});
+
+test("readBody answers 413 for a declared or streamed body over the limit", async () => {
+  await assert.rejects(readBody(request([], { "content-length": "11" }), 10), rejectsWith(413));
+  await assert.rejects(readBody(request(["123456", "789012", "345"]), 10), rejectsWith(413));
+});
+
+test("requestPath ignores the query string and rejects malformed escapes", () => {
+  assert.equal(requestPath({ url: "/api/generate?x=1" } as http.IncomingMessage), "/api/generate");
+  assert.throws(() => requestPath({ url: "/%E0%A4" } as http.IncomingMessage), rejectsWith(400));
+});
+
+test("serveStatic only serves files inside the static directory", async () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "chibify-static-"));
+  try {
+    const dist = path.join(root, "dist");
+    fs.mkdirSync(dist);
+    fs.writeFileSync(path.join(dist, "index.html"), "<p>app</p>");
+    fs.mkdirSync(path.join(root, "dist-other"));
+    fs.writeFileSync(path.join(root, "dist-other", "secret.txt"), "secret");
+
+    for (const url of ["/..%2Fdist-other%2Fsecret.txt", "/..%2F..%2Fetc%2Fpasswd", "/..%2F"]) {
+      assert.throws(() => serveStatic({ url } as http.IncomingMessage, {} as http.ServerResponse, dist), rejectsWith(403), url);
+    }
+
+    const res = Object.assign(new PassThrough(), { writeHead: () => res });
+    serveStatic({ url: "/some/route" } as http.IncomingMessage, res as unknown as http.ServerResponse, dist);
+    let body = "";
+    for await (const chunk of res) body += chunk;
+    assert.equal(body, "<p>app</p>");
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
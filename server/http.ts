@@ -0,0 +1,76 @@
+import fs from "node:fs";
+import http from "node:http";
+import path from "node:path";
+import { MessageKey } from "../services/i18n";
+
+// Carries a message key; the text is translated per request when the response is sent
+export class HttpError extends Error {
+  constructor(public status: number, public key: MessageKey) {
+    super(key);
+  }
+}
+
+export const sendJson = (res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8", ...headers });
+  res.end(JSON.stringify(body));
+};
+
+export const readBody = (req: http.IncomingMessage, maxBytes: number): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const declared = Number(req.headers["content-length"]);
+    if (declared > maxBytes) {
+      reject(new HttpError(413, "server.bodyTooLarge"));
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let received = 0;
+    // Past the limit the rest is read and dropped, so the 413 reaches the
+    // client instead of a connection reset it would retry
+    req.on("data", (chunk: Buffer) => {
+      if (received > maxBytes) return;
+      received += chunk.length;
+      if (received > maxBytes) {
+        chunks.length = 0;
+        reject(new HttpError(413, "server.bodyTooLarge"));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+};
+
+// The decoded path without the query string, which routing ignores
+export const requestPath = (req: http.IncomingMessage): string => {
+  try {
+    return decodeURIComponent(new URL(req.url || "/", "http://localhost").pathname);
+  } catch {
+    throw new HttpError(400, "server.invalidPath");
+  }
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript",
+  ".css": "text/css",
+  ".json": "application/json",
+  ".png": "image/png",
+  ".svg": "image/svg+xml",
+};
+
+// Serves a production build when one exists so a single process can host the app
+export const serveStatic = (req: http.IncomingMessage, res: http.ServerResponse, staticDir: string) => {
+  let file = path.join(staticDir, requestPath(req));
+  // A plain prefix check would also let through siblings such as dist-other/
+  const relative = path.relative(staticDir, file);
+  if (relative === ".." || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) throw new HttpError(403, "server.forbidden");
+  if (!fs.existsSync(file) || fs.statSync(file).isDirectory()) {
+    file = path.join(staticDir, "index.html");
+  }
+  if (!fs.existsSync(file)) throw new HttpError(404, "server.notFound");
+
+  res.writeHead(200, { "Content-Type": CONTENT_TYPES[path.extname(file)] || "application/octet-stream" });
+  fs.createReadStream(file).pipe(res);
+};
@@ -0,0 +1,105 @@
+import http from "node:http";
+import path from "node:path";
+import { GENERATE_ENDPOINT, generateWithProvider } from "../services/geminiService";
+import { describeFailure, toGenerationError } from "../services/generationErrors";
+import { Locale, resolveLocale, translate } from "../services/i18n";
+import { ImageProvider } from "../services/imageProvider";
+import { loadEnvFile, resolveUpstreamProvider } from "./env";
+import { parseGenerateBody } from "./generateBody";
+import { HttpError, readBody, requestPath, sendJson, serveStatic } from "./http";
+import { createRateLimiter } from "./rateLimiter";
+
+/**
+ * Proxy that keeps the Gemini API key on the server.
+ *
+ * Environment (also read from .env.local):
+ * - GEMINI_API_KEY          upstream key, never sent to the browser
+ * - UPSTREAM_PROVIDER       "gemini" (default) or "mock" to stub the upstream
+ * - PORT                    listen port, default 3001
+ * - MAX_BODY_BYTES          request size limit, default 15 MB
+ * - RATE_LIMIT_PER_MINUTE   generations per client per minute, default 10
+ * - TRUST_PROXY             "1" when behind one reverse proxy that sets X-Forwarded-For
+ */
+
+loadEnvFile(path.resolve(".env.local"));
+
+const PORT = Number(process.env.PORT) || 3001;
+const MAX_BODY_BYTES = Number(process.env.MAX_BODY_BYTES) || 15 * 1024 * 1024;
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE) || 10;
+const TRUST_PROXY = process.env.TRUST_PROXY === "1" || process.env.TRUST_PROXY === "true";
+const STATIC_DIR = path.resolve("dist");
+
+const upstream: ImageProvider = resolveUpstreamProvider();
+const rateLimiter = createRateLimiter(RATE_LIMIT_PER_MINUTE, 60 * 1000);
+
+// X-Forwarded-For is client-controlled unless our own proxy sets it; that
+// proxy appends the address it saw, so only the last entry can be trusted
+const clientKey = (req: http.IncomingMessage): string => {
+  const header = req.headers["x-forwarded-for"];
+  const forwarded = Array.isArray(header) ? header.join(",") : header;
+  const last = TRUST_PROXY ? forwarded?.split(",").pop()?.trim() : undefined;
+  return last || req.socket.remoteAddress || "unknown";
+};
+
+const handleGenerate = async (req: http.IncomingMessage, res: http.ServerResponse, locale: Locale) => {
+  const decision = rateLimiter.check(clientKey(req));
+  if (!decision.allowed) {
+    sendJson(res, 429, { imageUrl: null, reason: "RATE_LIMIT", error: translate(locale, "server.rateLimited") }, {
+      "Retry-After": String(Math.ceil(decision.retryAfterMs / 1000)),
+    });
+    return;
+  }
+
+  const body = parseGenerateBody(await readBody(req, MAX_BODY_BYTES));
+  // Stop the upstream call when the browser cancels or times out
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  try {
+    const result = await generateWithProvider(
+      upstream, body.contentImage, body.styleReferences, body.prompt, body.refinements, controller.signal, body.locale ?? locale,
+      body.characterReferences, body.settings, body.characterTraits
+    );
+    if (result.imageUrl) {
+      sendJson(res, 200, result);
+    } else {
+      sendJson(res, 422, { ...result, error: describeFailure(result.reason!, result.detail, locale) });
+    }
+  } catch (error) {
+    const classified = toGenerationError(error);
+    if (classified.reason === "CANCELLED") return;
+    console.error(`${upstream.label} upstream error:`, error);
+    // The reason lets the browser decide whether to retry
+    sendJson(res, 502, {
+      imageUrl: null,
+      reason: classified.reason,
+      detail: classified.message,
+      error: describeFailure(classified.reason, classified.message, locale),
+    });
+  }
+};
+
+const server = http.createServer(async (req, res) => {
+  const locale = resolveLocale(req.headers["accept-language"]);
+  try {
+    if (requestPath(req) === GENERATE_ENDPOINT) {
+      if (req.method !== "POST") throw new HttpError(405, "server.methodNotAllowed");
+      await handleGenerate(req, res, locale);
+    } else if (req.method === "GET") {
+      serveStatic(req, res, STATIC_DIR);
+    } else {
+      throw new HttpError(404, "server.notFound");
+    }
+  } catch (error: any) {
+    if (res.headersSent) return;
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status === 500) console.error(error);
+    sendJson(res, status, { error: translate(locale, status === 500 ? "server.internal" : error.key) });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Chibify proxy listening on http://localhost:${PORT} (upstream: ${upstream.label})`);
+});
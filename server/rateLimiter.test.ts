@@ -0,0 +1,29 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createRateLimiter } from "./rateLimiter";
+
+test("allows `limit` requests per window, per key", () => {
+  const limiter = createRateLimiter(2, 1000);
+  assert.equal(limiter.check("a", 0).allowed, true);
+  assert.equal(limiter.check("a", 100).allowed, true);
+  assert.deepEqual(limiter.check("a", 200), { allowed: false, retryAfterMs: 800 });
+  assert.equal(limiter.check("b", 200).allowed, true);
+});
+
+test("the window slides instead of resetting", () => {
+  const limiter = createRateLimiter(2, 1000);
+  limiter.check("a", 0);
+  limiter.check("a", 500);
+  assert.equal(limiter.check("a", 999).allowed, false);
+  assert.equal(limiter.check("a", 1000).allowed, true);
+  assert.deepEqual(limiter.check("a", 1200), { allowed: false, retryAfterMs: 300 });
+});
+
+test("rejected requests do not extend the wait", () => {
+  const limiter = createRateLimiter(1, 1000);
+  limiter.check("a", 0);
+  for (let now = 100; now < 1000; now += 100) {
+    assert.equal(limiter.check("a", now).allowed, false);
+  }
+  assert.equal(limiter.check("a", 1000).allowed, true);
+});
@@ -0,0 +1,44 @@
+export interface RateLimitDecision {
+  allowed: boolean;
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  check(key: string, now?: number): RateLimitDecision;
+}
+
+/**
+ * Sliding-window limiter: each key may make `limit` requests per `windowMs`.
+ * State lives in memory, which is enough for a single proxy process.
+ */
+export const createRateLimiter = (limit: number, windowMs: number): RateLimiter => {
+  const hits = new Map<string, number[]>();
+
+  const prune = (now: number) => {
+    for (const [key, timestamps] of hits) {
+      const recent = timestamps.filter(t => now - t < windowMs);
+      if (recent.length === 0) hits.delete(key); else hits.set(key, recent);
+    }
+  };
+
+  let lastPrune = 0;
+
+  return {
+    check(key: string, now: number = Date.now()): RateLimitDecision {
+      if (now - lastPrune > windowMs) {
+        prune(now);
+        lastPrune = now;
+      }
+
+      const recent = (hits.get(key) || []).filter(t => now - t < windowMs);
+      if (recent.length >= limit) {
+        hits.set(key, recent);
+        return { allowed: false, retryAfterMs: windowMs - (now - recent[0]) };
+      }
+
+      recent.push(now);
+      hits.set(key, recent);
+      return { allowed: true, retryAfterMs: 0 };
+    },
+  };
+};
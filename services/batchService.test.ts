@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { AppStatus } from "../types";
+import { createBatchItem, resultFileNames, runWithConcurrency } from "./batchService";
+
+const done = (fileName: string, mimeType: string) => ({
+  ...createBatchItem(fileName, "data:image/png;base64,AAAA"),
+  status: AppStatus.SUCCESS,
+  resultImage: `data:${mimeType};base64,AAAA`,
+});
+
+test("result names are unique and follow the result's format", () => {
+  const items = [
+    done("alice.jpg", "image/png"),
+    done("photos/alice.png", "image/jpeg"),
+    done("bob.heic", "image/webp"),
+    createBatchItem("carol.png", "data:image/png;base64,AAAA"),
+  ];
+  assert.deepEqual([...resultFileNames(items).values()], [
+    "alice-chibi.png",
+    "alice-chibi-2.jpg",
+    "bob-chibi.webp",
+    "carol-chibi.png",
+  ]);
+});
+
+test("runWithConcurrency keeps at most `limit` workers in flight", async () => {
+  let running = 0;
+  let peak = 0;
+  const seen: number[] = [];
+  await runWithConcurrency([1, 2, 3, 4, 5], 2, async (n: number) => {
+    running++;
+    peak = Math.max(peak, running);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    seen.push(n);
+    running--;
+  });
+  assert.equal(peak, 2);
+  assert.deepEqual(seen.sort(), [1, 2, 3, 4, 5]);
+});
@@ -0,0 +1,60 @@
+import { AppStatus, BatchItem } from "../types";
+import { baseName, dataUrlToBytes, extensionForMimeType } from "./fileUtils";
+import { createId } from "./ids";
+import { getDataUrlMimeType } from "./imagePreprocess";
+import { createZip } from "./zipWriter";
+
+export const createBatchItem = (fileName: string, contentImage: string): BatchItem => ({
+  id: createId(),
+  fileName,
+  contentImage,
+  status: AppStatus.IDLE,
+  resultImage: null,
+  error: null,
+});
+
+/**
+ * Runs `worker` over `items`, keeping at most `limit` calls in flight.
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> => {
+  let next = 0;
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await worker(item);
+    }
+  });
+  await Promise.all(runners);
+};
+
+/**
+ * Derives a unique output name per item from its source file,
+ * e.g. `alice.jpg` -> `alice-chibi.png`, a second `alice.png` -> `alice-chibi-2.png`.
+ * The extension follows the result's format; items without a result get `.png`.
+ */
+export const resultFileNames = (items: BatchItem[]): Map<string, string> => {
+  const used = new Map<string, number>();
+  const names = new Map<string, string>();
+  for (const item of items) {
+    const stem = `${baseName(item.fileName) || "image"}-chibi`;
+    const count = (used.get(stem) || 0) + 1;
+    used.set(stem, count);
+    const extension = item.resultImage ? extensionForMimeType(getDataUrlMimeType(item.resultImage)) : ".png";
+    names.set(item.id, count === 1 ? `${stem}${extension}` : `${stem}-${count}${extension}`);
+  }
+  return names;
+};
+
+export const buildResultsZip = (items: BatchItem[]): Blob => {
+  // Name against the whole queue so ZIP entries match individual downloads
+  const names = resultFileNames(items);
+  const done = items.filter(item => item.status === AppStatus.SUCCESS && item.resultImage);
+  return createZip(done.map(item => ({
+    name: names.get(item.id)!,
+    data: dataUrlToBytes(item.resultImage!),
+  })));
+};
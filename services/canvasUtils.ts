@@ -0,0 +1,16 @@
+/**
+ * Canvas helpers shared by the services that draw in the browser.
+ */
+
+export const loadBitmap = async (dataUrl: string): Promise<ImageBitmap> => {
+  const blob = await (await fetch(dataUrl)).blob();
+  return createImageBitmap(blob);
+};
+
+// Sizes are rounded and kept at least 1px, which canvases require
+export const createCanvas = (width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+};
@@ -0,0 +1,148 @@
+/**
+ * Character library: recurring characters saved with their reference photos
+ * and trait notes, so they can be picked instead of uploaded every time.
+ * Profiles live in their own IndexedDB database next to the history.
+ */
+
+import { CharacterProfile, CharacterTraits } from "../types";
+import { isDataUrl, isRecord } from "./guards";
+import { getLocale, Locale, t, translate } from "./i18n";
+import { createId } from "./ids";
+import { createIndexedDbStore } from "./indexedDbStore";
+
+const STORE_NAME = "characters";
+
+const CHARACTER_FILE_FORMAT = "chibify-characters";
+const CHARACTER_FILE_VERSION = 1;
+
+// The main photo plus MAX_CHARACTER_REFERENCES extra views, the most a request may carry
+export const MAX_CHARACTER_IMAGES = 3;
+
+export const MAX_TRAIT_LENGTH = 200;
+
+export const TRAIT_FIELDS: (keyof CharacterTraits)[] = ["hair", "outfit", "accessories", "notes"];
+
+export const EMPTY_TRAITS: CharacterTraits = { hair: "", outfit: "", accessories: "", notes: "" };
+
+const characterStore = createIndexedDbStore({
+  dbName: "chibify-characters",
+  version: 1,
+  storeName: STORE_NAME,
+  upgrade: db => {
+    db.createObjectStore(STORE_NAME, { keyPath: "id" });
+  },
+  openFailed: "characters.openFailed",
+  opFailed: "characters.opFailed",
+});
+
+export const createCharacter = (name: string, images: string[]): CharacterProfile => {
+  const now = Date.now();
+  return {
+    id: createId("char"),
+    name,
+    images: images.slice(0, MAX_CHARACTER_IMAGES),
+    traits: { ...EMPTY_TRAITS },
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Returns all profiles, alphabetically.
+ */
+export const listCharacters = async (): Promise<CharacterProfile[]> => {
+  const profiles = await characterStore.request<CharacterProfile[]>("readonly", store => store.getAll());
+  return profiles.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const putCharacter = async (profile: CharacterProfile): Promise<void> => {
+  await characterStore.request("readwrite", store => store.put(profile));
+};
+
+export const deleteCharacter = async (id: string): Promise<void> => {
+  await characterStore.request("readwrite", store => store.delete(id));
+};
+
+export const isCharacterTraits = (value: unknown): value is CharacterTraits => {
+  return isRecord(value) && TRAIT_FIELDS.every(field => {
+    const trait = value[field];
+    return typeof trait === "string" && trait.length <= MAX_TRAIT_LENGTH;
+  });
+};
+
+export const hasTraits = (traits: CharacterTraits): boolean => {
+  return TRAIT_FIELDS.some(field => traits[field].trim().length > 0);
+};
+
+/**
+ * Text sent before the prompt listing what must be preserved, one line per
+ * filled-in trait. Null when nothing was filled in.
+ */
+export const buildTraitNotes = (traits: CharacterTraits, locale: Locale = getLocale()): string | null => {
+  const lines = TRAIT_FIELDS
+    .filter(field => traits[field].trim())
+    .map(field => translate(locale, `modelPrompt.trait.${field}`, { value: traits[field].trim() }));
+  if (lines.length === 0) return null;
+  return [translate(locale, "modelPrompt.traits"), ...lines].join("\n");
+};
+
+// Timestamps may be missing from a file and are filled in on import
+type CharacterFileEntry = Omit<CharacterProfile, "createdAt" | "updatedAt"> & { createdAt?: unknown; updatedAt?: unknown };
+
+const isCharacterFileEntry = (value: unknown): value is CharacterFileEntry => {
+  return isRecord(value)
+    && typeof value.id === "string"
+    && typeof value.name === "string"
+    && value.name.trim().length > 0
+    && Array.isArray(value.images)
+    && value.images.length > 0
+    && value.images.length <= MAX_CHARACTER_IMAGES
+    && value.images.every(isDataUrl)
+    && isCharacterTraits(value.traits);
+};
+
+/**
+ * Serializes profiles, images included, into a file that can be shared.
+ */
+export const exportCharacters = (profiles: CharacterProfile[]): string => {
+  return JSON.stringify({ format: CHARACTER_FILE_FORMAT, version: CHARACTER_FILE_VERSION, characters: profiles });
+};
+
+/**
+ * Parses a file produced by `exportCharacters`. Invalid entries are skipped;
+ * a file without any usable profile is an error.
+ */
+export const importCharacters = (json: string): CharacterProfile[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error(t("characters.invalidJson"));
+  }
+
+  if (!isRecord(parsed) || parsed.format !== CHARACTER_FILE_FORMAT || !Array.isArray(parsed.characters)) {
+    throw new Error(t("characters.invalidFormat"));
+  }
+  if (typeof parsed.version !== "number" || parsed.version > CHARACTER_FILE_VERSION) {
+    throw new Error(t("characters.newerVersion"));
+  }
+
+  const now = Date.now();
+  const profiles = parsed.characters.filter(isCharacterFileEntry).map((profile): CharacterProfile => ({
+    id: profile.id,
+    name: profile.name.trim(),
+    images: profile.images,
+    traits: {
+      hair: profile.traits.hair,
+      outfit: profile.traits.outfit,
+      accessories: profile.traits.accessories,
+      notes: profile.traits.notes,
+    },
+    createdAt: typeof profile.createdAt === "number" ? profile.createdAt : now,
+    updatedAt: typeof profile.updatedAt === "number" ? profile.updatedAt : now,
+  }));
+  if (profiles.length === 0) {
+    throw new Error(t("characters.importEmpty"));
+  }
+  return profiles;
+};
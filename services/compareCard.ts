@@ -0,0 +1,203 @@
+/**
+ * "Before → after" share cards, drawn on a canvas so they can be posted
+ * without any server round trip.
+ */
+
+import { createCanvas, loadBitmap } from "./canvasUtils";
+import { t } from "./i18n";
+
+export type CardLayout = "landscape" | "square" | "portrait";
+export type CardTheme = "dark" | "light";
+
+export interface CardOptions {
+  layout: CardLayout;
+  theme: CardTheme;
+  caption: string;
+  watermark: boolean;
+  watermarkText: string;
+}
+
+interface LayoutSpec {
+  width: number;
+  height: number;
+  // Side by side, or before above after
+  direction: "row" | "column";
+}
+
+// Sizes match what the common social feeds display without cropping
+export const CARD_LAYOUTS: Record<CardLayout, LayoutSpec> = {
+  landscape: { width: 1600, height: 900, direction: "row" },
+  square: { width: 1080, height: 1080, direction: "row" },
+  portrait: { width: 1080, height: 1440, direction: "column" },
+};
+
+const THEMES: Record<CardTheme, { background: string; panel: string; text: string; muted: string }> = {
+  dark: { background: "#0f172a", panel: "#1e293b", text: "#f1f5f9", muted: "#94a3b8" },
+  light: { background: "#f8fafc", panel: "#e2e8f0", text: "#0f172a", muted: "#475569" },
+};
+
+const ACCENT = "#6366f1";
+const FONT = `system-ui, -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif`;
+
+export const DEFAULT_CARD_OPTIONS: CardOptions = {
+  layout: "landscape",
+  theme: "dark",
+  caption: "",
+  watermark: true,
+  watermarkText: "Made with Chibify",
+};
+
+const roundRect = (ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number) => {
+  ctx.beginPath();
+  ctx.roundRect(x, y, width, height, radius);
+};
+
+// Draws `image` scaled to fit the box, centered
+const drawContained = (ctx: CanvasRenderingContext2D, image: ImageBitmap, x: number, y: number, width: number, height: number) => {
+  const scale = Math.min(width / image.width, height / image.height);
+  const w = image.width * scale;
+  const h = image.height * scale;
+  ctx.drawImage(image, x + (width - w) / 2, y + (height - h) / 2, w, h);
+};
+
+/**
+ * Breaks text into at most `maxLines` lines that fit `maxWidth`. Works per
+ * character so Chinese text without spaces wraps too; the last line is
+ * ellipsized if the text does not fit.
+ */
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  let line = "";
+  for (const char of Array.from(text)) {
+    if (ctx.measureText(line + char).width > maxWidth && line) {
+      lines.push(line);
+      line = char.trimStart();
+      if (lines.length === maxLines) break;
+    } else {
+      line += char;
+    }
+  }
+  if (lines.length < maxLines) {
+    lines.push(line);
+  } else {
+    let last = lines[maxLines - 1];
+    while (last && ctx.measureText(`${last}…`).width > maxWidth) last = last.slice(0, -1);
+    lines[maxLines - 1] = `${last}…`;
+  }
+  return lines.filter(Boolean);
+};
+
+const drawPanel = (
+  ctx: CanvasRenderingContext2D,
+  image: ImageBitmap,
+  label: string,
+  box: { x: number; y: number; width: number; height: number },
+  theme: typeof THEMES[CardTheme],
+  unit: number
+) => {
+  ctx.fillStyle = theme.panel;
+  roundRect(ctx, box.x, box.y, box.width, box.height, unit);
+  ctx.fill();
+
+  ctx.save();
+  roundRect(ctx, box.x, box.y, box.width, box.height, unit);
+  ctx.clip();
+  drawContained(ctx, image, box.x, box.y, box.width, box.height);
+  ctx.restore();
+
+  ctx.font = `600 ${unit * 1.6}px ${FONT}`;
+  const padding = unit * 0.8;
+  const labelWidth = ctx.measureText(label).width + padding * 2;
+  const labelHeight = unit * 2.8;
+  ctx.fillStyle = ACCENT;
+  roundRect(ctx, box.x + unit, box.y + unit, labelWidth, labelHeight, labelHeight / 2);
+  ctx.fill();
+  ctx.fillStyle = "#ffffff";
+  ctx.textBaseline = "middle";
+  ctx.textAlign = "left";
+  ctx.fillText(label, box.x + unit + padding, box.y + unit + labelHeight / 2);
+};
+
+/**
+ * Renders the card at the layout's full size.
+ */
+export const renderCompareCard = async (before: string, after: string, options: CardOptions): Promise<HTMLCanvasElement> => {
+  const spec = CARD_LAYOUTS[options.layout];
+  const theme = THEMES[options.theme];
+  const [beforeImage, afterImage] = await Promise.all([loadBitmap(before), loadBitmap(after)]);
+
+  const canvas = createCanvas(spec.width, spec.height);
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = theme.background;
+  ctx.fillRect(0, 0, spec.width, spec.height);
+
+  // Everything is sized from one unit so the layouts keep their proportions
+  const unit = Math.min(spec.width, spec.height) / 60;
+  const margin = unit * 3;
+  const gap = unit * 5;
+  const caption = options.caption.trim();
+
+  ctx.font = `700 ${unit * 3}px ${FONT}`;
+  const captionLines = caption ? wrapText(ctx, caption, spec.width - margin * 2, 2) : [];
+  const captionHeight = captionLines.length > 0 ? captionLines.length * unit * 4 + unit * 2 : 0;
+  const footerHeight = options.watermark && options.watermarkText.trim() ? unit * 3 : 0;
+
+  const area = {
+    x: margin,
+    y: margin,
+    width: spec.width - margin * 2,
+    height: spec.height - margin * 2 - captionHeight - footerHeight,
+  };
+  const row = spec.direction === "row";
+  const panelWidth = row ? (area.width - gap) / 2 : area.width;
+  const panelHeight = row ? area.height : (area.height - gap) / 2;
+  const afterBox = {
+    x: row ? area.x + panelWidth + gap : area.x,
+    y: row ? area.y : area.y + panelHeight + gap,
+    width: panelWidth,
+    height: panelHeight,
+  };
+
+  drawPanel(ctx, beforeImage, t("compare.before"), { x: area.x, y: area.y, width: panelWidth, height: panelHeight }, theme, unit);
+  drawPanel(ctx, afterImage, t("compare.after"), afterBox, theme, unit);
+  beforeImage.close();
+  afterImage.close();
+
+  // Arrow badge centered in the gap
+  const arrowX = row ? area.x + panelWidth + gap / 2 : area.x + area.width / 2;
+  const arrowY = row ? area.y + area.height / 2 : area.y + panelHeight + gap / 2;
+  ctx.fillStyle = ACCENT;
+  ctx.beginPath();
+  ctx.arc(arrowX, arrowY, unit * 3, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = "#ffffff";
+  ctx.font = `700 ${unit * 3.2}px ${FONT}`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(row ? "→" : "↓", arrowX, arrowY);
+
+  if (captionLines.length > 0) {
+    ctx.fillStyle = theme.text;
+    ctx.font = `700 ${unit * 3}px ${FONT}`;
+    captionLines.forEach((line, i) => {
+      ctx.fillText(line, spec.width / 2, area.y + area.height + unit * 3 + i * unit * 4);
+    });
+  }
+
+  if (footerHeight > 0) {
+    ctx.globalAlpha = 0.7;
+    ctx.fillStyle = theme.muted;
+    ctx.font = `500 ${unit * 1.6}px ${FONT}`;
+    ctx.textAlign = "right";
+    ctx.fillText(options.watermarkText.trim(), spec.width - margin, spec.height - margin - footerHeight / 2);
+    ctx.globalAlpha = 1;
+  }
+
+  return canvas;
+};
+
+export const canvasToPng = (canvas: HTMLCanvasElement): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(t("file.encodeFailed"))), "image/png");
+  });
+};
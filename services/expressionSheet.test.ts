@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { AppStatus } from "../types";
+import { createSheetCell, sheetFileNames } from "./expressionSheet";
+
+const done = (expressionId: string | null, expression: string, mimeType: string) => ({
+  ...createSheetCell(expressionId, expression),
+  status: AppStatus.SUCCESS,
+  resultImage: `data:${mimeType};base64,AAAA`,
+});
+
+test("cell names are numbered and follow the cell's format", () => {
+  const cells = [
+    done("thumbsUp", "", "image/png"),
+    done(null, "眨眼 wink!", "image/jpeg"),
+    done(null, "???", "image/webp"),
+    createSheetCell("happy"),
+  ];
+  assert.deepEqual([...sheetFileNames(cells).values()], [
+    "01-thumbs-up.png",
+    "02-眨眼-wink.jpg",
+    "03-sticker.webp",
+    "04-happy.png",
+  ]);
+});
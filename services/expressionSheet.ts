@@ -0,0 +1,137 @@
+/**
+ * Sticker sheets: one character drawn with a list of expressions, assembled
+ * into a grid plus one file per expression for chat sticker packs.
+ */
+
+import { AppStatus, SheetCell } from "../types";
+import { createCanvas, loadBitmap } from "./canvasUtils";
+import { dataUrlToBytes, extensionForMimeType } from "./fileUtils";
+import { t } from "./i18n";
+import { createId } from "./ids";
+import { getDataUrlMimeType } from "./imagePreprocess";
+import { extractTemplateVariables, renderTemplate } from "./promptTemplate";
+import { createZip } from "./zipWriter";
+
+export const EXPRESSION_VARIABLE = "expression";
+
+export const BUILT_IN_EXPRESSIONS = [
+  "happy", "laughing", "angry", "crying", "thumbsUp", "sleepy",
+  "surprised", "love", "shy", "confused", "thanks", "ok",
+] as const;
+
+export type ExpressionId = typeof BUILT_IN_EXPRESSIONS[number];
+
+export const DEFAULT_EXPRESSIONS: ExpressionId[] = ["happy", "angry", "crying", "thumbsUp", "sleepy", "surprised"];
+
+// Common sticker packs hold 8–24 stickers; more than this is better split into several sheets
+export const MAX_SHEET_CELLS = 16;
+
+export interface SheetOptions {
+  columns: number;
+  showLabels: boolean;
+  background: "transparent" | "white";
+}
+
+export const DEFAULT_SHEET_OPTIONS: SheetOptions = { columns: 3, showLabels: false, background: "white" };
+
+const CELL_SIZE = 512;
+const GAP = 24;
+const LABEL_HEIGHT = 56;
+
+const isBuiltIn = (value: string): value is ExpressionId => (BUILT_IN_EXPRESSIONS as readonly string[]).includes(value);
+
+export const createSheetCell = (expressionId: string | null, expression = ""): SheetCell => ({
+  id: createId(),
+  expressionId,
+  expression,
+  status: AppStatus.IDLE,
+  resultImage: null,
+  error: null,
+});
+
+/**
+ * Text for the cell in the current language. Built-in expressions are
+ * translated on use, so switching languages changes what is sent.
+ */
+export const expressionText = (cell: SheetCell): string => {
+  return cell.expressionId && isBuiltIn(cell.expressionId) ? t(`sheet.expression.${cell.expressionId}`) : cell.expression;
+};
+
+/**
+ * The prompt for one cell. Templates with an `{{expression}}` variable get
+ * the cell's expression there; others get it appended as an instruction.
+ */
+export const renderCellPrompt = (template: string, values: Record<string, string>, expression: string): string => {
+  const prompt = renderTemplate(template, { ...values, [EXPRESSION_VARIABLE]: expression });
+  const hasVariable = extractTemplateVariables(template).some(variable => variable.name === EXPRESSION_VARIABLE);
+  return hasVariable ? prompt : `${prompt}\n\n${t("modelPrompt.expression", { expression })}`;
+};
+
+/**
+ * Numbered file names in sheet order, e.g. `01-happy.png`, `07-wink.webp`,
+ * with the extension of each cell's image format. Typed expressions keep
+ * letters and digits of any script.
+ */
+export const sheetFileNames = (cells: SheetCell[]): Map<string, string> => {
+  const names = new Map<string, string>();
+  cells.forEach((cell, i) => {
+    const slug = cell.expressionId
+      ? cell.expressionId.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`)
+      : cell.expression.trim().replace(/[^\p{L}\p{N}]+/gu, "-").replace(/^-+|-+$/g, "").slice(0, 40);
+    const extension = cell.resultImage ? extensionForMimeType(getDataUrlMimeType(cell.resultImage)) : ".png";
+    names.set(cell.id, `${String(i + 1).padStart(2, "0")}-${slug || "sticker"}${extension}`);
+  });
+  return names;
+};
+
+/**
+ * Lays the finished cells out in a grid, each image contained in a square
+ * cell, with the expression underneath when `showLabels` is on.
+ */
+export const renderSheet = async (cells: SheetCell[], options: SheetOptions): Promise<HTMLCanvasElement> => {
+  const done = cells.filter(cell => cell.resultImage);
+  const columns = Math.max(1, Math.min(options.columns, done.length));
+  const rows = Math.ceil(done.length / columns);
+  const cellHeight = CELL_SIZE + (options.showLabels ? LABEL_HEIGHT : 0);
+
+  const canvas = createCanvas(columns * CELL_SIZE + (columns + 1) * GAP, rows * cellHeight + (rows + 1) * GAP);
+  const ctx = canvas.getContext("2d")!;
+  if (options.background === "white") {
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  const bitmaps = await Promise.all(done.map(cell => loadBitmap(cell.resultImage!)));
+  bitmaps.forEach((bitmap, i) => {
+    const x = GAP + (i % columns) * (CELL_SIZE + GAP);
+    const y = GAP + Math.floor(i / columns) * (cellHeight + GAP);
+    const scale = Math.min(CELL_SIZE / bitmap.width, CELL_SIZE / bitmap.height);
+    const w = bitmap.width * scale;
+    const h = bitmap.height * scale;
+    ctx.drawImage(bitmap, x + (CELL_SIZE - w) / 2, y + (CELL_SIZE - h) / 2, w, h);
+    bitmap.close();
+
+    if (options.showLabels) {
+      ctx.fillStyle = "#334155";
+      ctx.font = `600 28px system-ui, -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif`;
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.fillText(expressionText(done[i]), x + CELL_SIZE / 2, y + CELL_SIZE + LABEL_HEIGHT / 2, CELL_SIZE);
+    }
+  });
+  return canvas;
+};
+
+/**
+ * The whole pack: the sheet plus every finished cell as its own file.
+ */
+export const buildStickerPackZip = (cells: SheetCell[], sheetPng: Uint8Array): Blob => {
+  const names = sheetFileNames(cells);
+  return createZip([
+    { name: "sheet.png", data: sheetPng },
+    ...cells.filter(cell => cell.resultImage).map(cell => ({
+      name: names.get(cell.id)!,
+      data: dataUrlToBytes(cell.resultImage!),
+    })),
+  ]);
+};
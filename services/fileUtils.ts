@@ -0,0 +1,69 @@
+import { t } from "./i18n";
+
+// Sources are downscaled before upload, so this only guards decoding memory
+export const MAX_UPLOAD_BYTES = 30 * 1024 * 1024;
+
+/**
+ * Returns an error message if the file cannot be used as an input image.
+ * The real format is checked from the file header during preprocessing;
+ * some platforms report HEIC and converted files with an empty type.
+ */
+export const validateImageFile = (file: File): string | null => {
+  if (file.type && !file.type.startsWith("image/")) {
+    return t("file.invalidType");
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return t("file.tooLarge", { limit: formatBytes(MAX_UPLOAD_BYTES) });
+  }
+  return null;
+};
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.split(",")[1] || dataUrl);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Extensions for the formats a model may answer with
+export const OUTPUT_EXTENSIONS: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/webp": ".webp",
+  "image/gif": ".gif",
+};
+
+export const extensionForMimeType = (mimeType: string): string => OUTPUT_EXTENSIONS[mimeType] || ".png";
+
+/**
+ * Strips the directory and extension from a file name.
+ */
+export const baseName = (fileName: string): string => {
+  const name = fileName.split(/[\\/]/).pop() || fileName;
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(0, dot) : name;
+};
+
+export const downloadUrl = (href: string, fileName: string): void => {
+  const link = document.createElement("a");
+  link.href = href;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, fileName);
+  URL.revokeObjectURL(url);
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
@@ -0,0 +1,24 @@
+import { GoogleGenAI } from "@google/genai";
+import { ImageProvider, ProviderRequest, ProviderResponse } from "./imageProvider";
+
+const getClient = () => {
+  const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+  if (!apiKey) {
+    throw new Error("API Key is missing. Please set GEMINI_API_KEY on the server.");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+export const geminiProvider: ImageProvider = {
+  id: "gemini",
+  label: "Gemini",
+  async generateContent(request: ProviderRequest): Promise<ProviderResponse> {
+    const ai = getClient();
+    return ai.models.generateContent({
+      model: request.model,
+      contents: request.contents,
+      config: { ...request.config, abortSignal: request.signal },
+      // Note: responseMimeType is not supported for nano banana series
+    });
+  },
+};
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { mock, test } from "node:test";
+import {
+  buildRequestContents,
+  generateChibiStyle,
+  GenerateRequestBody,
+  generateWithProvider,
+  MAX_REFINEMENT_TURNS,
+  RefinementTurn,
+} from "./geminiService";
+import { mockProvider } from "./mockProvider";
+
+const image = (label: string) => `data:image/png;base64,${Buffer.from(label).toString("base64")}`;
+
+const turns = (count: number): RefinementTurn[] => Array.from({ length: count }, (_, i) => ({
+  resultImage: image(`result ${i + 1}`),
+  instruction: `edit ${i + 1}`,
+}));
+
+const imagesOf = (parts: { inlineData?: { data?: string } }[]) => {
+  return parts.filter(part => part.inlineData).map(part => Buffer.from(part.inlineData!.data!, "base64").toString());
+};
+
+const textOf = (parts: { text?: string }[]) => parts.map(part => part.text ?? "").join("\n");
+
+process.env.MOCK_LATENCY_MS = "1";
+
+test("the first turn carries the images before the prompt", () => {
+  const [turn, ...rest] = buildRequestContents(image("content"), [], "Make it chibi", [], "en");
+  assert.equal(rest.length, 0);
+  assert.equal(turn.role, "user");
+  assert.deepEqual(imagesOf(turn.parts), ["content"]);
+  assert.equal(turn.parts.at(-1)?.text, "Make it chibi");
+});
+
+test("refinements replay results as model turns followed by the instruction", () => {
+  const contents = buildRequestContents(image("content"), [], "prompt", turns(2), "en");
+  assert.deepEqual(contents.map(turn => turn.role), ["user", "model", "user", "model", "user"]);
+  assert.deepEqual(imagesOf(contents[3].parts), ["result 2"]);
+  assert.match(textOf(contents[4].parts), /edit 2/);
+});
+
+test("only the most recent refinement turns are kept", () => {
+  const contents = buildRequestContents(image("content"), [], "prompt", turns(MAX_REFINEMENT_TURNS + 2), "en");
+  assert.equal(contents.length, 1 + 2 * MAX_REFINEMENT_TURNS);
+  assert.deepEqual(imagesOf(contents[1].parts), ["result 3"]);
+  assert.match(textOf(contents.at(-1)!.parts), /edit 6/);
+  assert.doesNotMatch(contents.map(turn => textOf(turn.parts)).join("\n"), /edit [12]\b/);
+});
+
+test("the mock provider echoes the image being refined, with usage", async () => {
+  const result = await generateWithProvider(mockProvider, image("content"), [], "prompt", turns(1), undefined, "en");
+  assert.equal(result.imageUrl, image("result 1"));
+  assert.ok(result.usage && result.usage.promptTokens > 0 && result.usage.outputTokens > 0);
+});
+
+test("mock refusals surface as failure reasons", async () => {
+  const safety = await generateWithProvider(mockProvider, image("content"), [], "[mock:safety]", [], undefined, "en");
+  assert.equal(safety.reason, "SAFETY");
+  const text = await generateWithProvider(mockProvider, image("content"), [], "[mock:text]", [], undefined, "en");
+  assert.equal(text.reason, "TEXT_ONLY");
+  assert.match(text.error!, /can't help/);
+});
+
+test("mock transport errors reject with the HTTP status", async () => {
+  await assert.rejects(
+    generateWithProvider(mockProvider, image("content"), [], "[mock:rate-limit]", [], undefined, "en"),
+    (error: { status?: number }) => error.status === 429
+  );
+});
+
+test("a chain longer than the proxy accepts is trimmed before it is posted", async () => {
+  const bodies: GenerateRequestBody[] = [];
+  const fetchMock = mock.method(globalThis, "fetch", async (_url: string, init: RequestInit) => {
+    bodies.push(JSON.parse(init.body as string));
+    return new Response(JSON.stringify({ imageUrl: image("result 6") }), { status: 200 });
+  });
+  try {
+    const result = await generateChibiStyle(image("content"), [], "prompt", turns(MAX_REFINEMENT_TURNS + 1));
+    assert.equal(result.imageUrl, image("result 6"));
+  } finally {
+    fetchMock.mock.restore();
+  }
+  const sent = bodies[0].refinements!;
+  assert.equal(sent.length, MAX_REFINEMENT_TURNS);
+  assert.equal(sent[0].instruction, "edit 2");
+  assert.equal(sent.at(-1)!.instruction, `edit ${MAX_REFINEMENT_TURNS + 1}`);
+});
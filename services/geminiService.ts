@@ -1,12 +1,54 @@
-import { GoogleGenAI } from "@google/genai";
+import { CharacterTraits, GenerationResult, GenerationSettings, StyleReference, TokenUsage, UsageKind } from "../types";
+import { ContentPart, getConfiguredProviderId, ImageProvider, ProviderResponse, ProviderTurn } from "./imageProvider";
+import { mockProvider } from "./mockProvider";
+import { getDataUrlMimeType } from "./imagePreprocess";
+import { getLocale, Locale, translate } from "./i18n";
+import { buildStyleGuide } from "./styleReferences";
+import { buildTraitNotes } from "./characterService";
+import { buildGenerationConfig, DEFAULT_GENERATION_SETTINGS } from "./modelSettings";
+import { getBudgetStatus, recordUsage, usageOf } from "./usageService";
+import {
+  DEFAULT_RETRY_OPTIONS,
+  describeFailure,
+  GenerationError,
+  isTransient,
+  reasonForStatus,
+  RetryOptions,
+  toGenerationError,
+  withRetry,
+} from "./generationErrors";
 
-const getClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Key is missing. Please set process.env.API_KEY.");
-  }
-  return new GoogleGenAI({ apiKey });
-};
+// Served by server/index.ts, which holds the API key and talks to Gemini
+export const GENERATE_ENDPOINT = "/api/generate";
+
+// Keeps multi-turn edits within the proxy's request size limit
+export const MAX_REFINEMENT_TURNS = 4;
+
+// Earlier drawings of the same character sent for consistency, within the same limit
+export const MAX_CHARACTER_REFERENCES = 2;
+
+/**
+ * One earlier result and the follow-up instruction that was applied to it.
+ * With a `mask` (white = edit) the instruction only targets that region.
+ */
+export interface RefinementTurn {
+  resultImage: string;
+  instruction: string;
+  mask?: string;
+}
+
+export interface GenerateRequestBody {
+  contentImage: string;
+  styleReferences: StyleReference[];
+  prompt: string;
+  refinements?: RefinementTurn[];
+  // Language of the text wrapped around style references and refinement instructions
+  locale?: Locale;
+  characterReferences?: string[];
+  // Trait notes of a saved character, sent as text before the prompt
+  characterTraits?: CharacterTraits;
+  settings?: GenerationSettings;
+}
 
 /**
  * Converts a base64 string (data:image/...) to a raw base64 string without the prefix
@@ -15,87 +57,319 @@ const stripBase64Prefix = (base64Str: string): string => {
   return base64Str.split(',')[1] || base64Str;
 };
 
-export const generateChibiStyle = async (
+export const buildRequestParts = (
   contentImage: string,
-  styleImage: string | null,
-  customPrompt: string
-): Promise<string> => {
-  const ai = getClient();
-  // Using gemini-2.5-flash-image for image generation tasks
-  const model = "gemini-2.5-flash-image"; 
+  styleReferences: StyleReference[],
+  customPrompt: string,
+  locale: Locale = getLocale(),
+  characterReferences: string[] = [],
+  characterTraits?: CharacterTraits
+): ContentPart[] => {
+  const parts: ContentPart[] = [];
 
-  try {
-    const parts: any[] = [];
-
-    // Order: Images first, then text prompt.
-    // 1. Style Reference (if provided)
-    if (styleImage) {
-      parts.push({
-        inlineData: {
-          mimeType: "image/png",
-          data: stripBase64Prefix(styleImage)
-        }
-      });
+  // Order: Images first, then text prompt.
+  // 1. Style References (if provided), numbered in upload order
+  for (const reference of styleReferences) {
+    parts.push({
+      inlineData: {
+        mimeType: getDataUrlMimeType(reference.image),
+        data: stripBase64Prefix(reference.image)
+      }
+    });
+  }
+
+  // 2. Content Image (Target)
+  parts.push({
+    inlineData: {
+      mimeType: getDataUrlMimeType(contentImage),
+      data: stripBase64Prefix(contentImage)
     }
+  });
 
-    // 2. Content Image (Target)
+  // 3. Earlier drawings of this character, after the content image so preset prompts keep their numbering
+  for (const image of characterReferences) {
     parts.push({
       inlineData: {
-        mimeType: "image/png",
-        data: stripBase64Prefix(contentImage)
+        mimeType: getDataUrlMimeType(image),
+        data: stripBase64Prefix(image)
       }
     });
+  }
+
+  // 4. Explain what each reference contributes, when there is more to say than "image 1 is the style"
+  const styleGuide = buildStyleGuide(styleReferences, locale);
+  if (styleGuide) {
+    parts.push({ text: styleGuide });
+  }
+  if (characterReferences.length > 0) {
+    const first = styleReferences.length + 2;
+    parts.push({
+      text: characterReferences.length === 1
+        ? translate(locale, "modelPrompt.characterReference", { index: first })
+        : translate(locale, "modelPrompt.characterReferences", { from: first, to: first + characterReferences.length - 1 }),
+    });
+  }
+  const traitNotes = characterTraits && buildTraitNotes(characterTraits, locale);
+  if (traitNotes) {
+    parts.push({ text: traitNotes });
+  }
+
+  // 5. Add the text prompt last
+  parts.push({ text: customPrompt });
+
+  return parts;
+};
+
+/**
+ * The turns that are actually sent: a longer revision chain keeps only its
+ * latest MAX_REFINEMENT_TURNS, which is also all the proxy accepts.
+ */
+export const recentRefinements = (refinements: RefinementTurn[]): RefinementTurn[] => {
+  return refinements.slice(-MAX_REFINEMENT_TURNS);
+};
+
+const buildRefinementParts = (turn: RefinementTurn, locale: Locale): ContentPart[] => {
+  if (!turn.mask) {
+    return [{ text: translate(locale, "modelPrompt.refinement", { instruction: turn.instruction }) }];
+  }
+  return [
+    { inlineData: { mimeType: getDataUrlMimeType(turn.mask), data: stripBase64Prefix(turn.mask) } },
+    { text: translate(locale, "modelPrompt.maskedRefinement", { instruction: turn.instruction }) },
+  ];
+};
 
-    // 3. Add the text prompt last
-    parts.push({ text: customPrompt });
+/**
+ * Builds the conversation sent to the model. Refinements replay earlier
+ * results as model turns, each followed by the instruction applied to it, so
+ * the model edits the latest result instead of starting over. Only the most
+ * recent turns are kept.
+ */
+export const buildRequestContents = (
+  contentImage: string,
+  styleReferences: StyleReference[],
+  customPrompt: string,
+  refinements: RefinementTurn[] = [],
+  locale: Locale = getLocale(),
+  characterReferences: string[] = [],
+  characterTraits?: CharacterTraits
+): ProviderTurn[] => {
+  const contents: ProviderTurn[] = [
+    { role: "user", parts: buildRequestParts(contentImage, styleReferences, customPrompt, locale, characterReferences, characterTraits) },
+  ];
 
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: {
-        parts: parts
+  for (const turn of recentRefinements(refinements)) {
+    contents.push(
+      {
+        role: "model",
+        parts: [{ inlineData: { mimeType: getDataUrlMimeType(turn.resultImage), data: stripBase64Prefix(turn.resultImage) } }],
       },
-      // Note: responseMimeType is not supported for nano banana series
-    });
+      { role: "user", parts: buildRefinementParts(turn, locale) }
+    );
+  }
 
-    const candidate = response.candidates?.[0];
-    if (!candidate) {
-         throw new Error("API 响应为空，未返回任何候选结果。");
-    }
+  return contents;
+};
 
-    // Check for safety finish reason if no content or just to be safe
-    if (candidate.finishReason === 'SAFETY') {
-        throw new Error("由于安全策略，模型拒绝生成该图片。请尝试更换图片。");
-    }
+const readUsage = (response: ProviderResponse): TokenUsage | undefined => {
+  const metadata = response.usageMetadata;
+  if (!metadata) return undefined;
+  const promptTokens = metadata.promptTokenCount ?? 0;
+  const outputTokens = metadata.candidatesTokenCount ?? 0;
+  return { promptTokens, outputTokens, totalTokens: metadata.totalTokenCount ?? promptTokens + outputTokens };
+};
 
-    const contentParts = candidate.content?.parts;
-    if (contentParts) {
-      // Prioritize finding the image
-      for (const part of contentParts) {
-        if (part.inlineData && part.inlineData.data) {
-          return `data:image/png;base64,${part.inlineData.data}`;
-        }
-      }
-      
-      // If no image, check for text message
-      const textPart = contentParts.find(p => p.text);
-      if (textPart && textPart.text) {
-         let msg = textPart.text.trim();
-         // Clean up if it's just empty code blocks which can happen on soft refusals
-         if (msg.replace(/`/g, '').trim().length === 0) {
-             msg = "模型未生成图片。这通常是因为输入图片触发了安全过滤或过于复杂。";
-         }
-         throw new Error(`生成失败: ${msg}`);
+/**
+ * Extracts the generated image and token usage from a provider response, or
+ * describes why there is no image.
+ */
+export const parseGenerationResponse = (response: ProviderResponse): GenerationResult => {
+  const usage = readUsage(response);
+  const result = parseCandidate(response);
+  return usage ? { ...result, usage } : result;
+};
+
+const parseCandidate = (response: ProviderResponse): GenerationResult => {
+  const candidate = response.candidates?.[0];
+  if (!candidate) {
+    return { imageUrl: null, reason: 'EMPTY_RESPONSE', error: describeFailure('EMPTY_RESPONSE') };
+  }
+
+  // Check for safety finish reason if no content or just to be safe
+  if (candidate.finishReason === 'SAFETY') {
+    return { imageUrl: null, reason: 'SAFETY', error: describeFailure('SAFETY') };
+  }
+
+  const contentParts = candidate.content?.parts;
+  if (contentParts) {
+    // Prioritize finding the image
+    for (const part of contentParts) {
+      if (part.inlineData && part.inlineData.data) {
+        return { imageUrl: `data:${part.inlineData.mimeType || "image/png"};base64,${part.inlineData.data}` };
       }
     }
 
-    throw new Error("未在响应中找到图片数据，也未找到错误说明。");
+    // If no image, check for text message
+    const textPart = contentParts.find(p => p.text);
+    if (textPart && textPart.text) {
+      const msg = textPart.text.trim();
+      // Empty code blocks happen on soft refusals and carry no useful detail
+      const detail = msg.replace(/`/g, '').trim().length > 0 ? msg : undefined;
+      return { imageUrl: null, reason: 'TEXT_ONLY', detail, error: describeFailure('TEXT_ONLY', detail) };
+    }
+  }
+
+  return { imageUrl: null, reason: 'NO_IMAGE', error: describeFailure('NO_IMAGE') };
+};
+
+/**
+ * Builds the request, sends it through `provider` and parses the response.
+ * Shared by the browser (mock provider) and the proxy server (real upstream).
+ */
+export const generateWithProvider = async (
+  provider: ImageProvider,
+  contentImage: string,
+  styleReferences: StyleReference[],
+  customPrompt: string,
+  refinements: RefinementTurn[] = [],
+  signal?: AbortSignal,
+  locale: Locale = getLocale(),
+  characterReferences: string[] = [],
+  settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS,
+  characterTraits?: CharacterTraits
+): Promise<GenerationResult> => {
+  const response = await provider.generateContent({
+    model: settings.model,
+    contents: buildRequestContents(contentImage, styleReferences, customPrompt, refinements, locale, characterReferences, characterTraits),
+    config: buildGenerationConfig(settings),
+    signal,
+  });
+  return parseGenerationResponse(response);
+};
+
+/**
+ * Posts to the proxy. Model refusals come back as a result; transport and
+ * upstream failures are thrown as `GenerationError` so they can be retried.
+ */
+const requestViaProxy = async (body: GenerateRequestBody, signal: AbortSignal): Promise<GenerationResult> => {
+  const response = await fetch(GENERATE_ENDPOINT, {
+    method: "POST",
+    // The proxy answers in the user's language
+    headers: { "Content-Type": "application/json", "Accept-Language": getLocale() },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  let payload: any = null;
+  try {
+    payload = await response.json();
+  } catch {
+    // Non-JSON bodies (e.g. a gateway error page) fall through to the status checks
+  }
 
-  } catch (error: any) {
-    console.error("Gemini API Error:", error);
-    // Preserve our custom error messages
-    if (error.message && (error.message.includes("生成失败") || error.message.includes("安全策略"))) {
-        throw error;
+  if (response.ok) {
+    return payload as GenerationResult;
+  }
+
+  const reason = payload?.reason || reasonForStatus(response.status);
+  if (response.status === 422 && !isTransient(reason)) {
+    // Rebuilt locally so the message follows the language currently selected
+    return { ...payload, error: describeFailure(reason, payload.detail) } as GenerationResult;
+  }
+  const retryAfter = Number(response.headers.get("Retry-After"));
+  throw new GenerationError(
+    reason,
+    payload?.detail || payload?.error || `HTTP ${response.status}`,
+    retryAfter > 0 ? retryAfter * 1000 : undefined
+  );
+};
+
+/**
+ * Runs `attempt` with retries and turns every failure into a result with a
+ * `reason` and a user-facing `error`. Shared by the browser and the CLI;
+ * `source` only labels the log line.
+ */
+export const runGeneration = async (
+  attempt: (signal: AbortSignal) => Promise<GenerationResult>,
+  options: Partial<RetryOptions> = {},
+  source = "Gemini"
+): Promise<GenerationResult> => {
+  try {
+    return await withRetry(attempt, { ...DEFAULT_RETRY_OPTIONS, ...options });
+  } catch (error) {
+    const classified = toGenerationError(error);
+    if (classified.reason !== "CANCELLED") {
+      console.error(`${source} API Error:`, classified);
     }
-    throw new Error(error.message || "图片生成服务暂时不可用，请稍后再试。");
+    return {
+      imageUrl: null,
+      reason: classified.reason,
+      detail: classified.message,
+      error: describeFailure(classified.reason, classified.message),
+    };
   }
-};
\ No newline at end of file
+};
+
+// What a request was for, so the usage log can be broken down by preset
+export interface UsageContext {
+  kind: UsageKind;
+  presetId: string;
+  presetName: string;
+}
+
+export interface GenerateOptions extends Partial<RetryOptions> {
+  usage?: UsageContext;
+  // Other drawings or photos of the same character to stay consistent with
+  characterReferences?: string[];
+  characterTraits?: CharacterTraits;
+  // Model and sampling parameters; the default model when omitted
+  settings?: GenerationSettings;
+}
+
+/**
+ * Generates one image. Never throws: every failure is returned as a result
+ * with a `reason` and a user-facing `error`. Transient failures are retried
+ * according to `options`; pass `options.signal` to allow cancellation.
+ *
+ * Every request that was sent is written to the usage log. Once a budget set
+ * to block is used up, nothing is sent and the result fails with reason BUDGET.
+ */
+export const generateChibiStyle = async (
+  contentImage: string,
+  styleReferences: StyleReference[],
+  customPrompt: string,
+  refinements: RefinementTurn[] = [],
+  { usage: context, characterReferences = [], characterTraits, settings = DEFAULT_GENERATION_SETTINGS, ...options }: GenerateOptions = {}
+): Promise<GenerationResult> => {
+  const budget = getBudgetStatus();
+  if (budget?.exceeded && budget.budget.action === "block") {
+    return { imageUrl: null, reason: "BUDGET", error: describeFailure("BUDGET") };
+  }
+
+  const provider = getConfiguredProviderId();
+  const useMock = provider === "mock";
+  const turns = recentRefinements(refinements);
+  const startedAt = Date.now();
+  let attempts = 0;
+  const result = await runGeneration(signal => {
+    attempts++;
+    return useMock
+      ? generateWithProvider(mockProvider, contentImage, styleReferences, customPrompt, turns, signal, getLocale(), characterReferences, settings, characterTraits)
+      : requestViaProxy({ contentImage, styleReferences, prompt: customPrompt, refinements: turns, locale: getLocale(), characterReferences, characterTraits, settings }, signal);
+  }, options, useMock ? mockProvider.label : "Gemini");
+
+  // Cancelled before the first attempt: nothing reached the model
+  if (attempts === 0) return result;
+
+  recordUsage({
+    model: settings.model,
+    provider,
+    kind: context?.kind ?? (refinements.length > 0 ? "refine" : "generate"),
+    presetId: context?.presetId ?? "",
+    presetName: context?.presetName ?? "",
+    outcome: result.imageUrl ? "SUCCESS" : result.reason ?? "UNKNOWN",
+    latencyMs: Date.now() - startedAt,
+    attempts,
+    ...usageOf(result),
+  });
+  return result;
+};
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { beforeEach, mock, test } from "node:test";
+import { GenerationError, RetryOptions, toGenerationError, withRetry } from "./generationErrors";
+
+const options = (overrides: Partial<RetryOptions> = {}): RetryOptions => ({
+  maxRetries: 2,
+  baseDelayMs: 10,
+  timeoutMs: 0,
+  ...overrides,
+});
+
+// Attempt that fails with each error in turn, then succeeds
+const failing = (...errors: unknown[]) => {
+  const calls: number[] = [];
+  const attempt = async () => {
+    calls.push(Date.now());
+    if (calls.length <= errors.length) throw errors[calls.length - 1];
+    return "ok";
+  };
+  return { attempt, calls };
+};
+
+const rejectsWith = (reason: string) => (error: unknown) => error instanceof GenerationError && error.reason === reason;
+
+beforeEach(() => {
+  mock.method(console, "warn", () => {});
+});
+
+test("errors are classified by status, name and message", () => {
+  assert.equal(toGenerationError(Object.assign(new Error("quota"), { status: 429 })).reason, "RATE_LIMIT");
+  assert.equal(toGenerationError(Object.assign(new Error("x"), { name: "AbortError" })).reason, "CANCELLED");
+  assert.equal(toGenerationError(new TypeError("Failed to fetch")).reason, "NETWORK");
+  assert.equal(toGenerationError(new Error("API key not valid")).reason, "AUTH");
+  assert.equal(toGenerationError("boom").reason, "UNKNOWN");
+});
+
+test("transient failures are retried with growing delays", async () => {
+  const { attempt, calls } = failing(new GenerationError("UPSTREAM", "503"), new GenerationError("NETWORK", "reset"));
+  assert.equal(await withRetry(attempt, options({ baseDelayMs: 20 })), "ok");
+  assert.equal(calls.length, 3);
+  assert.ok(calls[1] - calls[0] >= 20);
+  assert.ok(calls[2] - calls[1] >= 40);
+});
+
+test("the last failure is thrown once retries run out", async () => {
+  const { attempt, calls } = failing(...Array(3).fill(new GenerationError("UPSTREAM", "503")));
+  await assert.rejects(withRetry(attempt, options()), rejectsWith("UPSTREAM"));
+  assert.equal(calls.length, 3);
+});
+
+test("permanent failures are not retried", async () => {
+  const { attempt, calls } = failing(Object.assign(new Error("bad key"), { status: 401 }));
+  await assert.rejects(withRetry(attempt, options()), rejectsWith("AUTH"));
+  assert.equal(calls.length, 1);
+});
+
+test("a longer Retry-After wins over the backoff", async () => {
+  const { attempt, calls } = failing(new GenerationError("RATE_LIMIT", "429", 80));
+  await withRetry(attempt, options());
+  assert.ok(calls[1] - calls[0] >= 80);
+});
+
+test("attempts that outlive the timeout fail as TIMEOUT", async () => {
+  const hanging = () => new Promise<string>(() => {});
+  await assert.rejects(withRetry(hanging, options({ timeoutMs: 20, maxRetries: 0 })), rejectsWith("TIMEOUT"));
+});
+
+test("aborting cancels the running attempt", async () => {
+  const controller = new AbortController();
+  const pending = withRetry(() => new Promise<string>(() => {}), options({ signal: controller.signal }));
+  controller.abort();
+  await assert.rejects(pending, rejectsWith("CANCELLED"));
+});
+
+test("aborting cancels a pending retry wait", async () => {
+  const controller = new AbortController();
+  const { attempt, calls } = failing(new GenerationError("UPSTREAM", "503"));
+  const pending = withRetry(attempt, options({ baseDelayMs: 10_000, signal: controller.signal }));
+  setTimeout(() => controller.abort(), 10);
+  const startedAt = Date.now();
+  await assert.rejects(pending, rejectsWith("CANCELLED"));
+  assert.ok(Date.now() - startedAt < 1000);
+  assert.equal(calls.length, 1);
+});
+
+test("an already aborted signal sends nothing", async () => {
+  const { attempt, calls } = failing();
+  await assert.rejects(withRetry(attempt, options({ signal: AbortSignal.abort() })), rejectsWith("CANCELLED"));
+  assert.equal(calls.length, 0);
+});
@@ -0,0 +1,159 @@
+import { GenerationFailureReason } from "../types";
+import { getLocale, Locale, translate } from "./i18n";
+
+/**
+ * Error taxonomy for generation requests. Every failure is classified into a
+ * `GenerationFailureReason`; only the transient classes are retried, and each
+ * class maps to a message telling the user what to do next.
+ */
+
+export class GenerationError extends Error {
+  constructor(
+    public reason: GenerationFailureReason,
+    message: string,
+    // Server-provided wait before retrying (Retry-After), if any
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "GenerationError";
+  }
+}
+
+export const TRANSIENT_REASONS: GenerationFailureReason[] = ["RATE_LIMIT", "NETWORK", "TIMEOUT", "UPSTREAM"];
+
+export const isTransient = (reason: GenerationFailureReason): boolean => TRANSIENT_REASONS.includes(reason);
+
+/**
+ * User-facing message for a failure in `locale`. Model text replies, request
+ * validation errors and unclassified errors keep their detail since the
+ * generic text alone would not explain them.
+ */
+export const describeFailure = (
+  reason: GenerationFailureReason,
+  detail?: string,
+  locale: Locale = getLocale()
+): string => {
+  const message = translate(locale, `error.${reason}`);
+  if (detail && (reason === "TEXT_ONLY" || reason === "INVALID_REQUEST" || reason === "UNKNOWN")) {
+    return translate(locale, "error.withDetail", { message, detail });
+  }
+  return message;
+};
+
+export const reasonForStatus = (status: number): GenerationFailureReason => {
+  if (status === 401 || status === 403) return "AUTH";
+  if (status === 408 || status === 504) return "TIMEOUT";
+  if (status === 413) return "TOO_LARGE";
+  if (status === 429) return "RATE_LIMIT";
+  if (status >= 500) return "UPSTREAM";
+  if (status >= 400) return "INVALID_REQUEST";
+  return "UNKNOWN";
+};
+
+/**
+ * Classifies anything thrown by fetch, a provider SDK or our own code.
+ */
+export const toGenerationError = (error: any): GenerationError => {
+  if (error instanceof GenerationError) return error;
+
+  const message: string = error?.message || String(error);
+  if (error?.name === "AbortError") {
+    return new GenerationError("CANCELLED", message);
+  }
+  // SDK errors (e.g. @google/genai ApiError) carry the HTTP status
+  if (typeof error?.status === "number") {
+    return new GenerationError(reasonForStatus(error.status), message);
+  }
+  if (/api key/i.test(message)) {
+    return new GenerationError("AUTH", message);
+  }
+  // fetch rejects with a TypeError when the connection itself fails
+  if (error instanceof TypeError || /network|fetch failed|ECONNREFUSED|ECONNRESET/i.test(message)) {
+    return new GenerationError("NETWORK", message);
+  }
+  return new GenerationError("UNKNOWN", message);
+};
+
+export interface RetryOptions {
+  // Retries after the first attempt, for transient failures only
+  maxRetries: number;
+  baseDelayMs: number;
+  // Per-attempt limit; 0 disables the timeout
+  timeoutMs: number;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_TIMEOUT_MS = 120 * 1000;
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  timeoutMs: Number(process.env.GENERATION_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS,
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new GenerationError("CANCELLED", "Aborted"));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new GenerationError("CANCELLED", "Aborted"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+};
+
+/**
+ * Runs `attempt` with a per-attempt timeout, retrying transient failures with
+ * exponential backoff (base, 2×base, 4×base… plus jitter, or the server's
+ * Retry-After when longer). Aborting `signal` cancels the current attempt and
+ * any pending wait.
+ */
+export const withRetry = async <T>(
+  attempt: (signal: AbortSignal) => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS
+): Promise<T> => {
+  for (let retry = 0; ; retry++) {
+    if (options.signal?.aborted) throw new GenerationError("CANCELLED", "Aborted");
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+    const timer = options.timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, options.timeoutMs)
+      : undefined;
+
+    // Settle on abort even if the attempt ignores its signal
+    const aborted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener("abort", () => reject(new GenerationError("CANCELLED", "Aborted")), { once: true });
+    });
+
+    try {
+      return await Promise.race([attempt(controller.signal), aborted]);
+    } catch (error) {
+      let classified = toGenerationError(error);
+      if (timedOut) {
+        classified = new GenerationError("TIMEOUT", `No response after ${options.timeoutMs} ms`);
+      }
+      if (!isTransient(classified.reason) || retry >= options.maxRetries) {
+        throw classified;
+      }
+      const backoff = options.baseDelayMs * 2 ** retry * (1 + Math.random() * 0.25);
+      console.warn(`Generation attempt ${retry + 1} failed (${classified.reason}), retrying:`, classified.message);
+      await sleep(Math.max(backoff, classified.retryAfterMs || 0), options.signal);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+    }
+  }
+};
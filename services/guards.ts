@@ -0,0 +1,17 @@
+/**
+ * Type guards for data read from files, storage and requests, which stays
+ * `unknown` until it has been checked.
+ */
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+};
+
+export const isStringRecord = (value: unknown): value is Record<string, string> => {
+  return isRecord(value) && Object.values(value).every(v => typeof v === "string");
+};
+
+// Base64 image data URL, the form every image is stored in
+export const isDataUrl = (value: unknown): value is string => {
+  return typeof value === "string" && /^data:image\/[\w.+-]+;base64,/.test(value);
+};
@@ -0,0 +1,59 @@
+import { HistoryEntry } from "../types";
+import { createIndexedDbStore } from "./indexedDbStore";
+import { createStyleReference } from "./styleReferences";
+
+const STORE_NAME = "history";
+
+const historyStore = createIndexedDbStore({
+  dbName: "chibify",
+  version: 1,
+  storeName: STORE_NAME,
+  upgrade: db => {
+    const store = db.createObjectStore(STORE_NAME, { keyPath: "id" });
+    store.createIndex("createdAt", "createdAt");
+  },
+  openFailed: "history.openFailed",
+  opFailed: "history.opFailed",
+});
+
+// Entries saved before multiple style references stored a single `styleImage`
+type StoredHistoryEntry = HistoryEntry & { styleImage?: string | null };
+
+const upgradeEntry = ({ styleImage, ...entry }: StoredHistoryEntry): HistoryEntry => ({
+  ...entry,
+  styleReferences: entry.styleReferences ?? (styleImage ? [createStyleReference(styleImage)] : []),
+});
+
+/**
+ * Returns all entries, newest first.
+ */
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  const entries = await historyStore.request<StoredHistoryEntry[]>("readonly", store => store.getAll());
+  return entries.map(upgradeEntry).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const putHistoryEntry = async (entry: HistoryEntry): Promise<void> => {
+  await historyStore.request("readwrite", store => store.put(entry));
+};
+
+export const deleteHistoryEntries = async (ids: string[]): Promise<void> => {
+  await historyStore.batch("readwrite", store => ids.forEach(id => store.delete(id)), "history.deleteFailed");
+};
+
+export const clearHistory = async (): Promise<void> => {
+  await historyStore.request("readwrite", store => store.clear());
+};
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+/**
+ * Browser-wide storage estimate for this origin, or null where unsupported.
+ */
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
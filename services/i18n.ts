@@ -0,0 +1,109 @@
+import { zhCN } from "./locales/zh-CN";
+import { en } from "./locales/en";
+
+/**
+ * Message catalogs and lookup.
+ *
+ * zh-CN is the reference catalog. A key missing from the active locale falls
+ * back to zh-CN (and to the key itself as a last resort); every miss is
+ * logged once and collected so gaps can be found with `getMissingKeys` or
+ * audited up front with `findMissingKeys`.
+ */
+
+export type Locale = "zh-CN" | "en";
+export type MessageKey = keyof typeof zhCN;
+export type Messages = Partial<Record<MessageKey, string>>;
+export type MessageParams = Record<string, string | number>;
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: "zh-CN", label: "中文" },
+  { id: "en", label: "English" },
+];
+
+export const FALLBACK_LOCALE: Locale = "zh-CN";
+
+const LOCALE_KEY = "chibify.locale";
+
+const CATALOGS: Record<Locale, Messages> = {
+  "zh-CN": zhCN,
+  en,
+};
+
+const missingKeys = new Set<string>();
+
+export const isLocale = (value: unknown): value is Locale => {
+  return LOCALES.some(locale => locale.id === value);
+};
+
+/**
+ * Maps a language tag or Accept-Language header to a supported locale:
+ * any Chinese tag becomes zh-CN, anything else English.
+ */
+export const resolveLocale = (language: string | null | undefined): Locale => {
+  const first = language?.split(",")[0]?.trim().toLowerCase();
+  if (!first) return FALLBACK_LOCALE;
+  return first.startsWith("zh") ? "zh-CN" : "en";
+};
+
+const loadLocale = (): Locale => {
+  try {
+    const stored = typeof localStorage !== "undefined" ? localStorage.getItem(LOCALE_KEY) : null;
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Storage can be unavailable (private mode, non-browser runtimes)
+  }
+  return resolveLocale(typeof navigator !== "undefined" ? navigator.language : null);
+};
+
+let currentLocale: Locale = loadLocale();
+
+export const getLocale = (): Locale => currentLocale;
+
+export const setLocale = (locale: Locale): void => {
+  currentLocale = locale;
+  try {
+    localStorage.setItem(LOCALE_KEY, locale);
+  } catch {
+    // Not persisted, but still applied for this session
+  }
+  if (typeof document !== "undefined") {
+    document.documentElement.lang = locale;
+  }
+};
+
+const interpolate = (message: string, params?: MessageParams): string => {
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => name in params ? String(params[name]) : match);
+};
+
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string => {
+  let message = CATALOGS[locale][key];
+  if (message === undefined) {
+    const id = `${locale}:${key}`;
+    if (!missingKeys.has(id)) {
+      missingKeys.add(id);
+      console.warn(`[i18n] Missing message "${key}" for locale ${locale}`);
+    }
+    message = CATALOGS[FALLBACK_LOCALE][key] ?? key;
+  }
+  return interpolate(message, params);
+};
+
+/**
+ * Translates into the active locale.
+ */
+export const t = (key: MessageKey, params?: MessageParams): string => {
+  return translate(currentLocale, key, params);
+};
+
+/**
+ * Keys of the reference catalog that `locale` does not define.
+ */
+export const findMissingKeys = (locale: Locale): MessageKey[] => {
+  return (Object.keys(zhCN) as MessageKey[]).filter(key => CATALOGS[locale][key] === undefined);
+};
+
+/**
+ * `locale:key` pairs that were looked up and fell back since startup.
+ */
+export const getMissingKeys = (): string[] => Array.from(missingKeys);
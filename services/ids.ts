@@ -0,0 +1,8 @@
+/**
+ * Ids for records kept in the browser: time-ordered, with a random suffix so
+ * records created in the same millisecond do not collide.
+ */
+export const createId = (prefix?: string): string => {
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  return prefix ? `${prefix}-${id}` : id;
+};
@@ -0,0 +1,26 @@
+import assert from "node:assert/strict";
+import { afterEach, test } from "node:test";
+import { DEFAULT_PREPROCESS_OPTIONS, loadPreprocessOptions } from "./imagePreprocess";
+
+const installStorage = (saved: string) => {
+  Object.assign(globalThis, { localStorage: { getItem: () => saved } });
+};
+
+afterEach(() => {
+  delete (globalThis as { localStorage?: Storage }).localStorage;
+});
+
+test("saved preprocess options are kept when valid", () => {
+  const saved = { maxDimension: 2048, outputType: "image/webp", quality: 0.8, cropOnUpload: true };
+  installStorage(JSON.stringify(saved));
+  assert.deepEqual(loadPreprocessOptions(), saved);
+});
+
+test("invalid saved fields fall back to their defaults one by one", () => {
+  installStorage(JSON.stringify({ maxDimension: 99999, outputType: "image/gif", quality: "high", cropOnUpload: true }));
+  assert.deepEqual(loadPreprocessOptions(), { ...DEFAULT_PREPROCESS_OPTIONS, cropOnUpload: true });
+  installStorage("null");
+  assert.deepEqual(loadPreprocessOptions(), DEFAULT_PREPROCESS_OPTIONS);
+  installStorage("{");
+  assert.deepEqual(loadPreprocessOptions(), DEFAULT_PREPROCESS_OPTIONS);
+});
@@ -0,0 +1,193 @@
+/**
+ * Normalizes uploaded images before they are used as model inputs: detects
+ * the real format from the file header, honors EXIF orientation, downscales,
+ * and re-encodes through a canvas (which drops all EXIF/metadata).
+ */
+
+import { isRecord } from "./guards";
+import { t } from "./i18n";
+
+export type ImageFormat = "image/png" | "image/jpeg" | "image/webp" | "image/gif" | "image/bmp" | "image/heic";
+export type OutputType = "auto" | "image/png" | "image/jpeg" | "image/webp";
+
+export interface PreprocessOptions {
+  maxDimension: number;
+  outputType: OutputType;
+  quality: number;
+  cropOnUpload: boolean;
+}
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+/**
+ * Crop rectangle in fractions (0..1) of the rotated image.
+ */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageTransform {
+  rotation: Rotation;
+  crop: CropRect | null;
+}
+
+export const MAX_DIMENSION_OPTIONS = [1024, 1536, 2048];
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxDimension: 1536,
+  outputType: "auto",
+  quality: 0.92,
+  cropOnUpload: false,
+};
+
+const SETTINGS_KEY = "chibify.preprocess";
+
+export const OUTPUT_TYPES: OutputType[] = ["auto", "image/png", "image/jpeg", "image/webp"];
+
+const isMaxDimension = (value: unknown): value is number => MAX_DIMENSION_OPTIONS.includes(value as number);
+
+const isOutputType = (value: unknown): value is OutputType => OUTPUT_TYPES.includes(value as OutputType);
+
+// Saved fields that are missing or invalid fall back to their defaults one by one
+export const loadPreprocessOptions = (): PreprocessOptions => {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(SETTINGS_KEY) || "{}");
+    const { maxDimension, outputType, quality, cropOnUpload } = isRecord(saved) ? saved : {};
+    return {
+      maxDimension: isMaxDimension(maxDimension) ? maxDimension : DEFAULT_PREPROCESS_OPTIONS.maxDimension,
+      outputType: isOutputType(outputType) ? outputType : DEFAULT_PREPROCESS_OPTIONS.outputType,
+      quality: typeof quality === "number" && quality > 0 && quality <= 1 ? quality : DEFAULT_PREPROCESS_OPTIONS.quality,
+      cropOnUpload: typeof cropOnUpload === "boolean" ? cropOnUpload : DEFAULT_PREPROCESS_OPTIONS.cropOnUpload,
+    };
+  } catch {
+    return DEFAULT_PREPROCESS_OPTIONS;
+  }
+};
+
+export const savePreprocessOptions = (options: PreprocessOptions): void => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(options));
+};
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0): boolean => {
+  return signature.every((byte, i) => bytes[offset + i] === byte);
+};
+
+const ascii = (bytes: Uint8Array, offset: number, length: number): string => {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+};
+
+/**
+ * Identifies an image from its magic bytes, ignoring the file name and the
+ * browser-reported MIME type (both are often wrong for converted files).
+ */
+export const detectImageFormat = (bytes: Uint8Array): ImageFormat | null => {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") return "image/webp";
+  if (ascii(bytes, 0, 4) === "GIF8") return "image/gif";
+  if (ascii(bytes, 0, 2) === "BM") return "image/bmp";
+  if (ascii(bytes, 4, 4) === "ftyp" && /^(heic|heix|hevc|hevx|mif1|msf1)$/.test(ascii(bytes, 8, 4))) return "image/heic";
+  return null;
+};
+
+export const getDataUrlMimeType = (dataUrl: string): string => {
+  return dataUrl.match(/^data:([^;,]+)/)?.[1] || "image/png";
+};
+
+const resolveOutputType = (outputType: OutputType, sourceType: string): Exclude<OutputType, "auto"> => {
+  if (outputType !== "auto") return outputType;
+  // Formats that may carry transparency stay lossless; photos become JPEG
+  return sourceType === "image/png" || sourceType === "image/gif" || sourceType === "image/webp"
+    ? "image/png"
+    : "image/jpeg";
+};
+
+const decode = async (blob: Blob, format: string): Promise<ImageBitmap> => {
+  try {
+    // "from-image" applies the EXIF orientation while decoding
+    return await createImageBitmap(blob, { imageOrientation: "from-image" });
+  } catch {
+    throw new Error(t(format === "image/heic" ? "file.heicUnsupported" : "file.decodeFailed"));
+  }
+};
+
+const render = (
+  source: ImageBitmap,
+  transform: ImageTransform,
+  options: PreprocessOptions,
+  outputType: Exclude<OutputType, "auto">
+): string => {
+  const quarterTurn = transform.rotation === 90 || transform.rotation === 270;
+  const rotatedWidth = quarterTurn ? source.height : source.width;
+  const rotatedHeight = quarterTurn ? source.width : source.height;
+
+  const rotated = document.createElement("canvas");
+  rotated.width = rotatedWidth;
+  rotated.height = rotatedHeight;
+  const rotatedCtx = rotated.getContext("2d")!;
+  rotatedCtx.translate(rotatedWidth / 2, rotatedHeight / 2);
+  rotatedCtx.rotate((transform.rotation * Math.PI) / 180);
+  rotatedCtx.drawImage(source, -source.width / 2, -source.height / 2);
+
+  const crop = transform.crop || { x: 0, y: 0, width: 1, height: 1 };
+  const sx = Math.round(crop.x * rotatedWidth);
+  const sy = Math.round(crop.y * rotatedHeight);
+  const sw = Math.max(1, Math.round(crop.width * rotatedWidth));
+  const sh = Math.max(1, Math.round(crop.height * rotatedHeight));
+  const scale = Math.min(1, options.maxDimension / Math.max(sw, sh));
+
+  const output = document.createElement("canvas");
+  output.width = Math.max(1, Math.round(sw * scale));
+  output.height = Math.max(1, Math.round(sh * scale));
+  const ctx = output.getContext("2d")!;
+  if (outputType === "image/jpeg") {
+    // JPEG has no alpha; flatten onto white like the generated stickers
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, output.width, output.height);
+  }
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(rotated, sx, sy, sw, sh, 0, 0, output.width, output.height);
+
+  return output.toDataURL(outputType, options.quality);
+};
+
+const IDENTITY: ImageTransform = { rotation: 0, crop: null };
+
+/**
+ * Reads an uploaded file and returns a normalized data URL.
+ */
+export const preprocessImageFile = async (file: Blob, options: PreprocessOptions): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const format = detectImageFormat(bytes);
+  if (!format) {
+    throw new Error(t("file.unknownFormat"));
+  }
+
+  const bitmap = await decode(new Blob([bytes], { type: format }), format);
+  try {
+    return render(bitmap, IDENTITY, options, resolveOutputType(options.outputType, format));
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Applies a rotation and crop to an already preprocessed data URL.
+ */
+export const transformImage = async (
+  dataUrl: string,
+  transform: ImageTransform,
+  options: PreprocessOptions
+): Promise<string> => {
+  const blob = await (await fetch(dataUrl)).blob();
+  const format = getDataUrlMimeType(dataUrl);
+  const bitmap = await decode(blob, format);
+  try {
+    return render(bitmap, transform, options, resolveOutputType(options.outputType, format));
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,80 @@
+/**
+ * Transport-level contract shared by every image generation backend.
+ *
+ * Providers receive the already-built conversation and return a response in
+ * the Gemini `generateContent` shape, so request building and response parsing
+ * in `geminiService.ts` stay identical no matter which backend is active.
+ */
+
+export interface ContentPart {
+  text?: string;
+  inlineData?: {
+    mimeType?: string;
+    data?: string;
+  };
+}
+
+export interface ProviderTurn {
+  role: "user" | "model";
+  parts: ContentPart[];
+}
+
+// Generation parameters, only present when the chosen model supports them
+export interface ProviderGenerationConfig {
+  temperature?: number;
+  seed?: number;
+  imageConfig?: {
+    aspectRatio?: string;
+  };
+}
+
+export interface ProviderRequest {
+  model: string;
+  contents: ProviderTurn[];
+  config?: ProviderGenerationConfig;
+  signal?: AbortSignal;
+}
+
+export interface ProviderCandidate {
+  finishReason?: string;
+  content?: {
+    parts?: ContentPart[];
+  };
+}
+
+export interface ProviderUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+export interface ProviderResponse {
+  candidates?: ProviderCandidate[];
+  usageMetadata?: ProviderUsageMetadata;
+}
+
+export interface ImageProvider {
+  id: ProviderId;
+  label: string;
+  generateContent(request: ProviderRequest): Promise<ProviderResponse>;
+}
+
+export type ProviderId = "gemini" | "mock";
+
+const PROVIDER_OVERRIDE_KEY = "chibify.provider";
+
+/**
+ * Resolves the active provider id. A localStorage override (handy while
+ * developing) wins over the IMAGE_PROVIDER setting; Gemini is the default.
+ * In the browser "gemini" means going through the proxy server.
+ */
+export const getConfiguredProviderId = (): ProviderId => {
+  let override: string | null = null;
+  try {
+    override = typeof localStorage !== "undefined" ? localStorage.getItem(PROVIDER_OVERRIDE_KEY) : null;
+  } catch {
+    // Storage can be unavailable (private mode, non-browser runtimes)
+  }
+  const configured = override || process.env.IMAGE_PROVIDER;
+  return configured === "mock" ? "mock" : "gemini";
+};
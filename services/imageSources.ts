@@ -0,0 +1,100 @@
+/**
+ * Turns the ways an image can arrive (drop, paste, URL, camera) into a `File`
+ * so every source goes through the same validation and preprocessing as the
+ * file picker.
+ */
+
+import { t } from "./i18n";
+
+const fileNameFromUrl = (url: URL): string => {
+  const name = decodeURIComponent(url.pathname.split("/").pop() || "");
+  return name || "image";
+};
+
+/**
+ * First image file in a drop or paste payload, if any.
+ */
+export const imageFileFromDataTransfer = (data: DataTransfer | null): File | null => {
+  if (!data) return null;
+  for (const item of Array.from(data.items)) {
+    if (item.kind === "file" && item.type.startsWith("image/")) {
+      const file = item.getAsFile();
+      if (file) return file;
+    }
+  }
+  // Some platforms only fill `files` (e.g. files dragged from the desktop with an empty type)
+  return data.files[0] || null;
+};
+
+/**
+ * An image dragged from another web page arrives as a link, not a file.
+ */
+export const imageUrlFromDataTransfer = (data: DataTransfer | null): string | null => {
+  const uri = data?.getData("text/uri-list").split(/\r?\n/).find(line => line && !line.startsWith("#"));
+  return uri || null;
+};
+
+/**
+ * Downloads an image from an http(s) or data URL. The browser hides the
+ * reason a cross-origin fetch failed, so network and CORS errors share one
+ * message that suggests downloading the file instead.
+ */
+export const fetchImageFile = async (rawUrl: string, signal?: AbortSignal): Promise<File> => {
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    throw new Error(t("source.invalidUrl"));
+  }
+  if (!["http:", "https:", "data:"].includes(url.protocol)) {
+    throw new Error(t("source.invalidUrl"));
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url.href, { mode: "cors", signal });
+  } catch (error) {
+    if ((error as Error)?.name === "AbortError") throw error;
+    throw new Error(t("source.fetchBlocked"));
+  }
+  if (!response.ok) {
+    throw new Error(t("source.httpError", { status: response.status }));
+  }
+
+  const blob = await response.blob();
+  const type = blob.type || response.headers.get("Content-Type") || "";
+  return new File([blob], url.protocol === "data:" ? "pasted-image" : fileNameFromUrl(url), { type: type.split(";")[0] });
+};
+
+/**
+ * Grabs the current video frame as a PNG file.
+ */
+export const captureVideoFrame = (video: HTMLVideoElement): Promise<File> => {
+  const canvas = document.createElement("canvas");
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  canvas.getContext("2d")!.drawImage(video, 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob
+      ? resolve(new File([blob], `camera-${Date.now()}.png`, { type: "image/png" }))
+      : reject(new Error(t("file.encodeFailed"))), "image/png");
+  });
+};
+
+/**
+ * Maps getUserMedia failures to a message the user can act on.
+ */
+export const describeCameraError = (error: unknown): string => {
+  switch ((error as DOMException)?.name) {
+    case "NotAllowedError":
+    case "SecurityError":
+      return t("webcam.denied");
+    case "NotFoundError":
+    case "OverconstrainedError":
+      return t("webcam.notFound");
+    case "NotReadableError":
+      return t("webcam.busy");
+    default:
+      return t("webcam.failed");
+  }
+};
@@ -0,0 +1,68 @@
+/**
+ * Promise wrapper around a single IndexedDB object store. Each feature keeps
+ * its data in its own database, so their schema versions never interact.
+ */
+
+import { MessageKey, t } from "./i18n";
+
+export interface IndexedDbStoreOptions {
+  dbName: string;
+  version: number;
+  storeName: string;
+  // Creates the store and its indexes on first open
+  upgrade: (db: IDBDatabase) => void;
+  openFailed: MessageKey;
+  opFailed: MessageKey;
+}
+
+export interface IndexedDbStore {
+  // Runs one request and resolves with its result once the transaction commits
+  request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T>;
+  // Runs any number of requests in one transaction
+  batch(mode: IDBTransactionMode, run: (store: IDBObjectStore) => void, failed?: MessageKey): Promise<void>;
+}
+
+export const createIndexedDbStore = (options: IndexedDbStoreOptions): IndexedDbStore => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(options.dbName, options.version);
+        request.onupgradeneeded = () => options.upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          dbPromise = null;
+          reject(new Error(t(options.openFailed)));
+        };
+      });
+    }
+    return dbPromise;
+  };
+
+  const transact = async (mode: IDBTransactionMode, run: (store: IDBObjectStore) => void, failed: MessageKey) => {
+    const db = await openDb();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(options.storeName, mode);
+      const fail = () => reject(tx.error || new Error(t(failed)));
+      tx.oncomplete = () => resolve();
+      tx.onerror = fail;
+      // Running out of quota aborts the transaction without an error event
+      tx.onabort = fail;
+      run(tx.objectStore(options.storeName));
+    });
+  };
+
+  return {
+    async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+      let request: IDBRequest<T> | undefined;
+      await transact(mode, store => {
+        request = run(store);
+      }, options.opFailed);
+      return request!.result;
+    },
+    batch(mode, run, failed = options.opFailed) {
+      return transact(mode, run, failed);
+    },
+  };
+};
@@ -0,0 +1,457 @@
+import { Messages } from "../i18n";
+
+export const en: Messages = {
+  // Header and layout
+  "app.title": "Chibify Style Converter",
+  "app.poweredBy": "Powered by {model}",
+  "app.mockMode": "Offline mock mode",
+  "app.language": "Language",
+  "mode.single": "Single",
+  "mode.batch": "Batch",
+  "mode.sheet": "Sticker sheet",
+
+  // Upload cards
+  "upload.heading": "Upload images",
+  "upload.hintSingle": "Upload a style reference (optional) and the character to convert.",
+  "upload.hintBatch": "Upload a style reference (optional), then add the characters to convert on the right.",
+  "upload.hintSheet": "Upload a style reference (optional) and the character to draw with every expression.",
+  "upload.styleTitle": "Style reference",
+  "upload.styleHint": "One or more styles you want to imitate",
+  "upload.optional": "(optional)",
+  "upload.contentBadge": "Character",
+  "upload.contentTitle": "Character photo",
+  "upload.contentHint": "The character you want to convert",
+  "upload.required": "(required)",
+  "upload.cropContent": "Crop character photo",
+  "upload.cropStyle": "Crop style reference",
+
+  // Style references
+  "styleRef.add": "Add reference ({count}/{max})",
+  "styleRef.remove": "Remove reference",
+  "styleRef.role": "Role",
+  "styleRef.weight": "Strength",
+  "styleRef.role.overall": "Overall style",
+  "styleRef.role.linework": "Line work",
+  "styleRef.role.coloring": "Coloring",
+  "styleRef.role.shading": "Shading & texture",
+
+  // Other input sources
+  "source.urlPlaceholder": "Paste an image link (https://...)",
+  "source.importStyle": "Import as style reference",
+  "source.importContent": "Import as character",
+  "source.camera": "Take photo",
+  "source.hint": "You can also drop images onto a card, or select a card and press Ctrl+V to paste.",
+  "source.invalidUrl": "Please enter a valid image link (http, https or data:).",
+  "source.fetchBlocked": "Could not download the image: the network is unavailable or the site does not allow cross-origin access (CORS). Save the image and upload the file instead.",
+  "source.httpError": "Downloading the image failed (HTTP {status}).",
+  "webcam.title": "Take a character photo",
+  "webcam.capture": "Capture",
+  "webcam.cancel": "Cancel",
+  "webcam.unsupported": "This browser or page cannot use the camera (https or localhost is required).",
+  "webcam.denied": "Camera access was denied. Allow it in the browser settings.",
+  "webcam.notFound": "No camera was found.",
+  "webcam.busy": "The camera is in use by another application.",
+  "webcam.failed": "Could not start the camera.",
+
+  // Generation controls
+  "controls.variantCount": "Candidates",
+  "controls.generate": "Generate chibi",
+  "controls.generating": "Converting...",
+  "controls.cancel": "Cancel",
+  "controls.missingContent": "Please upload at least a character photo.",
+  "controls.emptyPrompt": "The prompt cannot be empty.",
+  "controls.allVariantsFailed": "All {count} candidates failed: {error}",
+
+  // Result column
+  "result.heading": "Result",
+  "result.hintSingle": "Your chibi character will appear here.",
+  "result.hintBatch": "Status and result of every image in the batch queue.",
+  "result.hintSheet": "One sticker per expression, all drawn as the same character.",
+  "result.download": "Download",
+  "result.drawing": "The AI is drawing...",
+  "result.placeholder": "The result will appear here",
+
+  // Generation failures, one per GenerationFailureReason
+  "error.SAFETY": "The model declined for safety reasons. Try a different photo or remove potentially sensitive wording from the prompt.",
+  "error.TEXT_ONLY": "The model replied with text instead of an image. Try a clearer front-facing photo or a simpler prompt.",
+  "error.EMPTY_RESPONSE": "The model returned nothing. Try again later or use a different image.",
+  "error.NO_IMAGE": "The response contained no image. Try once more; if it keeps happening, simplify the prompt.",
+  "error.RATE_LIMIT": "Too many requests or quota exhausted. Wait a minute, or lower the candidate count and batch concurrency.",
+  "error.NETWORK": "Cannot reach the image service. Check your connection and make sure the proxy (npm run server) is running.",
+  "error.TIMEOUT": "Generation timed out. The service may be busy; try again later or lower the image size in the upload settings.",
+  "error.AUTH": "The API key is missing or invalid. Set a valid GEMINI_API_KEY in the server's .env.local and restart the proxy.",
+  "error.UPSTREAM": "The image service is temporarily unavailable. Please try again later.",
+  "error.TOO_LARGE": "The image is too large for the server. Lower the maximum size in the upload settings and upload again.",
+  "error.INVALID_REQUEST": "The request was rejected.",
+  "error.CANCELLED": "Generation cancelled.",
+  "error.BUDGET": "The usage budget is used up. Raise or remove it in the Usage section to keep generating.",
+  "error.UNKNOWN": "Something unexpected went wrong. Please try again.",
+  "error.withDetail": "{message} ({detail})",
+
+  // Upload validation and preprocessing
+  "file.invalidType": "Please upload a valid image file.",
+  "file.tooLarge": "The file is too large; please use an image under {limit}.",
+  "file.heicUnsupported": "This browser cannot decode HEIC images. Convert it to JPEG or PNG first.",
+  "file.decodeFailed": "Could not decode the image; the file may be corrupted.",
+  "file.unknownFormat": "Unrecognized image format. Please upload a PNG, JPEG, WebP or GIF image.",
+  "file.encodeFailed": "Failed to encode the image.",
+
+  // Prompt editor and template warnings
+  "prompt.label": "Style prompt",
+  "prompt.reset": "Reset",
+  "prompt.placeholder": "Describe the style you want...",
+  "prompt.customHint": "Prompt edited. Use {{name|default}} to add fillable variables below.",
+  "prompt.warningEmpty": "The prompt is empty.",
+  "prompt.warningStyleMissing": "The prompt refers to a style reference, but none is uploaded.",
+  "prompt.warningMissingVariables": "These variables are not filled in: {names}.",
+  "prompt.listSeparator": ", ",
+  "variable.accessory": "Accessory",
+  "variable.background": "Background",
+  "variable.expression": "Expression",
+
+  // Built-in presets
+  "preset.sunglasses.name": "Sunglasses chibi",
+  "preset.sunglasses.single": "Prompt: redraw the photo as a chibi.",
+  "preset.sunglasses.withStyle": "Prompt: keep image 2's hair and outfit, use image 1's art style.",
+  "preset.pixel.name": "Pixel art",
+  "preset.pixel.single": "Prompt: redraw the photo as low-resolution pixel art.",
+  "preset.pixel.withStyle": "Prompt: keep image 2's character, use image 1's palette, output pixel art.",
+  "preset.lineart.name": "Line-art sticker",
+  "preset.lineart.single": "Prompt: redraw the photo as pure black line art.",
+  "preset.lineart.withStyle": "Prompt: keep image 2's character, imitate image 1's linework.",
+  "preset.watercolor.name": "Watercolor",
+  "preset.watercolor.single": "Prompt: redraw the photo as a chibi watercolor illustration.",
+  "preset.watercolor.withStyle": "Prompt: keep image 2's character, learn image 1's palette.",
+
+  // Preset panel
+  "presets.label": "Style preset",
+  "presets.builtIn": "Built-in",
+  "presets.mine": "My presets",
+  "presets.new": "New",
+  "presets.edit": "Edit",
+  "presets.duplicate": "Duplicate",
+  "presets.delete": "Delete",
+  "presets.import": "Import",
+  "presets.export": "Export",
+  "presets.newName": "New preset",
+  "presets.copySuffix": "{name} (copy)",
+  "presets.confirmDelete": "Delete the preset \"{name}\"?",
+  "presets.nameRequired": "The preset name cannot be empty.",
+  "presets.readFailed": "Could not read the preset file.",
+  "presets.namePlaceholder": "Preset name",
+  "presets.singlePrompt": "Prompt with a character photo only",
+  "presets.withStylePrompt": "Prompt with a style reference",
+  "presets.labelPlaceholder": "Short description",
+  "presets.cancel": "Cancel",
+  "presets.save": "Save preset",
+  "presets.invalidJson": "The preset file is not valid JSON.",
+  "presets.invalidFormat": "The preset file has an unexpected format.",
+  "presets.empty": "The preset file contains no usable presets.",
+
+  // Model and generation parameters
+  "settings.model": "Model",
+  "settings.aspectRatio": "Aspect ratio",
+  "settings.temperature": "Temperature",
+  "settings.seed": "Seed",
+  "settings.modelDefault": "Default",
+  "settings.seedRandom": "Random",
+  "settings.rollSeed": "Pick a fixed seed",
+  "settings.unsupported": "{model} does not support this setting",
+  "settings.reset": "Reset",
+  "settings.perPreset": "Saved with the preset \"{name}\".",
+
+  // Preprocess settings and cropper
+  "preprocess.maxDimension": "Max size",
+  "preprocess.outputType": "Encoding",
+  "preprocess.auto": "Auto",
+  "preprocess.cropOnUpload": "Crop / rotate after upload",
+  "cropper.hint": "Drag over the image to select the character's head and outfit",
+  "cropper.rotateLeft": "↺ Rotate left",
+  "cropper.rotateRight": "↻ Rotate right",
+  "cropper.free": "Free",
+  "cropper.clear": "Clear selection",
+  "cropper.cancel": "Cancel",
+  "cropper.cropAndUse": "Crop and use",
+  "cropper.useWhole": "Use whole image",
+
+  // Variants and refinement
+  "variants.hint": "Click a candidate to make it the final result",
+  "variants.regenerateRejected": "Regenerate unselected ({count})",
+  "variants.retry": "Retry",
+  "variants.selected": "✓ Selected",
+  "variants.candidate": "Candidate {index}",
+  "refine.heading": "Keep editing",
+  "refine.previous": "← Previous",
+  "refine.next": "Next →",
+  "refine.original": "Original",
+  "refine.originalResult": "Original result",
+  "refine.placeholder": "e.g. make the hair a bit shorter",
+  "refine.submit": "Apply",
+  "refine.branchHint": "Editing from any version starts a new branch; existing versions are kept.",
+  "refine.suggestion1": "Make the hair a bit shorter",
+  "refine.suggestion2": "Make the jacket red",
+  "refine.suggestion3": "Remove the reflections on the sunglasses",
+  "mask.heading": "Regional edit",
+  "mask.open": "Paint area",
+  "mask.close": "Collapse",
+  "mask.hint": "Paint over the area to change; everything else is kept as is.",
+  "mask.brush": "Brush",
+  "mask.eraser": "Eraser",
+  "mask.size": "Brush size",
+  "mask.undo": "Undo",
+  "mask.clear": "Clear",
+  "mask.before": "Before",
+  "mask.after": "After",
+  "mask.placeholder": "e.g. remove the highlight on the sunglasses",
+  "mask.submit": "Edit painted area",
+  "mask.compositeFailed": "Could not composite the edit onto the image.",
+
+  // Batch panel
+  "batch.status.IDLE": "Queued",
+  "batch.status.UPLOADING": "Uploading",
+  "batch.status.GENERATING": "Generating",
+  "batch.status.SUCCESS": "Done",
+  "batch.status.ERROR": "Failed",
+  "batch.addImages": "Add images",
+  "batch.concurrency": "Concurrency",
+  "batch.running": "Converting batch...",
+  "batch.start": "Start ({count})",
+  "batch.stop": "Stop",
+  "batch.downloadAll": "Download all (ZIP)",
+  "batch.clear": "Clear",
+  "batch.emptyTitle": "Choose several character photos",
+  "batch.emptyHint": "Every image uses the same style reference and prompt",
+  "batch.retry": "Retry",
+  "batch.download": "Download",
+  "batch.remove": "Remove",
+  "batch.fileError": "{name}: {error}",
+
+  // History panel
+  "history.heading": "History",
+  "history.count": "{count} entries",
+  "history.storage": " · {used} / {quota} used",
+  "history.allPresets": "All presets",
+  "history.favoritesOnly": "Favorites only",
+  "history.deleteSelected": "Delete selected",
+  "history.clear": "Clear",
+  "history.empty": "Generated images are saved here automatically.",
+  "history.noMatch": "No entries match the filters.",
+  "history.restoreTitle": "Restore to editor",
+  "history.favorite": "Favorite",
+  "history.unfavorite": "Remove favorite",
+  "history.restore": "Restore",
+  "history.rerun": "Regenerate",
+  "history.confirmDelete": "Delete the {count} selected entries?",
+  "history.confirmClear": "Clear the entire history? This cannot be undone.",
+  "history.openFailed": "Could not open the local history database.",
+  "history.opFailed": "History operation failed.",
+  "history.deleteFailed": "Could not delete history entries.",
+
+  // Before/after comparison and share card
+  "compare.show": "Compare",
+  "compare.showResult": "Result only",
+  "compare.before": "Before",
+  "compare.after": "After",
+  "compare.mode.overlay": "Slider",
+  "compare.mode.side": "Side by side",
+  "compare.slider": "Split position",
+  "compare.cardHeading": "Share card",
+  "compare.open": "Create",
+  "compare.close": "Collapse",
+  "compare.layout": "Layout",
+  "compare.layout.landscape": "Landscape",
+  "compare.layout.square": "Square",
+  "compare.layout.portrait": "Portrait",
+  "compare.theme": "Theme",
+  "compare.theme.dark": "Dark",
+  "compare.theme.light": "Light",
+  "compare.captionPlaceholder": "Caption (optional)",
+  "compare.watermark": "Watermark",
+  "compare.export": "Download card",
+  "compare.renderFailed": "Could not draw the share card.",
+
+  // Expression sheet
+  "sheet.pickHint": "Choose the expressions for the pack (up to {max}).",
+  "sheet.customPlaceholder": "Add your own, e.g. waving goodbye",
+  "sheet.add": "Add",
+  "sheet.generate": "Generate ({count})",
+  "sheet.running": "Drawing stickers...",
+  "sheet.stop": "Stop",
+  "sheet.consistent": "Keep the character consistent",
+  "sheet.consistentHint": "Send the reference sticker with every other expression so they all show the same character",
+  "sheet.needContent": "Upload a character photo first.",
+  "sheet.empty": "Pick at least one expression.",
+  "sheet.reference": "Reference",
+  "sheet.regenerate": "Redraw",
+  "sheet.useAsReference": "Use as reference",
+  "sheet.useAsReferenceHint": "Draw the remaining expressions to match this one",
+  "sheet.columns": "Columns",
+  "sheet.background": "Background",
+  "sheet.background.white": "White background",
+  "sheet.background.transparent": "Transparent background",
+  "sheet.showLabels": "Labels",
+  "sheet.downloadSheet": "Download sheet",
+  "sheet.downloadPack": "Download pack (ZIP)",
+  "sheet.preview": "Sticker sheet preview",
+  "sheet.renderFailed": "Could not draw the sticker sheet.",
+  "sheet.expression.happy": "Happy smile",
+  "sheet.expression.laughing": "Laughing out loud",
+  "sheet.expression.angry": "Angry",
+  "sheet.expression.crying": "Crying",
+  "sheet.expression.thumbsUp": "Thumbs up",
+  "sheet.expression.sleepy": "Sleepy",
+  "sheet.expression.surprised": "Surprised",
+  "sheet.expression.love": "In love, hearts",
+  "sheet.expression.shy": "Shy, blushing",
+  "sheet.expression.confused": "Confused",
+  "sheet.expression.thanks": "Thank you, bowing",
+  "sheet.expression.ok": "OK gesture",
+
+  // Character library
+  "characters.heading": "Characters",
+  "characters.hint": "Saved characters can be picked instead of uploading a photo. Their notes and extra images are sent with every request.",
+  "characters.new": "New",
+  "characters.use": "Use",
+  "characters.inUse": "In use",
+  "characters.edit": "Edit",
+  "characters.delete": "Delete",
+  "characters.confirmDelete": "Delete the character \"{name}\"?",
+  "characters.import": "Import",
+  "characters.exportAll": "Export all",
+  "characters.export": "Export",
+  "characters.empty": "No saved characters yet. Upload a photo and click New to keep it here.",
+  "characters.newName": "New character",
+  "characters.namePlaceholder": "Name",
+  "characters.images": "Reference images ({count}/{max})",
+  "characters.imagesHint": "The first image is used as the character photo; the others are sent as extra views.",
+  "characters.mainImage": "Main",
+  "characters.makeMain": "Use as main image",
+  "characters.addImage": "Add image",
+  "characters.addCurrent": "Add current photo",
+  "characters.trait.hair": "Hair style and color",
+  "characters.trait.outfit": "Outfit",
+  "characters.trait.accessories": "Signature accessories",
+  "characters.trait.notes": "Other notes",
+  "characters.placeholder.hair": "e.g. short black bob with straight bangs",
+  "characters.placeholder.outfit": "e.g. navy hoodie with a white star, grey jeans",
+  "characters.placeholder.accessories": "e.g. round gold glasses, red scarf",
+  "characters.placeholder.notes": "e.g. freckles, always barefoot",
+  "characters.cancel": "Cancel",
+  "characters.save": "Save character",
+  "characters.nameRequired": "The character needs a name.",
+  "characters.imageRequired": "Add at least one image of the character.",
+  "characters.active": "Drawing {name}",
+  "characters.openFailed": "Could not open the local character library.",
+  "characters.opFailed": "Character library operation failed.",
+  "characters.readFailed": "Could not read the character file.",
+  "characters.invalidJson": "The character file is not valid JSON.",
+  "characters.invalidFormat": "This is not a Chibify character file, or it is damaged.",
+  "characters.newerVersion": "The character file was saved by a newer version of the app.",
+  "characters.importEmpty": "The file contains no usable characters.",
+
+  // Project files and PNG provenance
+  "project.open": "Open project",
+  "project.save": "Save project",
+  "project.openHint": "Restore images, prompt, preset and results from a project file",
+  "project.saveHint": "Save images, prompt, preset and results to a file you can share",
+  "project.invalidJson": "The project file is not valid JSON.",
+  "project.invalidFormat": "This is not a Chibify project file, or it is damaged.",
+  "project.newerVersion": "The project was saved by a newer version of the app.",
+  "project.readFailed": "Could not read the project file.",
+  "project.restorePngConfirm": "This image was made with the preset \"{preset}\" on {date}. Restore its settings?\n\nCancel to use it as the content image instead.",
+  "project.sourcesMissing": "Settings restored. The source images are not in your history, so upload them again.",
+  "project.presetMissing": "The preset \"{name}\" does not exist here; its prompt was kept as a custom prompt.",
+
+  // Usage log and budget
+  "usage.heading": "Usage",
+  "usage.hint": "Costs are estimated from the token counts the model reports and kept in this browser only; they are not a bill.",
+  "usage.today": "Today",
+  "usage.month": "This month",
+  "usage.allTime": "All time",
+  "usage.requests": "{count} requests",
+  "usage.failures": "{count} failed",
+  "usage.cancelled": "{count} cancelled",
+  "usage.tokens": "{count} tokens",
+  "usage.byDay": "Per day",
+  "usage.byPreset": "Per preset",
+  "usage.col.date": "Date",
+  "usage.col.preset": "Preset",
+  "usage.col.requests": "Requests",
+  "usage.col.failed": "Failed",
+  "usage.col.cancelled": "Cancelled",
+  "usage.col.tokens": "Tokens",
+  "usage.col.latency": "Avg. time",
+  "usage.col.cost": "Est. cost",
+  "usage.noPreset": "(no preset)",
+  "usage.empty": "No requests recorded yet.",
+  "usage.clear": "Clear log",
+  "usage.confirmClear": "Clear the usage log? Spending counted toward the budget is reset as well.",
+  "usage.budget": "Budget (USD)",
+  "usage.budgetPlaceholder": "None",
+  "usage.period.day": "per day",
+  "usage.period.month": "per month",
+  "usage.periodShort.day": "today",
+  "usage.periodShort.month": "this month",
+  "usage.action.warn": "Warn when exceeded",
+  "usage.action.block": "Block when exceeded",
+  "usage.budgetSpent": "{spent} of {limit} used",
+  "usage.budgetWarn": "Budget exceeded: {spent} of {limit} spent {period}. Generations still run.",
+  "usage.budgetBlocked": "Budget exceeded: {spent} of {limit} spent {period}. New generations are blocked until the period ends or the budget is raised.",
+
+  // Sticker studio
+  "sticker.heading": "Sticker finishing",
+  "sticker.removeBackground": "Remove white background",
+  "sticker.tolerance": "Tolerance",
+  "sticker.outline": "Outline",
+  "sticker.trim": "Trim whitespace",
+  "sticker.padding": "Padding",
+  "sticker.preview.checker": "Checker",
+  "sticker.preview.dark": "Dark",
+  "sticker.preview.light": "Light",
+  "sticker.export": "Export sticker",
+  "sticker.processFailed": "Sticker processing failed.",
+  "sticker.fileSize": "File size {size}",
+  "sticker.withinBudget": ", within the {limit} limit.",
+  "sticker.overBudget": ", over the {limit} limit. Try WebP or reduce the outline and detail.",
+  "sticker.preset.sticker-png": "Sticker 512×512 PNG (≤512KB)",
+  "sticker.preset.sticker-webp": "Sticker 512×512 WebP (≤100KB)",
+  "sticker.preset.emoji": "Emoji 128×128 PNG (≤128KB)",
+  "sticker.preset.print": "Print 2048px PNG",
+
+  // Proxy server responses
+  "server.bodyTooLarge": "Request body too large.",
+  "server.invalidJson": "Request body is not valid JSON.",
+  "server.missingContent": "Missing character image.",
+  "server.invalidStyle": "Invalid or too many style reference images.",
+  "server.invalidPrompt": "Prompt is empty or too long.",
+  "server.invalidRefinements": "Invalid refinement instructions.",
+  "server.invalidCharacterReferences": "Invalid or too many character reference images.",
+  "server.invalidSettings": "Unknown model or invalid generation settings.",
+  "server.invalidCharacterTraits": "Invalid or too long character notes.",
+  "server.rateLimited": "Too many requests, please try again later.",
+  "server.internal": "Internal server error.",
+  "server.notFound": "Not found.",
+  "server.forbidden": "Forbidden.",
+  "server.invalidPath": "Invalid request path.",
+  "server.methodNotAllowed": "Method not allowed.",
+
+  // Model-facing text added around user instructions
+  "modelPrompt.refinement": "Edit the previous result as follows: {instruction}\n\nApart from this change, keep the character, art style, composition and background exactly the same.",
+  "modelPrompt.maskedRefinement": "The attached black-and-white image is a mask over the previous result. Change only what is inside the white area: {instruction}\n\nKeep everything in the black area exactly the same and output the complete image at the same size and composition as the previous result.",
+  "modelPrompt.styleGuideSingle": "Image 1 is the style reference and image 2 is the character to convert. What the reference contributes:",
+  "modelPrompt.styleGuideMultiple": "Images 1 to {count} are style references and image {contentIndex} is the character to convert. What each reference contributes:",
+  "modelPrompt.styleGuideItem": "- Image {index}: {role}, influence {weight}%",
+  "modelPrompt.styleGuideAlias": "In the instructions below, \"image 1\" or \"the style reference\" means the style blended from these references by role and influence, and \"image 2\" or \"the original\" means image {contentIndex}.",
+  "modelPrompt.role.overall": "use its overall art style",
+  "modelPrompt.role.linework": "use only its line weight and strokes",
+  "modelPrompt.role.coloring": "use only its palette and coloring",
+  "modelPrompt.role.shading": "use only its lighting and textures",
+  "modelPrompt.characterReference": "Image {index} shows this same character, either another photo or a drawing already in the target style. Keep the face, hair, outfit, colors and proportions consistent with it, and its way of drawing if it is a drawing; only change what the instructions below ask for.",
+  "modelPrompt.characterReferences": "Images {from} to {to} show this same character, either other photos or drawings already in the target style. Keep the face, hair, outfit, colors and proportions consistent with them, and their way of drawing if they are drawings; only change what the instructions below ask for.",
+  "modelPrompt.traits": "The character has these defining features. Keep every one of them exactly, even where the style reference shows something else:",
+  "modelPrompt.trait.hair": "- Hair: {value}",
+  "modelPrompt.trait.outfit": "- Outfit: {value}",
+  "modelPrompt.trait.accessories": "- Signature accessories: {value}",
+  "modelPrompt.trait.notes": "- Also: {value}",
+  "modelPrompt.expression": "Expression and pose for this image: {expression}.",
+};
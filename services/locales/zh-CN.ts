@@ -0,0 +1,459 @@
+/**
+ * Reference catalog: its keys define `MessageKey`, so every other locale is
+ * checked against it and falls back to it.
+ */
+export const zhCN = {
+  // Header and layout
+  "app.title": "Chibify 风格转换器",
+  "app.poweredBy": "由 {model} 驱动",
+  "app.mockMode": "离线模拟模式",
+  "app.language": "语言",
+  "mode.single": "单张",
+  "mode.batch": "批量",
+  "mode.sheet": "表情包",
+
+  // Upload cards
+  "upload.heading": "上传图片",
+  "upload.hintSingle": "请上传风格参考图（可选）和需要转换的人物图。",
+  "upload.hintBatch": "请上传风格参考图（可选），在右侧添加需要批量转换的人物图。",
+  "upload.hintSheet": "请上传风格参考图（可选）和需要绘制成一组表情的人物图。",
+  "upload.styleTitle": "风格参考图",
+  "upload.styleHint": "上传一张或多张你想模仿的风格",
+  "upload.optional": "(可选)",
+  "upload.contentBadge": "人物原图 (Content)",
+  "upload.contentTitle": "人物原图",
+  "upload.contentHint": "上传你想转换的人物",
+  "upload.required": "(必须)",
+  "upload.cropContent": "裁剪人物原图",
+  "upload.cropStyle": "裁剪风格参考图",
+
+  // Style references
+  "styleRef.add": "添加参考图 ({count}/{max})",
+  "styleRef.remove": "移除参考图",
+  "styleRef.role": "作用",
+  "styleRef.weight": "强度",
+  "styleRef.role.overall": "整体画风",
+  "styleRef.role.linework": "线条",
+  "styleRef.role.coloring": "配色",
+  "styleRef.role.shading": "光影质感",
+
+  // Other input sources
+  "source.urlPlaceholder": "粘贴图片链接 (https://...)",
+  "source.importStyle": "导入为风格参考",
+  "source.importContent": "导入为人物原图",
+  "source.camera": "拍照",
+  "source.hint": "也可以把图片拖到卡片上，或点选卡片后按 Ctrl+V 粘贴。",
+  "source.invalidUrl": "请输入有效的图片链接（http、https 或 data:）。",
+  "source.fetchBlocked": "无法下载该图片：网络不可用，或对方网站不允许跨域访问 (CORS)。请先把图片保存到本地再上传。",
+  "source.httpError": "下载图片失败（HTTP {status}）。",
+  "webcam.title": "拍摄人物照片",
+  "webcam.capture": "拍照",
+  "webcam.cancel": "取消",
+  "webcam.unsupported": "当前浏览器或页面不支持摄像头（需要 https 或 localhost）。",
+  "webcam.denied": "摄像头权限被拒绝，请在浏览器设置中允许访问摄像头。",
+  "webcam.notFound": "没有找到可用的摄像头。",
+  "webcam.busy": "摄像头正被其他应用占用。",
+  "webcam.failed": "无法打开摄像头。",
+
+  // Generation controls
+  "controls.variantCount": "候选数量",
+  "controls.generate": "生成 Q 版风格",
+  "controls.generating": "正在转换中...",
+  "controls.cancel": "取消",
+  "controls.missingContent": "请至少上传人物原图。",
+  "controls.emptyPrompt": "提示词不能为空。",
+  "controls.allVariantsFailed": "全部 {count} 个候选均生成失败：{error}",
+
+  // Result column
+  "result.heading": "生成结果",
+  "result.hintSingle": "转换后的 Q 版形象将显示在这里。",
+  "result.hintBatch": "批量队列中每张图片的转换状态与结果。",
+  "result.hintSheet": "每个表情一张贴纸，全部保持同一个角色形象。",
+  "result.download": "下载图片",
+  "result.drawing": "AI 正在绘图...",
+  "result.placeholder": "结果将在此处显示",
+
+  // Generation failures, one per GenerationFailureReason
+  "error.SAFETY": "模型因安全策略拒绝生成。请换一张人物照片，或去掉提示词中可能敏感的描述。",
+  "error.TEXT_ONLY": "模型只回复了文字，没有生成图片。请尝试更清晰的正面人物照，或简化提示词。",
+  "error.EMPTY_RESPONSE": "模型没有返回任何结果。请稍后重试，或更换图片。",
+  "error.NO_IMAGE": "响应中没有图片数据。请重试一次；如果持续出现，请简化提示词。",
+  "error.RATE_LIMIT": "请求过于频繁或配额已用完。请等待一分钟后再试，或减少候选数量与批量并发数。",
+  "error.NETWORK": "无法连接到图片生成服务。请检查网络连接，并确认代理服务（npm run server）正在运行。",
+  "error.TIMEOUT": "生成超时。服务可能繁忙，请稍后重试，或在上传设置中降低图片尺寸。",
+  "error.AUTH": "API 密钥无效或缺失。请在服务器的 .env.local 中设置正确的 GEMINI_API_KEY 后重启代理。",
+  "error.UPSTREAM": "图片生成服务暂时不可用。请稍后重试。",
+  "error.TOO_LARGE": "图片过大，服务器拒绝了该请求。请在上传设置中降低最大尺寸后重新上传。",
+  "error.INVALID_REQUEST": "请求内容不正确。",
+  "error.CANCELLED": "已取消生成。",
+  "error.BUDGET": "用量预算已用完。请在“用量”区域提高或取消预算后再继续生成。",
+  "error.UNKNOWN": "生成过程中出现了未知问题。请重试。",
+  "error.withDetail": "{message}（{detail}）",
+
+  // Upload validation and preprocessing
+  "file.invalidType": "请上传有效的图片文件。",
+  "file.tooLarge": "文件过大，请使用 {limit} 以下的图片。",
+  "file.heicUnsupported": "当前浏览器无法解码 HEIC 图片，请先转换为 JPEG 或 PNG。",
+  "file.decodeFailed": "图片解码失败，文件可能已损坏。",
+  "file.unknownFormat": "无法识别的图片格式，请上传 PNG、JPEG、WebP 或 GIF 图片。",
+  "file.encodeFailed": "图片编码失败。",
+
+  // Prompt editor and template warnings
+  "prompt.label": "风格描述 (Prompt)",
+  "prompt.reset": "恢复默认",
+  "prompt.placeholder": "描述你想要生成的风格...",
+  "prompt.customHint": "提示词已修改。可使用 {{变量名|默认值}} 插入下方可填写的变量。",
+  "prompt.warningEmpty": "提示词为空。",
+  "prompt.warningStyleMissing": "提示词提到了风格参考图，但尚未上传风格参考图。",
+  "prompt.warningMissingVariables": "以下变量尚未填写：{names}。",
+  "prompt.listSeparator": "、",
+  "variable.accessory": "配饰",
+  "variable.background": "背景",
+  "variable.expression": "表情",
+
+  // Built-in presets
+  "preset.sunglasses.name": "墨镜 Q 版",
+  "preset.sunglasses.single": "提示词：基于原图进行Q版重绘。",
+  "preset.sunglasses.withStyle": "提示词：强制使用图2的发型和衣服，参考图1画风。",
+  "preset.pixel.name": "像素风",
+  "preset.pixel.single": "提示词：将原图重绘为低分辨率像素画。",
+  "preset.pixel.withStyle": "提示词：保留图2的人物，参考图1配色，输出像素画。",
+  "preset.lineart.name": "线稿贴纸",
+  "preset.lineart.single": "提示词：将原图重绘为纯黑线稿。",
+  "preset.lineart.withStyle": "提示词：保留图2的人物，模仿图1的线条。",
+  "preset.watercolor.name": "水彩",
+  "preset.watercolor.single": "提示词：将原图重绘为Q版水彩插画。",
+  "preset.watercolor.withStyle": "提示词：保留图2的人物，学习图1的色调。",
+
+  // Preset panel
+  "presets.label": "风格预设",
+  "presets.builtIn": "内置",
+  "presets.mine": "我的预设",
+  "presets.new": "新建",
+  "presets.edit": "编辑",
+  "presets.duplicate": "复制",
+  "presets.delete": "删除",
+  "presets.import": "导入",
+  "presets.export": "导出",
+  "presets.newName": "新预设",
+  "presets.copySuffix": "{name} (副本)",
+  "presets.confirmDelete": "确定删除预设「{name}」吗？",
+  "presets.nameRequired": "预设名称不能为空。",
+  "presets.readFailed": "读取预设文件失败。",
+  "presets.namePlaceholder": "预设名称",
+  "presets.singlePrompt": "仅人物原图时的提示词",
+  "presets.withStylePrompt": "带风格参考图时的提示词",
+  "presets.labelPlaceholder": "简要说明",
+  "presets.cancel": "取消",
+  "presets.save": "保存预设",
+  "presets.invalidJson": "预设文件不是有效的 JSON。",
+  "presets.invalidFormat": "预设文件格式不正确。",
+  "presets.empty": "预设文件中没有可用的预设。",
+
+  // Model and generation parameters
+  "settings.model": "模型",
+  "settings.aspectRatio": "画面比例",
+  "settings.temperature": "温度",
+  "settings.seed": "种子",
+  "settings.modelDefault": "默认",
+  "settings.seedRandom": "随机",
+  "settings.rollSeed": "生成固定种子",
+  "settings.unsupported": "{model} 不支持此设置",
+  "settings.reset": "重置",
+  "settings.perPreset": "随预设「{name}」保存。",
+
+  // Preprocess settings and cropper
+  "preprocess.maxDimension": "最大边长",
+  "preprocess.outputType": "编码格式",
+  "preprocess.auto": "自动",
+  "preprocess.cropOnUpload": "上传后裁剪 / 旋转",
+  "cropper.hint": "在图片上拖动以框选人物的头部与服装",
+  "cropper.rotateLeft": "↺ 向左旋转",
+  "cropper.rotateRight": "↻ 向右旋转",
+  "cropper.free": "自由比例",
+  "cropper.clear": "清除选区",
+  "cropper.cancel": "取消",
+  "cropper.cropAndUse": "裁剪并使用",
+  "cropper.useWhole": "使用整张图片",
+
+  // Variants and refinement
+  "variants.hint": "点击候选图将其设为最终结果",
+  "variants.regenerateRejected": "重新生成未选中的 ({count})",
+  "variants.retry": "重试",
+  "variants.selected": "✓ 已选",
+  "variants.candidate": "候选 {index}",
+  "refine.heading": "继续修改",
+  "refine.previous": "← 上一版",
+  "refine.next": "下一版 →",
+  "refine.original": "原始",
+  "refine.originalResult": "原始结果",
+  "refine.placeholder": "例如：把头发剪短一点",
+  "refine.submit": "修改",
+  "refine.branchHint": "从任意版本继续修改都会创建新的分支，原有版本会保留。",
+  "refine.suggestion1": "把头发剪短一点",
+  "refine.suggestion2": "外套换成红色",
+  "refine.suggestion3": "去掉墨镜上的反光",
+  "mask.heading": "局部修改",
+  "mask.open": "涂抹区域",
+  "mask.close": "收起",
+  "mask.hint": "在图片上涂抹需要修改的区域，其余部分会原样保留。",
+  "mask.brush": "画笔",
+  "mask.eraser": "橡皮擦",
+  "mask.size": "笔刷大小",
+  "mask.undo": "撤销",
+  "mask.clear": "清除",
+  "mask.before": "修改前",
+  "mask.after": "修改后",
+  "mask.placeholder": "例如：去掉墨镜上的高光",
+  "mask.submit": "修改涂抹区域",
+  "mask.compositeFailed": "无法将修改合成到原图上。",
+
+  // Batch panel
+  "batch.status.IDLE": "排队中",
+  "batch.status.UPLOADING": "上传中",
+  "batch.status.GENERATING": "生成中",
+  "batch.status.SUCCESS": "完成",
+  "batch.status.ERROR": "失败",
+  "batch.addImages": "添加图片",
+  "batch.concurrency": "并发数",
+  "batch.running": "批量转换中...",
+  "batch.start": "开始转换 ({count})",
+  "batch.stop": "停止",
+  "batch.downloadAll": "下载全部 (ZIP)",
+  "batch.clear": "清空",
+  "batch.emptyTitle": "选择多张人物图片",
+  "batch.emptyHint": "所有图片将使用相同的风格参考图和提示词",
+  "batch.retry": "重试",
+  "batch.download": "下载图片",
+  "batch.remove": "移除",
+  "batch.fileError": "{name}：{error}",
+
+  // History panel
+  "history.heading": "历史记录",
+  "history.count": "共 {count} 条",
+  "history.storage": " · 已用存储 {used} / {quota}",
+  "history.allPresets": "全部预设",
+  "history.favoritesOnly": "仅收藏",
+  "history.deleteSelected": "删除选中",
+  "history.clear": "清空",
+  "history.empty": "生成的图片会自动保存在这里。",
+  "history.noMatch": "没有符合条件的记录。",
+  "history.restoreTitle": "恢复到编辑器",
+  "history.favorite": "收藏",
+  "history.unfavorite": "取消收藏",
+  "history.restore": "恢复",
+  "history.rerun": "重新生成",
+  "history.confirmDelete": "确定删除选中的 {count} 条记录吗？",
+  "history.confirmClear": "确定清空全部历史记录吗？此操作无法撤销。",
+  "history.openFailed": "无法打开本地历史记录数据库。",
+  "history.opFailed": "历史记录操作失败。",
+  "history.deleteFailed": "删除历史记录失败。",
+
+  // Before/after comparison and share card
+  "compare.show": "对比",
+  "compare.showResult": "仅看结果",
+  "compare.before": "原图",
+  "compare.after": "效果",
+  "compare.mode.overlay": "滑块",
+  "compare.mode.side": "并排",
+  "compare.slider": "分割位置",
+  "compare.cardHeading": "分享卡片",
+  "compare.open": "制作",
+  "compare.close": "收起",
+  "compare.layout": "版式",
+  "compare.layout.landscape": "横版",
+  "compare.layout.square": "方形",
+  "compare.layout.portrait": "竖版",
+  "compare.theme": "配色",
+  "compare.theme.dark": "深色",
+  "compare.theme.light": "浅色",
+  "compare.captionPlaceholder": "配文（可选）",
+  "compare.watermark": "水印",
+  "compare.export": "下载卡片",
+  "compare.renderFailed": "无法绘制分享卡片。",
+
+  // Expression sheet
+  "sheet.pickHint": "选择这组表情包要包含的表情（最多 {max} 个）。",
+  "sheet.customPlaceholder": "自定义表情，例如：挥手再见",
+  "sheet.add": "添加",
+  "sheet.generate": "生成（{count}）",
+  "sheet.running": "正在绘制表情...",
+  "sheet.stop": "停止",
+  "sheet.consistent": "保持角色一致",
+  "sheet.consistentHint": "生成其他表情时附带参考表情，让所有表情都是同一个角色",
+  "sheet.needContent": "请先上传人物图。",
+  "sheet.empty": "请至少选择一个表情。",
+  "sheet.reference": "参考",
+  "sheet.regenerate": "重画",
+  "sheet.useAsReference": "设为参考",
+  "sheet.useAsReferenceHint": "其余表情将以这张为准绘制",
+  "sheet.columns": "列数",
+  "sheet.background": "背景",
+  "sheet.background.white": "白色背景",
+  "sheet.background.transparent": "透明背景",
+  "sheet.showLabels": "显示文字",
+  "sheet.downloadSheet": "下载拼图",
+  "sheet.downloadPack": "下载表情包 (ZIP)",
+  "sheet.preview": "表情包拼图预览",
+  "sheet.renderFailed": "无法绘制表情包拼图。",
+  "sheet.expression.happy": "开心微笑",
+  "sheet.expression.laughing": "哈哈大笑",
+  "sheet.expression.angry": "生气",
+  "sheet.expression.crying": "大哭",
+  "sheet.expression.thumbsUp": "点赞",
+  "sheet.expression.sleepy": "犯困",
+  "sheet.expression.surprised": "震惊",
+  "sheet.expression.love": "比心",
+  "sheet.expression.shy": "害羞脸红",
+  "sheet.expression.confused": "疑惑",
+  "sheet.expression.thanks": "鞠躬感谢",
+  "sheet.expression.ok": "OK 手势",
+
+  // Character library
+  "characters.heading": "角色库",
+  "characters.hint": "已保存的角色可以直接选用，无需重新上传照片。角色的特征说明和附加图片会随每次请求发送。",
+  "characters.new": "新建",
+  "characters.use": "选用",
+  "characters.inUse": "使用中",
+  "characters.edit": "编辑",
+  "characters.delete": "删除",
+  "characters.confirmDelete": "确定删除角色「{name}」吗？",
+  "characters.import": "导入",
+  "characters.exportAll": "全部导出",
+  "characters.export": "导出",
+  "characters.empty": "还没有保存的角色。上传人物照片后点击“新建”即可保存。",
+  "characters.newName": "新角色",
+  "characters.namePlaceholder": "名称",
+  "characters.images": "参考图（{count}/{max}）",
+  "characters.imagesHint": "第一张图作为人物原图，其余图片作为同一角色的附加参考发送。",
+  "characters.mainImage": "主图",
+  "characters.makeMain": "设为主图",
+  "characters.addImage": "添加图片",
+  "characters.addCurrent": "添加当前人物图",
+  "characters.trait.hair": "发型与发色",
+  "characters.trait.outfit": "服装",
+  "characters.trait.accessories": "标志性配饰",
+  "characters.trait.notes": "其他说明",
+  "characters.placeholder.hair": "例如：黑色齐刘海短发",
+  "characters.placeholder.outfit": "例如：胸前有白色星星的藏青色卫衣，灰色牛仔裤",
+  "characters.placeholder.accessories": "例如：金色圆框眼镜，红色围巾",
+  "characters.placeholder.notes": "例如：脸上有雀斑",
+  "characters.cancel": "取消",
+  "characters.save": "保存角色",
+  "characters.nameRequired": "请填写角色名称。",
+  "characters.imageRequired": "请至少添加一张角色图片。",
+  "characters.active": "正在绘制：{name}",
+  "characters.openFailed": "无法打开本地角色库。",
+  "characters.opFailed": "角色库操作失败。",
+  "characters.readFailed": "无法读取角色文件。",
+  "characters.invalidJson": "角色文件不是有效的 JSON。",
+  "characters.invalidFormat": "这不是 Chibify 角色文件，或文件已损坏。",
+  "characters.newerVersion": "该角色文件由更新版本的应用保存。",
+  "characters.importEmpty": "文件中没有可用的角色。",
+
+  // Project files and PNG provenance
+  "project.open": "打开项目",
+  "project.save": "保存项目",
+  "project.openHint": "从项目文件恢复图片、提示词、预设和结果",
+  "project.saveHint": "将图片、提示词、预设和结果保存为可分享的文件",
+  "project.invalidJson": "项目文件不是有效的 JSON。",
+  "project.invalidFormat": "这不是 Chibify 项目文件，或文件已损坏。",
+  "project.newerVersion": "该项目由更新版本的应用保存。",
+  "project.readFailed": "无法读取项目文件。",
+  "project.restorePngConfirm": "这张图片于 {date} 使用预设“{preset}”生成。要恢复它的设置吗？\n\n选择取消则将其作为内容图使用。",
+  "project.sourcesMissing": "设置已恢复。历史记录中没有找到原始图片，请重新上传。",
+  "project.presetMissing": "本机不存在预设“{name}”，其提示词已作为自定义提示词保留。",
+
+  // Usage log and budget
+  "usage.heading": "用量",
+  "usage.hint": "费用根据模型返回的 token 数估算，仅保存在本浏览器中，不代表实际账单。",
+  "usage.today": "今天",
+  "usage.month": "本月",
+  "usage.allTime": "全部",
+  "usage.requests": "{count} 次请求",
+  "usage.failures": "{count} 次失败",
+  "usage.cancelled": "{count} 次取消",
+  "usage.tokens": "{count} tokens",
+  "usage.byDay": "按天",
+  "usage.byPreset": "按预设",
+  "usage.col.date": "日期",
+  "usage.col.preset": "预设",
+  "usage.col.requests": "请求",
+  "usage.col.failed": "失败",
+  "usage.col.cancelled": "取消",
+  "usage.col.tokens": "Tokens",
+  "usage.col.latency": "平均耗时",
+  "usage.col.cost": "估算费用",
+  "usage.noPreset": "（无预设）",
+  "usage.empty": "还没有请求记录。",
+  "usage.clear": "清空记录",
+  "usage.confirmClear": "确定清空用量记录吗？计入预算的花费也会一并清零。",
+  "usage.budget": "预算（美元）",
+  "usage.budgetPlaceholder": "不限",
+  "usage.period.day": "每天",
+  "usage.period.month": "每月",
+  "usage.periodShort.day": "今天",
+  "usage.periodShort.month": "本月",
+  "usage.action.warn": "超出时提醒",
+  "usage.action.block": "超出时阻止",
+  "usage.budgetSpent": "已用 {spent} / {limit}",
+  "usage.budgetWarn": "已超出预算：{period}已花费 {spent}，预算为 {limit}。生成仍会继续。",
+  "usage.budgetBlocked": "已超出预算：{period}已花费 {spent}，预算为 {limit}。在本周期结束或提高预算之前，将不再发起新的生成。",
+
+  // Sticker studio
+  "sticker.heading": "贴纸后期",
+  "sticker.removeBackground": "去除白色背景",
+  "sticker.tolerance": "容差",
+  "sticker.outline": "描边",
+  "sticker.trim": "裁掉空白",
+  "sticker.padding": "留白",
+  "sticker.preview.checker": "透明格",
+  "sticker.preview.dark": "深色",
+  "sticker.preview.light": "浅色",
+  "sticker.export": "导出贴纸",
+  "sticker.processFailed": "贴纸处理失败。",
+  "sticker.fileSize": "文件大小 {size}",
+  "sticker.withinBudget": "，符合 {limit} 的限制。",
+  "sticker.overBudget": "，超出 {limit} 的限制，可尝试 WebP 或减少描边与细节。",
+  "sticker.preset.sticker-png": "贴纸 512×512 PNG (≤512KB)",
+  "sticker.preset.sticker-webp": "贴纸 512×512 WebP (≤100KB)",
+  "sticker.preset.emoji": "表情 128×128 PNG (≤128KB)",
+  "sticker.preset.print": "高清打印 2048px PNG",
+
+  // Proxy server responses
+  "server.bodyTooLarge": "请求体过大。",
+  "server.invalidJson": "请求体不是有效的 JSON。",
+  "server.missingContent": "缺少人物原图。",
+  "server.invalidStyle": "风格参考图格式不正确或数量过多。",
+  "server.invalidPrompt": "提示词为空或过长。",
+  "server.invalidRefinements": "修改指令格式不正确。",
+  "server.invalidCharacterReferences": "角色参考图格式不正确或数量过多。",
+  "server.invalidSettings": "未知的模型或无效的生成参数。",
+  "server.invalidCharacterTraits": "角色特征说明无效或过长。",
+  "server.rateLimited": "请求过于频繁，请稍后再试。",
+  "server.internal": "服务器内部错误。",
+  "server.notFound": "未找到。",
+  "server.forbidden": "禁止访问。",
+  "server.invalidPath": "请求路径无效。",
+  "server.methodNotAllowed": "不支持的请求方法。",
+
+  // Model-facing text added around user instructions
+  "modelPrompt.refinement": "请在上一张生成结果的基础上进行修改：{instruction}\n\n除上述修改外，保持人物、画风、构图和背景完全不变。",
+  "modelPrompt.maskedRefinement": "附带的黑白图是上一张生成结果的遮罩。只修改遮罩白色区域内的内容：{instruction}\n\n黑色区域内的一切保持完全不变，输出与上一张结果尺寸和构图一致的完整图片。",
+  "modelPrompt.styleGuideSingle": "图1 是风格参考图，图2 是需要转换的人物原图。参考图的作用：",
+  "modelPrompt.styleGuideMultiple": "图1 至 图{count} 是风格参考图，图{contentIndex} 是需要转换的人物原图。各参考图的作用：",
+  "modelPrompt.styleGuideItem": "- 图{index}：{role}，影响强度 {weight}%",
+  "modelPrompt.styleGuideAlias": "下文中的“图1”或“风格参考图”指以上参考图按各自作用与强度融合后的风格，“图2”或“原图”指图{contentIndex}。",
+  "modelPrompt.role.overall": "参考整体画风",
+  "modelPrompt.role.linework": "只参考线条的粗细与笔触",
+  "modelPrompt.role.coloring": "只参考配色与上色方式",
+  "modelPrompt.role.shading": "只参考光影与材质表现",
+  "modelPrompt.characterReference": "图{index} 是同一角色的另一张照片，或已按目标风格绘制的形象。请保持脸型、发型、服装、配色和比例与其一致，若是绘制的形象则画法也保持一致，只按下面的要求做改变。",
+  "modelPrompt.characterReferences": "图{from} 到 图{to} 是同一角色的其他照片，或已按目标风格绘制的形象。请保持脸型、发型、服装、配色和比例与其一致，若是绘制的形象则画法也保持一致，只按下面的要求做改变。",
+  "modelPrompt.traits": "该角色有以下标志性特征，必须逐一准确保留，即使风格参考图中的内容不同：",
+  "modelPrompt.trait.hair": "- 发型与发色：{value}",
+  "modelPrompt.trait.outfit": "- 服装：{value}",
+  "modelPrompt.trait.accessories": "- 标志性配饰：{value}",
+  "modelPrompt.trait.notes": "- 其他：{value}",
+  "modelPrompt.expression": "本图的表情和动作：{expression}。",
+};
@@ -0,0 +1,103 @@
+/**
+ * Regional edits. The user paints a mask over a result, the model redraws the
+ * image guided by that mask, and only the masked part of its answer is
+ * composited back, so everything outside the mask stays pixel-identical.
+ */
+
+import { createCanvas, loadBitmap } from "./canvasUtils";
+
+export type MaskTool = "brush" | "eraser";
+
+export interface MaskStroke {
+  tool: MaskTool;
+  // Brush diameter as a percentage of the image width
+  size: number;
+  // Positions as fractions of the image size, so strokes survive display scaling
+  points: { x: number; y: number }[];
+}
+
+// Soft edge of the composited region, as a percentage of the longest side
+const FEATHER_PERCENT = 1.2;
+
+export const hasMaskedArea = (strokes: MaskStroke[]): boolean => {
+  return strokes.some(stroke => stroke.tool === "brush");
+};
+
+/**
+ * Replays strokes onto a transparent canvas: the brush paints `color`, the
+ * eraser cuts back to transparent.
+ */
+export const drawMaskStrokes = (ctx: CanvasRenderingContext2D, strokes: MaskStroke[], color: string) => {
+  const { width, height } = ctx.canvas;
+  ctx.clearRect(0, 0, width, height);
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  for (const stroke of strokes) {
+    ctx.globalCompositeOperation = stroke.tool === "eraser" ? "destination-out" : "source-over";
+    ctx.strokeStyle = ctx.fillStyle = color;
+    ctx.lineWidth = (stroke.size / 100) * width;
+    const [first, ...rest] = stroke.points;
+    if (!first) continue;
+    if (rest.length === 0) {
+      // A click without movement still leaves a dot
+      ctx.beginPath();
+      ctx.arc(first.x * width, first.y * height, ctx.lineWidth / 2, 0, Math.PI * 2);
+      ctx.fill();
+      continue;
+    }
+    ctx.beginPath();
+    ctx.moveTo(first.x * width, first.y * height);
+    rest.forEach(point => ctx.lineTo(point.x * width, point.y * height));
+    ctx.stroke();
+  }
+  ctx.globalCompositeOperation = "source-over";
+};
+
+/**
+ * Renders the strokes as a black-and-white PNG (white = edit) at the size of
+ * the image they were painted on. This is what the model receives.
+ */
+export const renderMask = (strokes: MaskStroke[], width: number, height: number): string => {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext("2d")!;
+  drawMaskStrokes(ctx, strokes, "#ffffff");
+  ctx.globalCompositeOperation = "destination-over";
+  ctx.fillStyle = "#000000";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/png");
+};
+
+/**
+ * Pastes the masked region of `edited` onto `original` with a feathered edge.
+ * The model may answer at a different size, so `edited` is scaled to fit.
+ */
+export const compositeMaskedEdit = async (original: string, edited: string, mask: string): Promise<string> => {
+  const [base, patch, maskBitmap] = await Promise.all([loadBitmap(original), loadBitmap(edited), loadBitmap(mask)]);
+  const { width, height } = base;
+
+  // Mask luminance becomes the alpha of the edited layer
+  const alpha = createCanvas(width, height);
+  const actx = alpha.getContext("2d", { willReadFrequently: true })!;
+  actx.filter = `blur(${(FEATHER_PERCENT / 100) * Math.max(width, height)}px)`;
+  actx.drawImage(maskBitmap, 0, 0, width, height);
+  actx.filter = "none";
+  const pixels = actx.getImageData(0, 0, alpha.width, alpha.height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    pixels.data[i + 3] = pixels.data[i];
+  }
+  actx.putImageData(pixels, 0, 0);
+
+  const layer = createCanvas(width, height);
+  const lctx = layer.getContext("2d")!;
+  lctx.drawImage(patch, 0, 0, width, height);
+  lctx.globalCompositeOperation = "destination-in";
+  lctx.drawImage(alpha, 0, 0);
+
+  const output = createCanvas(width, height);
+  const octx = output.getContext("2d")!;
+  octx.drawImage(base, 0, 0);
+  octx.drawImage(layer, 0, 0);
+
+  [base, patch, maskBitmap].forEach(bitmap => bitmap.close());
+  return output.toDataURL("image/png");
+};
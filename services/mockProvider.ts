@@ -0,0 +1,151 @@
+import { ContentPart, ImageProvider, ProviderRequest, ProviderResponse, ProviderUsageMetadata } from "./imageProvider";
+
+/**
+ * Offline stand-in for Gemini. Every scenario returns a response in the same
+ * shape the real API does so the parsing branches in `geminiService.ts` run
+ * unchanged:
+ *
+ * - `success`    posterized copy of the last image in the conversation
+ * - `safety`     candidate with finishReason SAFETY
+ * - `text`       text-only refusal
+ * - `empty-text` text part containing only an empty code block
+ * - `no-image`   candidate without any parts
+ * - `empty`      no candidates at all
+ * - `error`      the request rejects with a 503, which is retried
+ * - `rate-limit` the request rejects with a 429
+ * - `auth`       the request rejects with a 401
+ * - `timeout`    the request never settles
+ *
+ * Answers carry usage metadata with token counts in the same ballpark as
+ * Gemini's, so the usage log and budget can be exercised offline.
+ *
+ * The scenario comes from MOCK_SCENARIO and can be overridden per request by
+ * putting a marker such as `[mock:safety]` anywhere in the prompt.
+ */
+
+export type MockScenario =
+  "success" | "safety" | "text" | "empty-text" | "no-image" | "empty" | "error" | "rate-limit" | "auth" | "timeout";
+
+const SCENARIOS: MockScenario[] = [
+  "success", "safety", "text", "empty-text", "no-image", "empty", "error", "rate-limit", "auth", "timeout",
+];
+const MARKER_PATTERN = /\[mock:([\w-]+)\]/;
+const DEFAULT_LATENCY_MS = 800;
+// Gemini bills an input image as 258 tokens and a generated image as 1290
+const IMAGE_INPUT_TOKENS = 258;
+const IMAGE_OUTPUT_TOKENS = 1290;
+
+const isScenario = (value: string | undefined): value is MockScenario => {
+  return !!value && (SCENARIOS as string[]).includes(value);
+};
+
+export const resolveMockScenario = (parts: ContentPart[]): MockScenario => {
+  const prompt = parts.map(part => part.text || "").join("\n");
+  const marker = prompt.match(MARKER_PATTERN)?.[1];
+  if (isScenario(marker)) return marker;
+  const configured = process.env.MOCK_SCENARIO;
+  return isScenario(configured) ? configured : "success";
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Mimics the SDK's ApiError, which carries the HTTP status
+const httpError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Mock provider could not decode the input image."));
+    img.src = src;
+  });
+};
+
+/**
+ * Deterministic "stylization": flatten onto white and quantize each channel to
+ * four levels, which reads as a flat-shaded sticker. Outside the browser the
+ * input is echoed back unchanged.
+ */
+const stylize = async (data: string, mimeType: string): Promise<{ data: string; mimeType: string }> => {
+  if (typeof document === "undefined") return { data, mimeType };
+
+  const img = await loadImage(`data:${mimeType};base64,${data}`);
+  const scale = Math.min(1, 512 / Math.max(img.width, img.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(img.width * scale));
+  canvas.height = Math.max(1, Math.round(img.height * scale));
+
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      pixels.data[i + c] = Math.round(pixels.data[i + c] / 85) * 85;
+    }
+  }
+  ctx.putImageData(pixels, 0, 0);
+
+  return { data: canvas.toDataURL("image/png").split(",")[1], mimeType: "image/png" };
+};
+
+const estimateTokens = (parts: ContentPart[], imageTokens: number): number => {
+  return parts.reduce((sum, part) => sum + (part.inlineData ? imageTokens : Math.ceil((part.text || "").length / 4)), 0);
+};
+
+const withUsage = (response: ProviderResponse, inputParts: ContentPart[]): ProviderResponse => {
+  const promptTokenCount = estimateTokens(inputParts, IMAGE_INPUT_TOKENS);
+  const candidatesTokenCount = estimateTokens(response.candidates?.[0]?.content?.parts ?? [], IMAGE_OUTPUT_TOKENS);
+  const usageMetadata: ProviderUsageMetadata = {
+    promptTokenCount,
+    candidatesTokenCount,
+    totalTokenCount: promptTokenCount + candidatesTokenCount,
+  };
+  return { ...response, usageMetadata };
+};
+
+const respond = async (request: ProviderRequest, scenario: MockScenario): Promise<ProviderResponse> => {
+  await delay(Number(process.env.MOCK_LATENCY_MS) || DEFAULT_LATENCY_MS);
+
+  switch (scenario) {
+    case "safety":
+      return { candidates: [{ finishReason: "SAFETY" }] };
+    case "text":
+      return { candidates: [{ finishReason: "STOP", content: { parts: [{ text: "I can't help with creating that image." }] } }] };
+    case "empty-text":
+      return { candidates: [{ finishReason: "STOP", content: { parts: [{ text: "```\n```" }] } }] };
+    case "no-image":
+      return { candidates: [{ finishReason: "STOP", content: { parts: [] } }] };
+    case "empty":
+      return { candidates: [] };
+    case "error":
+      throw httpError(503, "Mock provider: simulated upstream failure.");
+    case "rate-limit":
+      throw httpError(429, "Mock provider: simulated quota exhaustion.");
+    case "auth":
+      throw httpError(401, "Mock provider: simulated invalid API key.");
+    case "timeout":
+      return new Promise<ProviderResponse>(() => {});
+    case "success": {
+      // Refinements edit the latest model turn; masks in user turns are never the source
+      const sourceTurn = [...request.contents].reverse().find(turn => turn.role === "model") ?? request.contents[0];
+      const source = [...(sourceTurn?.parts ?? [])].reverse().find(part => part.inlineData?.data)?.inlineData;
+      if (!source?.data) {
+        return { candidates: [{ finishReason: "STOP", content: { parts: [{ text: "No input image." }] } }] };
+      }
+      const image = await stylize(source.data, source.mimeType || "image/png");
+      return { candidates: [{ finishReason: "STOP", content: { parts: [{ inlineData: image }] } }] };
+    }
+  }
+};
+
+export const mockProvider: ImageProvider = {
+  id: "mock",
+  label: "Offline mock",
+  async generateContent(request: ProviderRequest): Promise<ProviderResponse> {
+    const parts = request.contents.flatMap(turn => turn.parts);
+    return withUsage(await respond(request, resolveMockScenario(parts)), parts);
+  },
+};
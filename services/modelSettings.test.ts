@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { buildGenerationConfig, DEFAULT_GENERATION_SETTINGS, isGenerationSettings, normalizeSettings } from "./modelSettings";
+
+test("only parameters the model supports are sent", () => {
+  const settings = { model: "gemini-3-pro-image-preview", aspectRatio: "3:4", temperature: 0.5, seed: 42 };
+  assert.deepEqual(buildGenerationConfig(settings), { imageConfig: { aspectRatio: "3:4" }, temperature: 0.5 });
+  assert.deepEqual(buildGenerationConfig({ ...settings, model: "gemini-2.5-flash-image" }), {
+    imageConfig: { aspectRatio: "3:4" },
+    temperature: 0.5,
+    seed: 42,
+  });
+});
+
+test("default settings send no config at all", () => {
+  assert.equal(buildGenerationConfig(DEFAULT_GENERATION_SETTINGS), undefined);
+});
+
+test("client settings are checked strictly", () => {
+  assert.equal(isGenerationSettings(DEFAULT_GENERATION_SETTINGS), true);
+  assert.equal(isGenerationSettings({ ...DEFAULT_GENERATION_SETTINGS, model: "gpt-image-1" }), false);
+  assert.equal(isGenerationSettings({ ...DEFAULT_GENERATION_SETTINGS, aspectRatio: "7:5" }), false);
+  assert.equal(isGenerationSettings({ ...DEFAULT_GENERATION_SETTINGS, temperature: 3 }), false);
+  assert.equal(isGenerationSettings({ ...DEFAULT_GENERATION_SETTINGS, seed: 1.5 }), false);
+  assert.equal(isGenerationSettings({ model: DEFAULT_GENERATION_SETTINGS.model }), false);
+});
+
+test("stored settings fall back field by field", () => {
+  assert.deepEqual(normalizeSettings({ model: "retired-model", aspectRatio: "16:9", temperature: "hot", seed: 7 }), {
+    ...DEFAULT_GENERATION_SETTINGS,
+    aspectRatio: "16:9",
+    seed: 7,
+  });
+  assert.deepEqual(normalizeSettings(null), DEFAULT_GENERATION_SETTINGS);
+});
@@ -0,0 +1,122 @@
+/**
+ * Image models and the generation parameters each one accepts. Settings are
+ * remembered per preset, so e.g. a pixel-art preset can keep a square format.
+ */
+
+import { GenerationSettings } from "../types";
+import { isRecord } from "./guards";
+import { ProviderGenerationConfig } from "./imageProvider";
+
+const SETTINGS_KEY = "chibify.generationSettings";
+
+export interface ImageModelSpec {
+  id: string;
+  label: string;
+  // Parameters the model honors; the others are disabled in the UI and never sent
+  aspectRatio: boolean;
+  temperature: boolean;
+  seed: boolean;
+}
+
+export const IMAGE_MODELS: ImageModelSpec[] = [
+  { id: "gemini-2.5-flash-image", label: "Gemini 2.5 Flash Image", aspectRatio: true, temperature: true, seed: true },
+  { id: "gemini-3-pro-image-preview", label: "Gemini 3 Pro Image", aspectRatio: true, temperature: true, seed: false },
+];
+
+export const DEFAULT_IMAGE_MODEL = IMAGE_MODELS[0].id;
+
+export const ASPECT_RATIOS = ["1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9"];
+
+export const TEMPERATURE_RANGE = { min: 0, max: 2, step: 0.1 };
+
+// The API takes a signed 32-bit seed
+export const MAX_SEED = 2_147_483_647;
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  model: DEFAULT_IMAGE_MODEL,
+  aspectRatio: null,
+  temperature: null,
+  seed: null,
+};
+
+export const getModelSpec = (id: string): ImageModelSpec | undefined => {
+  return IMAGE_MODELS.find(model => model.id === id);
+};
+
+const isAspectRatio = (value: unknown): value is string => {
+  return typeof value === "string" && ASPECT_RATIOS.includes(value);
+};
+
+const isTemperature = (value: unknown): value is number => {
+  return typeof value === "number" && value >= TEMPERATURE_RANGE.min && value <= TEMPERATURE_RANGE.max;
+};
+
+const isSeed = (value: unknown): value is number => {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_SEED;
+};
+
+/**
+ * Strict check for settings received from a client. Every field must be
+ * present and valid for a known model.
+ */
+export const isGenerationSettings = (value: unknown): value is GenerationSettings => {
+  return isRecord(value)
+    && typeof value.model === "string" && !!getModelSpec(value.model)
+    && (value.aspectRatio === null || isAspectRatio(value.aspectRatio))
+    && (value.temperature === null || isTemperature(value.temperature))
+    && (value.seed === null || isSeed(value.seed));
+};
+
+/**
+ * Lenient counterpart for stored settings: unknown models fall back to the
+ * default and invalid values to the model's own default.
+ */
+export const normalizeSettings = (value: unknown): GenerationSettings => {
+  const { model, aspectRatio, temperature, seed } = isRecord(value) ? value : {};
+  return {
+    model: typeof model === "string" && getModelSpec(model) ? model : DEFAULT_IMAGE_MODEL,
+    aspectRatio: isAspectRatio(aspectRatio) ? aspectRatio : null,
+    temperature: isTemperature(temperature) ? temperature : null,
+    seed: isSeed(seed) ? seed : null,
+  };
+};
+
+/**
+ * The config sent with a request. Parameters the model does not support are
+ * left out instead of being sent and rejected upstream.
+ */
+export const buildGenerationConfig = (settings: GenerationSettings): ProviderGenerationConfig | undefined => {
+  const spec = getModelSpec(settings.model);
+  const config: ProviderGenerationConfig = {};
+  if (spec?.aspectRatio && settings.aspectRatio) config.imageConfig = { aspectRatio: settings.aspectRatio };
+  if (spec?.temperature && settings.temperature !== null) config.temperature = settings.temperature;
+  if (spec?.seed && settings.seed !== null) config.seed = settings.seed;
+  return Object.keys(config).length > 0 ? config : undefined;
+};
+
+export const getModelLabel = (id: string): string => getModelSpec(id)?.label ?? id;
+
+const isDefault = (settings: GenerationSettings): boolean => {
+  return (Object.keys(DEFAULT_GENERATION_SETTINGS) as (keyof GenerationSettings)[])
+    .every(key => settings[key] === DEFAULT_GENERATION_SETTINGS[key]);
+};
+
+/**
+ * Settings of every preset the user customized, keyed by preset id.
+ */
+export const loadGenerationSettings = (): Record<string, GenerationSettings> => {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(SETTINGS_KEY) || "{}");
+    if (!isRecord(parsed)) return {};
+    return Object.fromEntries(Object.entries(parsed).map(([id, value]) => [id, normalizeSettings(value)]));
+  } catch (error) {
+    console.error("Failed to load generation settings:", error);
+    return {};
+  }
+};
+
+// Defaults are not stored, so untouched presets keep following the default model
+export const saveGenerationSettings = (settings: Record<string, GenerationSettings>): void => {
+  const customized = Object.entries(settings).filter(([, value]) => !isDefault(value));
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(Object.fromEntries(customized)));
+};
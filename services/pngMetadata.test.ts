@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { embedPngText, parseProvenance, readPngText } from "./pngMetadata";
+import { crc32 } from "./zipWriter";
+
+const chunk = (type: string, data: Uint8Array): Uint8Array => {
+  const bytes = new Uint8Array(12 + data.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, data.length);
+  bytes.set(new TextEncoder().encode(type), 4);
+  bytes.set(data, 8);
+  view.setUint32(8 + data.length, crc32(bytes.subarray(4, 8 + data.length)));
+  return bytes;
+};
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+// Signature, a 1×1 IHDR and IEND; enough for the chunk walker
+const minimalPng = (...extra: Uint8Array[]) => concat(
+  new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  chunk("IHDR", new Uint8Array([0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0])),
+  ...extra,
+  chunk("IEND", new Uint8Array()),
+);
+
+test("embedded iTXt chunks read back as UTF-8", () => {
+  const entries = { Description: "把照片变成 Q 版贴纸", chibify: JSON.stringify({ version: 1 }) };
+  const png = embedPngText(minimalPng(), entries);
+  assert.deepEqual(readPngText(png), entries);
+});
+
+test("text chunks go right after IHDR", () => {
+  const png = embedPngText(minimalPng(), { Software: "Chibify" });
+  assert.equal(new TextDecoder().decode(png.subarray(8 + 25 + 4, 8 + 25 + 8)), "iTXt");
+});
+
+test("plain tEXt chunks are read as Latin-1", () => {
+  const png = minimalPng(chunk("tEXt", new Uint8Array([...new TextEncoder().encode("Author"), 0, 0x4a, 0xe9])));
+  assert.deepEqual(readPngText(png), { Author: "Jé" });
+});
+
+test("non-PNG input has no text", () => {
+  assert.deepEqual(readPngText(new TextEncoder().encode("GIF89a")), {});
+  assert.throws(() => embedPngText(new Uint8Array(8), { a: "b" }));
+});
+
+const provenance = {
+  version: 1,
+  createdAt: "2026-01-01T00:00:00.000Z",
+  model: "gemini-2.5-flash-image",
+  settings: { model: "gemini-2.5-flash-image", aspectRatio: "1:1", temperature: 9, seed: null },
+  presetId: "classic",
+  presetName: "Classic",
+  prompt: "prompt",
+  templateValues: { expression: "happy" },
+  contentSha256: "abc",
+  styleReferences: [{ role: "linework", weight: 60, sha256: "def" }],
+};
+
+test("provenance is read back with its settings normalized", () => {
+  assert.deepEqual(parseProvenance(JSON.stringify(provenance)), {
+    ...provenance,
+    settings: { ...provenance.settings, temperature: null },
+  });
+  const { settings, ...older } = provenance;
+  assert.deepEqual(parseProvenance(JSON.stringify(older)), { ...older, settings: undefined });
+});
+
+test("partial or foreign provenance chunks are ignored", () => {
+  assert.equal(parseProvenance("not json"), null);
+  assert.equal(parseProvenance(JSON.stringify({ prompt: "p", presetId: "classic" })), null);
+  assert.equal(parseProvenance(JSON.stringify({ ...provenance, templateValues: { a: 1 } })), null);
+  assert.equal(parseProvenance(JSON.stringify({ ...provenance, styleReferences: [{ role: "colour", weight: 60, sha256: "def" }] })), null);
+  assert.equal(parseProvenance(JSON.stringify({ ...provenance, settings: "1:1" })), null);
+});
@@ -0,0 +1,229 @@
+/**
+ * Provenance for downloaded results, stored as PNG text chunks so it travels
+ * with the file: the prompt, preset, model, time and hashes of the source
+ * images. Dropping such a PNG back into the app restores the settings.
+ *
+ * Values are written as uncompressed iTXt chunks, which hold UTF-8 (prompts
+ * are often Chinese); plain tEXt chunks are read as well.
+ */
+
+import { GenerationSettings, StyleReference, StyleRole } from "../types";
+import { createCanvas, loadBitmap } from "./canvasUtils";
+import { dataUrlToBytes } from "./fileUtils";
+import { isRecord, isStringRecord } from "./guards";
+import { getDataUrlMimeType } from "./imagePreprocess";
+import { normalizeSettings } from "./modelSettings";
+import { isStyleRole } from "./styleReferences";
+import { crc32 } from "./zipWriter";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Keyword of the chunk carrying the JSON below
+const PROVENANCE_KEYWORD = "chibify";
+const PROVENANCE_VERSION = 1;
+
+export interface PngProvenance {
+  version: number;
+  createdAt: string;
+  model: string;
+  // Missing in files saved before generation settings existed
+  settings?: GenerationSettings;
+  presetId: string;
+  presetName: string;
+  prompt: string;
+  templateValues: Record<string, string>;
+  // SHA-256 of the decoded source images, hex encoded
+  contentSha256: string;
+  styleReferences: { role: StyleRole; weight: number; sha256: string }[];
+}
+
+const isPng = (bytes: Uint8Array): boolean => PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+
+const readUint32 = (bytes: Uint8Array, offset: number): number => {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+};
+
+const writeUint32 = (bytes: Uint8Array, offset: number, value: number) => {
+  bytes[offset] = value >>> 24;
+  bytes[offset + 1] = (value >>> 16) & 0xff;
+  bytes[offset + 2] = (value >>> 8) & 0xff;
+  bytes[offset + 3] = value & 0xff;
+};
+
+const createChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  writeUint32(chunk, 0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  writeUint32(chunk, 8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+// keyword \0 compression flag, method \0 (language) \0 (translated keyword) \0 text
+const createTextChunk = (keyword: string, text: string): Uint8Array => {
+  const encoder = new TextEncoder();
+  const key = encoder.encode(keyword);
+  const value = encoder.encode(text);
+  const data = new Uint8Array(key.length + 5 + value.length);
+  data.set(key, 0);
+  data.set(value, key.length + 5);
+  return createChunk("iTXt", data);
+};
+
+/**
+ * Inserts text chunks right after the IHDR chunk.
+ */
+export const embedPngText = (png: Uint8Array, entries: Record<string, string>): Uint8Array => {
+  if (!isPng(png)) throw new Error("Not a PNG file.");
+  const ihdrEnd = 8 + 12 + readUint32(png, 8);
+  const chunks = Object.entries(entries).map(([keyword, text]) => createTextChunk(keyword, text));
+  const size = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+
+  const output = new Uint8Array(png.length + size);
+  output.set(png.subarray(0, ihdrEnd), 0);
+  let offset = ihdrEnd;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  output.set(png.subarray(ihdrEnd), offset);
+  return output;
+};
+
+/**
+ * Reads every tEXt and uncompressed iTXt chunk. Returns an empty object for
+ * anything that is not a PNG.
+ */
+export const readPngText = (png: Uint8Array): Record<string, string> => {
+  const entries: Record<string, string> = {};
+  if (!isPng(png)) return entries;
+
+  const latin1 = new TextDecoder("latin1");
+  const utf8 = new TextDecoder();
+  let offset = 8;
+  while (offset + 12 <= png.length) {
+    const length = readUint32(png, offset);
+    const type = latin1.decode(png.subarray(offset + 4, offset + 8));
+    const data = png.subarray(offset + 8, offset + 8 + length);
+    if (type === "IEND") break;
+
+    const keywordEnd = data.indexOf(0);
+    if (keywordEnd > 0 && type === "tEXt") {
+      entries[latin1.decode(data.subarray(0, keywordEnd))] = latin1.decode(data.subarray(keywordEnd + 1));
+    } else if (keywordEnd > 0 && type === "iTXt" && data[keywordEnd + 1] === 0) {
+      const languageEnd = data.indexOf(0, keywordEnd + 3);
+      const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1);
+      if (translatedEnd >= 0) {
+        entries[latin1.decode(data.subarray(0, keywordEnd))] = utf8.decode(data.subarray(translatedEnd + 1));
+      }
+    }
+    offset += 12 + length;
+  }
+  return entries;
+};
+
+export const sha256Hex = async (dataUrl: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", dataUrlToBytes(dataUrl));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+};
+
+export const buildProvenance = async (request: {
+  content: string;
+  styles: StyleReference[];
+  promptText: string;
+  values: Record<string, string>;
+  preset: { id: string; name: string };
+  settings: GenerationSettings;
+}): Promise<PngProvenance> => ({
+  version: PROVENANCE_VERSION,
+  createdAt: new Date().toISOString(),
+  model: request.settings.model,
+  settings: request.settings,
+  presetId: request.preset.id,
+  presetName: request.preset.name,
+  prompt: request.promptText,
+  templateValues: request.values,
+  contentSha256: await sha256Hex(request.content),
+  styleReferences: await Promise.all(request.styles.map(async reference => ({
+    role: reference.role,
+    weight: reference.weight,
+    sha256: await sha256Hex(reference.image),
+  }))),
+});
+
+const toPngBytes = async (dataUrl: string): Promise<Uint8Array> => {
+  if (getDataUrlMimeType(dataUrl) === "image/png") return dataUrlToBytes(dataUrl);
+  const bitmap = await loadBitmap(dataUrl);
+  const canvas = createCanvas(bitmap.width, bitmap.height);
+  canvas.getContext("2d")!.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return dataUrlToBytes(canvas.toDataURL("image/png"));
+};
+
+/**
+ * The image as a PNG carrying `provenance`, plus the standard Software,
+ * Description and Creation Time keywords for other viewers.
+ */
+export const withProvenance = async (imageUrl: string, provenance: PngProvenance): Promise<Blob> => {
+  const png = embedPngText(await toPngBytes(imageUrl), {
+    "Software": "Chibify",
+    "Description": provenance.prompt,
+    "Creation Time": new Date(provenance.createdAt).toUTCString(),
+    [PROVENANCE_KEYWORD]: JSON.stringify(provenance),
+  });
+  return new Blob([png], { type: "image/png" });
+};
+
+const isReferenceProvenance = (value: unknown): value is PngProvenance["styleReferences"][number] => {
+  return isRecord(value) && isStyleRole(value.role) && typeof value.weight === "number" && typeof value.sha256 === "string";
+};
+
+/**
+ * Checks the JSON of a provenance chunk. Chunks written by other tools under
+ * the same keyword, or cut short, are treated as absent.
+ */
+export const parseProvenance = (text: string): PngProvenance | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isRecord(parsed)) return null;
+
+  const { version, createdAt, model, settings, presetId, presetName, prompt, templateValues, contentSha256, styleReferences } = parsed;
+  if (!(typeof version === "number"
+    && typeof createdAt === "string"
+    && typeof model === "string"
+    && (settings === undefined || isRecord(settings))
+    && typeof presetId === "string"
+    && typeof presetName === "string"
+    && typeof prompt === "string"
+    && isStringRecord(templateValues)
+    && typeof contentSha256 === "string"
+    && Array.isArray(styleReferences)
+    && styleReferences.every(isReferenceProvenance))) {
+    return null;
+  }
+
+  return {
+    version,
+    createdAt,
+    model,
+    settings: settings && normalizeSettings(settings),
+    presetId,
+    presetName,
+    prompt,
+    templateValues,
+    contentSha256,
+    styleReferences,
+  };
+};
+
+/**
+ * Provenance of a previously downloaded result, or null for any other file.
+ */
+export const readProvenance = async (file: Blob): Promise<PngProvenance | null> => {
+  const text = readPngText(new Uint8Array(await file.arrayBuffer()))[PROVENANCE_KEYWORD];
+  return text ? parseProvenance(text) : null;
+};
@@ -0,0 +1,379 @@
+import { StyleConfig, StylePreset } from "../types";
+import { isRecord } from "./guards";
+import { getLocale, Locale, t, translate } from "./i18n";
+import { createId } from "./ids";
+
+const USER_PRESETS_KEY = "chibify.presets";
+const SELECTED_PRESET_KEY = "chibify.selectedPreset";
+const PRESET_FILE_VERSION = 1;
+
+// Prompt for when both Style and Content images are present
+const SUNGLASSES_WITH_STYLE = `任务：图像生成。
+
+输入包含两张图片：
+1. 第一张图是【风格参考图】(Style Reference)
+2. 第二张图是【人物原型图】(Character Content)
+
+请生成一张新的Q版人物贴纸，必须严格遵守以下指令：
+
+1. **内容（发型与服装）必须来自第二张图**：
+   - 仔细观察第二张图（人物原型图）的**发型**（刘海、长短、颜色）和**服装**（款式、颜色）。
+   - **生成的图片必须完全复制第二张图的发型和衣服**。
+   - **严禁**使用第一张图的发型或衣服。第一张图仅供参考画风，绝不可参考其内容。
+
+2. **风格必须来自第一张图**：
+   - 学习第一张图的绘画风格（线条粗细、Q版头身比例、上色质感）。
+   - 只模仿画风，不要模仿内容。
+
+3. **固定特征**：
+   - 人物必须佩戴**纯黑色墨镜**。
+   - 墨镜镜片必须是纯黑色块，**绝对不可有反光**，不可有高光，不可有倒影。
+   - 表情{{expression|自信微笑}}。
+   - {{background|白色背景}}。
+
+**总结：用图1的画风，画图2的人（保留图2的发型和衣服）。**`;
+
+// Prompt for when only Content image is present
+const SUNGLASSES_SINGLE = `任务：图像生成。
+
+基于提供的人物图片，创作一个Q版风格贴纸。
+
+执行步骤：
+1. **分析人物**：识别图片中人物的发型、发色和服装特征。
+2. **重绘**：在保持上述人物特征（**特别是发型**）的前提下，将其重绘为Q版风格。
+3. **风格要求**：极简矢量插画，粗线条，平涂上色。
+4. **配饰要求**：
+   - 必须佩戴**纯黑色墨镜**。
+   - 墨镜必须完全无反光、无高光、无渐变，呈现纯黑平面风格。
+5. **输出规格**：{{background|白色背景}}，{{expression|自信微笑}}表情。`;
+
+const PIXEL_WITH_STYLE = `任务：图像生成。
+
+输入包含两张图片：
+1. 第一张图是【风格参考图】(Style Reference)
+2. 第二张图是【人物原型图】(Character Content)
+
+请生成一张Q版像素风人物贴纸：
+
+1. **内容来自第二张图**：完整保留第二张图人物的发型、发色和服装款式，不要使用第一张图的人物内容。
+2. **风格来自第一张图**：参考第一张图的配色倾向和Q版比例。
+3. **像素化要求**：
+   - 整体呈现 64×64 左右的低分辨率像素画效果，像素块清晰、边缘锐利。
+   - 使用有限调色板（不超过 16 色），不要抗锯齿，不要渐变。
+4. **输出规格**：{{background|白色背景}}，正面站姿，{{expression|开心}}的表情。`;
+
+const PIXEL_SINGLE = `任务：图像生成。
+
+基于提供的人物图片，创作一个Q版像素风贴纸。
+
+执行步骤：
+1. **分析人物**：识别人物的发型、发色和服装特征。
+2. **重绘**：保持上述特征，将其重绘为 2~3 头身的Q版角色。
+3. **像素化要求**：
+   - 整体呈现 64×64 左右的低分辨率像素画效果，像素块清晰、边缘锐利。
+   - 使用有限调色板（不超过 16 色），不要抗锯齿，不要渐变。
+4. **输出规格**：{{background|白色背景}}，正面站姿，{{expression|开心}}的表情。`;
+
+const LINEART_WITH_STYLE = `任务：图像生成。
+
+输入包含两张图片：
+1. 第一张图是【风格参考图】(Style Reference)
+2. 第二张图是【人物原型图】(Character Content)
+
+请生成一张Q版线稿贴纸：
+
+1. **内容来自第二张图**：保留第二张图人物的发型轮廓和服装结构，不要使用第一张图的人物内容。
+2. **风格来自第一张图**：模仿第一张图的线条粗细和笔触节奏。
+3. **线稿要求**：
+   - 只使用纯黑色线条，不上色，不加阴影或灰度。
+   - 线条闭合、干净，外轮廓线比内部线条更粗。
+4. **输出规格**：{{background|白色背景}}，{{expression|俏皮}}的表情。`;
+
+const LINEART_SINGLE = `任务：图像生成。
+
+基于提供的人物图片，创作一个Q版线稿贴纸。
+
+执行步骤：
+1. **分析人物**：识别人物的发型轮廓和服装结构。
+2. **重绘**：保持上述特征，将其重绘为Q版比例的角色。
+3. **线稿要求**：
+   - 只使用纯黑色线条，不上色，不加阴影或灰度。
+   - 线条闭合、干净，外轮廓线比内部线条更粗。
+4. **输出规格**：{{background|白色背景}}，{{expression|俏皮}}的表情。`;
+
+const WATERCOLOR_WITH_STYLE = `任务：图像生成。
+
+输入包含两张图片：
+1. 第一张图是【风格参考图】(Style Reference)
+2. 第二张图是【人物原型图】(Character Content)
+
+请生成一张Q版水彩风人物插画：
+
+1. **内容来自第二张图**：完整保留第二张图人物的发型、发色和服装，不要使用第一张图的人物内容。
+2. **风格来自第一张图**：学习第一张图的色调和笔触。
+3. **水彩要求**：
+   - 柔和的水彩晕染，颜色边缘自然扩散，保留纸张纹理感。
+   - 轮廓使用细淡的彩色铅笔线，不要粗黑描边。
+4. **输出规格**：{{background|白色背景}}，{{expression|温柔的微笑}}表情。`;
+
+const WATERCOLOR_SINGLE = `任务：图像生成。
+
+基于提供的人物图片，创作一张Q版水彩风插画。
+
+执行步骤：
+1. **分析人物**：识别人物的发型、发色和服装特征。
+2. **重绘**：保持上述特征，将其重绘为Q版比例的角色。
+3. **水彩要求**：
+   - 柔和的水彩晕染，颜色边缘自然扩散，保留纸张纹理感。
+   - 轮廓使用细淡的彩色铅笔线，不要粗黑描边。
+4. **输出规格**：{{background|白色背景}}，{{expression|温柔的微笑}}表情。`;
+
+const SUNGLASSES_WITH_STYLE_EN = `Task: image generation.
+
+The input contains two images:
+1. The first image is the [Style Reference]
+2. The second image is the [Character Content]
+
+Create a new chibi character sticker that strictly follows these instructions:
+
+1. **Content (hairstyle and outfit) must come from the second image**:
+   - Study the **hairstyle** (bangs, length, color) and **outfit** (cut, color) of the second image (character content).
+   - **The generated image must copy the hairstyle and clothes of the second image exactly**.
+   - **Never** use the hairstyle or clothes of the first image. The first image is a reference for the art style only, never for content.
+
+2. **The style must come from the first image**:
+   - Learn the drawing style of the first image (line weight, chibi head-to-body ratio, coloring texture).
+   - Imitate the style only, not the content.
+
+3. **Fixed features**:
+   - The character must wear **solid black sunglasses**.
+   - The lenses must be flat black shapes with **absolutely no reflections**, no highlights and no mirrored images.
+   - Expression: {{expression|confident smile}}.
+   - {{background|white background}}.
+
+**In short: draw the person from image 2 (keeping image 2's hair and clothes) in the art style of image 1.**`;
+
+const SUNGLASSES_SINGLE_EN = `Task: image generation.
+
+Based on the provided photo of a person, create a chibi-style sticker.
+
+Steps:
+1. **Analyze the character**: identify the person's hairstyle, hair color and outfit.
+2. **Redraw**: keep those features (**especially the hairstyle**) and redraw the person in chibi style.
+3. **Style**: minimalist vector illustration, bold lines, flat colors.
+4. **Accessory**:
+   - The character must wear **solid black sunglasses**.
+   - The sunglasses must have no reflections, no highlights and no gradients: pure flat black.
+5. **Output**: {{background|white background}}, {{expression|confident smile}} expression.`;
+
+const PIXEL_WITH_STYLE_EN = `Task: image generation.
+
+The input contains two images:
+1. The first image is the [Style Reference]
+2. The second image is the [Character Content]
+
+Create a chibi pixel-art character sticker:
+
+1. **Content comes from the second image**: keep the hairstyle, hair color and outfit of the person in the second image; do not use the character from the first image.
+2. **Style comes from the first image**: follow the first image's color palette and chibi proportions.
+3. **Pixel art**:
+   - The whole image should look like low-resolution pixel art of about 64×64, with crisp pixels and sharp edges.
+   - Use a limited palette (16 colors at most), no anti-aliasing, no gradients.
+4. **Output**: {{background|white background}}, front-facing standing pose, {{expression|happy}} expression.`;
+
+const PIXEL_SINGLE_EN = `Task: image generation.
+
+Based on the provided photo of a person, create a chibi pixel-art sticker.
+
+Steps:
+1. **Analyze the character**: identify the person's hairstyle, hair color and outfit.
+2. **Redraw**: keep those features and redraw the person as a chibi character 2 to 3 heads tall.
+3. **Pixel art**:
+   - The whole image should look like low-resolution pixel art of about 64×64, with crisp pixels and sharp edges.
+   - Use a limited palette (16 colors at most), no anti-aliasing, no gradients.
+4. **Output**: {{background|white background}}, front-facing standing pose, {{expression|happy}} expression.`;
+
+const LINEART_WITH_STYLE_EN = `Task: image generation.
+
+The input contains two images:
+1. The first image is the [Style Reference]
+2. The second image is the [Character Content]
+
+Create a chibi line-art sticker:
+
+1. **Content comes from the second image**: keep the hairstyle silhouette and outfit structure of the person in the second image; do not use the character from the first image.
+2. **Style comes from the first image**: imitate the line weight and stroke rhythm of the first image.
+3. **Line art**:
+   - Use pure black lines only: no color, no shading, no gray tones.
+   - Lines are closed and clean; the outer contour is thicker than the inner lines.
+4. **Output**: {{background|white background}}, {{expression|playful}} expression.`;
+
+const LINEART_SINGLE_EN = `Task: image generation.
+
+Based on the provided photo of a person, create a chibi line-art sticker.
+
+Steps:
+1. **Analyze the character**: identify the person's hairstyle silhouette and outfit structure.
+2. **Redraw**: keep those features and redraw the person with chibi proportions.
+3. **Line art**:
+   - Use pure black lines only: no color, no shading, no gray tones.
+   - Lines are closed and clean; the outer contour is thicker than the inner lines.
+4. **Output**: {{background|white background}}, {{expression|playful}} expression.`;
+
+const WATERCOLOR_WITH_STYLE_EN = `Task: image generation.
+
+The input contains two images:
+1. The first image is the [Style Reference]
+2. The second image is the [Character Content]
+
+Create a chibi watercolor character illustration:
+
+1. **Content comes from the second image**: keep the hairstyle, hair color and outfit of the person in the second image; do not use the character from the first image.
+2. **Style comes from the first image**: learn the tones and brushwork of the first image.
+3. **Watercolor**:
+   - Soft watercolor washes with colors bleeding naturally at the edges and a visible paper texture.
+   - Outline with thin, light colored-pencil lines instead of bold black strokes.
+4. **Output**: {{background|white background}}, {{expression|gentle smile}} expression.`;
+
+const WATERCOLOR_SINGLE_EN = `Task: image generation.
+
+Based on the provided photo of a person, create a chibi watercolor illustration.
+
+Steps:
+1. **Analyze the character**: identify the person's hairstyle, hair color and outfit.
+2. **Redraw**: keep those features and redraw the person with chibi proportions.
+3. **Watercolor**:
+   - Soft watercolor washes with colors bleeding naturally at the edges and a visible paper texture.
+   - Outline with thin, light colored-pencil lines instead of bold black strokes.
+4. **Output**: {{background|white background}}, {{expression|gentle smile}} expression.`;
+
+const BUILT_IN_PRESET_IDS = ["sunglasses", "pixel", "lineart", "watercolor"] as const;
+type BuiltInPresetId = typeof BUILT_IN_PRESET_IDS[number];
+
+// Prompts are maintained per locale because users read and edit them
+const BUILT_IN_PROMPTS: Record<Locale, Record<BuiltInPresetId, { single: string; withStyle: string }>> = {
+  "zh-CN": {
+    sunglasses: { single: SUNGLASSES_SINGLE, withStyle: SUNGLASSES_WITH_STYLE },
+    pixel: { single: PIXEL_SINGLE, withStyle: PIXEL_WITH_STYLE },
+    lineart: { single: LINEART_SINGLE, withStyle: LINEART_WITH_STYLE },
+    watercolor: { single: WATERCOLOR_SINGLE, withStyle: WATERCOLOR_WITH_STYLE },
+  },
+  en: {
+    sunglasses: { single: SUNGLASSES_SINGLE_EN, withStyle: SUNGLASSES_WITH_STYLE_EN },
+    pixel: { single: PIXEL_SINGLE_EN, withStyle: PIXEL_WITH_STYLE_EN },
+    lineart: { single: LINEART_SINGLE_EN, withStyle: LINEART_WITH_STYLE_EN },
+    watercolor: { single: WATERCOLOR_SINGLE_EN, withStyle: WATERCOLOR_WITH_STYLE_EN },
+  },
+};
+
+/**
+ * Built-in presets in the given locale. Ids are shared across locales so the
+ * selected preset survives a language switch.
+ */
+export const getBuiltInPresets = (locale: Locale = getLocale()): StylePreset[] => {
+  return BUILT_IN_PRESET_IDS.map(id => ({
+    id,
+    name: translate(locale, `preset.${id}.name`),
+    builtIn: true,
+    single: { prompt: BUILT_IN_PROMPTS[locale][id].single, label: translate(locale, `preset.${id}.single`) },
+    withStyle: { prompt: BUILT_IN_PROMPTS[locale][id].withStyle, label: translate(locale, `preset.${id}.withStyle`) },
+  }));
+};
+
+export const DEFAULT_PRESET_ID: BuiltInPresetId = "sunglasses";
+
+/**
+ * Picks the prompt variant matching the current inputs.
+ */
+export const getPresetVariant = (preset: StylePreset, hasStyleImage: boolean): StyleConfig => {
+  return hasStyleImage ? preset.withStyle : preset.single;
+};
+
+const isStyleConfig = (value: unknown): value is StyleConfig => {
+  return isRecord(value) && typeof value.prompt === "string" && typeof value.label === "string";
+};
+
+export const isStylePreset = (value: unknown): value is StylePreset => {
+  return isRecord(value)
+    && typeof value.id === "string"
+    && typeof value.name === "string"
+    && isStyleConfig(value.single)
+    && isStyleConfig(value.withStyle);
+};
+
+const toUserPreset = (preset: StylePreset): StylePreset => ({
+  id: preset.id,
+  name: preset.name,
+  single: { prompt: preset.single.prompt, label: preset.single.label },
+  withStyle: { prompt: preset.withStyle.prompt, label: preset.withStyle.label },
+});
+
+export const createPresetId = (): string => {
+  return createId("user");
+};
+
+export const loadUserPresets = (): StylePreset[] => {
+  try {
+    const raw = localStorage.getItem(USER_PRESETS_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isStylePreset).map(toUserPreset) : [];
+  } catch (error) {
+    console.error("Failed to load presets:", error);
+    return [];
+  }
+};
+
+export const saveUserPresets = (presets: StylePreset[]): void => {
+  localStorage.setItem(USER_PRESETS_KEY, JSON.stringify(presets.map(toUserPreset)));
+};
+
+export const loadSelectedPresetId = (): string => {
+  return localStorage.getItem(SELECTED_PRESET_KEY) || DEFAULT_PRESET_ID;
+};
+
+export const saveSelectedPresetId = (id: string): void => {
+  localStorage.setItem(SELECTED_PRESET_KEY, id);
+};
+
+export const duplicatePreset = (preset: StylePreset): StylePreset => ({
+  ...toUserPreset(preset),
+  id: createPresetId(),
+  name: t("presets.copySuffix", { name: preset.name }),
+});
+
+/**
+ * Serializes presets into the shareable JSON file format.
+ */
+export const exportPresets = (presets: StylePreset[]): string => {
+  return JSON.stringify({ version: PRESET_FILE_VERSION, presets: presets.map(toUserPreset) }, null, 2);
+};
+
+/**
+ * Parses a preset file produced by `exportPresets`. Entries whose id clashes
+ * with a built-in preset are given a fresh id so they never shadow it.
+ */
+export const importPresets = (json: string): StylePreset[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error(t("presets.invalidJson"));
+  }
+
+  const entries: unknown = Array.isArray(parsed) ? parsed : isRecord(parsed) ? parsed.presets : undefined;
+  if (!Array.isArray(entries)) {
+    throw new Error(t("presets.invalidFormat"));
+  }
+
+  const presets = entries.filter(isStylePreset).map(toUserPreset);
+  if (presets.length === 0) {
+    throw new Error(t("presets.empty"));
+  }
+
+  return presets.map(preset =>
+    (BUILT_IN_PRESET_IDS as readonly string[]).includes(preset.id)
+      ? { ...preset, id: createPresetId() }
+      : preset
+  );
+};
@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { exportCharacters } from "./characterService";
+import { DEFAULT_GENERATION_SETTINGS } from "./modelSettings";
+import { getBuiltInPresets } from "./presetService";
+import { exportProject, importProject, isProjectFileName, ProjectFile } from "./projectFile";
+
+test("only the project extension is taken for a project", () => {
+  assert.equal(isProjectFileName("chibify-project.chibify.json"), true);
+  assert.equal(isProjectFileName("Comic.CHIBIFY.JSON"), true);
+  assert.equal(isProjectFileName("chibify-characters.json"), false);
+  assert.equal(isProjectFileName("presets.json"), false);
+});
+
+test("other Chibify files are not mistaken for projects", () => {
+  assert.throws(() => importProject(exportCharacters([])));
+  assert.throws(() => importProject("not json"));
+});
+
+test("an exported project imports unchanged", () => {
+  const image = "data:image/png;base64,AAAA";
+  const project: ProjectFile = {
+    createdAt: 1,
+    model: DEFAULT_GENERATION_SETTINGS.model,
+    settings: { ...DEFAULT_GENERATION_SETTINGS, seed: 7 },
+    preset: getBuiltInPresets()[0],
+    prompt: "prompt",
+    templateValues: { expression: "happy" },
+    contentImage: image,
+    styleReferences: [{ id: "s", image, role: "linework", weight: 60 }],
+    results: [{
+      id: "r",
+      imageUrl: image,
+      revisions: [{ id: "r", parentId: null, imageUrl: image, instruction: null, createdAt: 1 }],
+      currentRevisionId: "r",
+    }],
+    selectedResultId: "r",
+  };
+  assert.deepEqual(importProject(exportProject(project)), project);
+});
+
+test("a missing selection falls back to the first result", () => {
+  const file = JSON.parse(exportProject({
+    createdAt: 1,
+    model: DEFAULT_GENERATION_SETTINGS.model,
+    settings: DEFAULT_GENERATION_SETTINGS,
+    preset: getBuiltInPresets()[0],
+    prompt: "prompt",
+    templateValues: {},
+    contentImage: null,
+    styleReferences: [],
+    results: [],
+    selectedResultId: null,
+  }));
+  delete file.settings;
+  const project = importProject(JSON.stringify({ ...file, selectedResultId: "gone" }));
+  assert.equal(project.selectedResultId, null);
+  assert.deepEqual(project.settings, DEFAULT_GENERATION_SETTINGS);
+});
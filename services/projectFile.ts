@@ -0,0 +1,128 @@
+/**
+ * Project files: a single JSON document with everything needed to reproduce
+ * and continue a piece of work — source images, style references, prompt,
+ * preset, model settings and every result with its refinement tree. Images are
+ * embedded as data URLs so the file can be handed to someone else as is.
+ */
+
+import { GenerationSettings, Revision, StylePreset, StyleReference } from "../types";
+import { isDataUrl, isRecord, isStringRecord } from "./guards";
+import { t } from "./i18n";
+import { normalizeSettings } from "./modelSettings";
+import { isStylePreset } from "./presetService";
+import { isStyleRole, MAX_STYLE_REFERENCES, MAX_STYLE_WEIGHT, MIN_STYLE_WEIGHT } from "./styleReferences";
+
+const PROJECT_FORMAT = "chibify-project";
+const PROJECT_FILE_VERSION = 1;
+
+export const PROJECT_FILE_EXTENSION = ".chibify.json";
+
+export interface ProjectResult {
+  // Also the id of the root revision, as for variant slots
+  id: string;
+  imageUrl: string;
+  revisions: Revision[];
+  currentRevisionId: string;
+}
+
+export interface ProjectFile {
+  createdAt: number;
+  model: string;
+  settings: GenerationSettings;
+  // Full definition, so a custom preset can be recreated on another machine
+  preset: StylePreset;
+  // The prompt as edited, which may differ from the preset's
+  prompt: string;
+  templateValues: Record<string, string>;
+  contentImage: string | null;
+  styleReferences: StyleReference[];
+  results: ProjectResult[];
+  selectedResultId: string | null;
+}
+
+// Projects may be saved before a content image was picked
+const isContentImage = (value: unknown): value is string | null => value === null || isDataUrl(value);
+
+const isStyleReference = (value: unknown): value is StyleReference => {
+  return isRecord(value)
+    && typeof value.id === "string"
+    && isDataUrl(value.image)
+    && isStyleRole(value.role)
+    && typeof value.weight === "number"
+    && value.weight >= MIN_STYLE_WEIGHT
+    && value.weight <= MAX_STYLE_WEIGHT;
+};
+
+const isRevision = (value: unknown): value is Revision => {
+  return isRecord(value)
+    && typeof value.id === "string"
+    && (value.parentId === null || typeof value.parentId === "string")
+    && isDataUrl(value.imageUrl)
+    && (value.instruction === null || typeof value.instruction === "string")
+    && (value.mask === undefined || isDataUrl(value.mask))
+    && typeof value.createdAt === "number";
+};
+
+const isProjectResult = (value: unknown): value is ProjectResult => {
+  return isRecord(value)
+    && typeof value.id === "string"
+    && isDataUrl(value.imageUrl)
+    && Array.isArray(value.revisions)
+    && value.revisions.every(isRevision)
+    && typeof value.currentRevisionId === "string";
+};
+
+// Other JSON files (preset and character exports) have their own importers
+export const isProjectFileName = (name: string): boolean => name.toLowerCase().endsWith(PROJECT_FILE_EXTENSION);
+
+export const exportProject = (project: ProjectFile): string => {
+  return JSON.stringify({ format: PROJECT_FORMAT, version: PROJECT_FILE_VERSION, ...project });
+};
+
+/**
+ * Parses a file produced by `exportProject`, rejecting anything that would
+ * leave the editor in a half-restored state.
+ */
+export const importProject = (json: string): ProjectFile => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error(t("project.invalidJson"));
+  }
+
+  if (!isRecord(parsed) || parsed.format !== PROJECT_FORMAT) {
+    throw new Error(t("project.invalidFormat"));
+  }
+  if (typeof parsed.version !== "number" || parsed.version > PROJECT_FILE_VERSION) {
+    throw new Error(t("project.newerVersion"));
+  }
+
+  const { createdAt, model, settings, preset, prompt, templateValues, contentImage, styleReferences, results, selectedResultId } = parsed;
+  if (!(typeof prompt === "string"
+    && typeof model === "string"
+    && isStylePreset(preset)
+    && isStringRecord(templateValues)
+    && isContentImage(contentImage)
+    && Array.isArray(styleReferences)
+    && styleReferences.length <= MAX_STYLE_REFERENCES
+    && styleReferences.every(isStyleReference)
+    && Array.isArray(results)
+    && results.every(isProjectResult))) {
+    throw new Error(t("project.invalidFormat"));
+  }
+
+  return {
+    createdAt: typeof createdAt === "number" ? createdAt : Date.now(),
+    model,
+    // Files saved before settings were recorded only name the model
+    settings: normalizeSettings(settings ?? { model }),
+    preset,
+    prompt,
+    templateValues,
+    contentImage,
+    styleReferences,
+    results,
+    selectedResultId: results.find(result => result.id === selectedResultId)?.id ?? results[0]?.id ?? null,
+  };
+};
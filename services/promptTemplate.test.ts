@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { extractTemplateVariables, referencesStyleImage, renderTemplate, validateTemplate } from "./promptTemplate";
+
+test("variables are listed once, in order, keeping the first default", () => {
+  assert.deepEqual(extractTemplateVariables("{{ background }} {{expression|smiling}} {{background|white}}"), [
+    { name: "background", defaultValue: "white" },
+    { name: "expression", defaultValue: "smiling" },
+  ]);
+});
+
+test("renderTemplate substitutes values and falls back to defaults", () => {
+  const template = "A {{expression|happy}} chibi on a {{background}} background{{accessory}}.";
+  assert.equal(renderTemplate(template, { background: " blue " }), "A happy chibi on a blue background.");
+  assert.equal(renderTemplate(template, { expression: "sleepy", background: "pink" }), "A sleepy chibi on a pink background.");
+});
+
+test("text without variables is left untouched", () => {
+  assert.equal(renderTemplate("{ not a variable } {{1x}}", {}), "{ not a variable } {{1x}}");
+});
+
+test("style image phrases are recognized in both languages", () => {
+  assert.equal(referencesStyleImage("参考风格参考图的画风"), true);
+  assert.equal(referencesStyleImage("Follow the style of image 1."), true);
+  assert.equal(referencesStyleImage("Draw it as a chibi."), false);
+});
+
+test("validateTemplate flags empty prompts, a missing style image and unfilled variables", () => {
+  assert.equal(validateTemplate("Draw {{expression|happy}}", {}, false).length, 0);
+  assert.equal(validateTemplate(" ", {}, true).length, 1);
+  assert.equal(validateTemplate("Copy image 1", {}, false).length, 1);
+  assert.equal(validateTemplate("On {{background}}", {}, true).length, 1);
+  assert.equal(validateTemplate("On {{background}}", { background: "grass" }, true).length, 0);
+});
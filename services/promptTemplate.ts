@@ -0,0 +1,88 @@
+/**
+ * Minimal prompt template language.
+ *
+ * `{{name}}` inserts the value of a variable; `{{name|default}}` falls back to
+ * `default` when the variable is left empty.
+ */
+
+import { MessageKey, t } from "./i18n";
+
+export interface TemplateVariable {
+  name: string;
+  defaultValue: string;
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*(?:\|([^}]*))?\}\}/g;
+
+// Phrases the built-in prompts use when addressing the style reference image
+const STYLE_REFERENCE_PATTERNS = [/风格参考图/, /第一张图/, /图1/, /style reference/i, /first image/i, /image 1\b/i];
+
+const VARIABLE_LABEL_KEYS: Record<string, MessageKey> = {
+  accessory: "variable.accessory",
+  background: "variable.background",
+  expression: "variable.expression",
+};
+
+/**
+ * Display name for a variable; unknown variables show their own name.
+ */
+export const getVariableLabel = (name: string): string => {
+  const key = VARIABLE_LABEL_KEYS[name];
+  return key ? t(key) : name;
+};
+
+/**
+ * Lists the variables used by a template in order of first appearance.
+ */
+export const extractTemplateVariables = (template: string): TemplateVariable[] => {
+  const variables: TemplateVariable[] = [];
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    const name = match[1];
+    const existing = variables.find(v => v.name === name);
+    if (!existing) {
+      variables.push({ name, defaultValue: (match[2] || "").trim() });
+    } else if (!existing.defaultValue && match[2]) {
+      existing.defaultValue = match[2].trim();
+    }
+  }
+  return variables;
+};
+
+export const renderTemplate = (template: string, values: Record<string, string>): string => {
+  return template.replace(VARIABLE_PATTERN, (_, name: string, fallback?: string) => {
+    const value = values[name]?.trim();
+    return value || (fallback || "").trim();
+  });
+};
+
+export const referencesStyleImage = (template: string): boolean => {
+  return STYLE_REFERENCE_PATTERNS.some(pattern => pattern.test(template));
+};
+
+/**
+ * Returns human-readable warnings about a template before it is sent.
+ */
+export const validateTemplate = (
+  template: string,
+  values: Record<string, string>,
+  hasStyleImage: boolean
+): string[] => {
+  const warnings: string[] = [];
+
+  if (!template.trim()) {
+    warnings.push(t("prompt.warningEmpty"));
+  }
+
+  if (!hasStyleImage && referencesStyleImage(template)) {
+    warnings.push(t("prompt.warningStyleMissing"));
+  }
+
+  const missing = extractTemplateVariables(template)
+    .filter(v => !v.defaultValue && !values[v.name]?.trim())
+    .map(v => getVariableLabel(v.name));
+  if (missing.length > 0) {
+    warnings.push(t("prompt.warningMissingVariables", { names: missing.join(t("prompt.listSeparator")) }));
+  }
+
+  return warnings;
+};
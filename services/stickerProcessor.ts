@@ -0,0 +1,228 @@
+/**
+ * Turns a generated image (character on a white background) into a cut-out
+ * sticker and encodes it for common messenger targets.
+ */
+
+import { createCanvas, loadBitmap } from "./canvasUtils";
+import { MessageKey, t } from "./i18n";
+
+export interface StickerOptions {
+  removeBackground: boolean;
+  // 0-100: how far from pure white a border-connected pixel may be and still count as background
+  tolerance: number;
+  outline: boolean;
+  outlineColor: string;
+  // Stroke width as a percentage of the longest side
+  outlineWidth: number;
+  trim: boolean;
+  // Transparent margin as a percentage of the longest side
+  padding: number;
+}
+
+export type StickerFormat = "image/png" | "image/webp";
+
+export interface ExportPreset {
+  id: string;
+  labelKey: MessageKey;
+  // Square canvas size in pixels; null keeps the processed size
+  size: number | null;
+  // Longest side for non-square targets
+  maxDimension?: number;
+  format: StickerFormat;
+  // File-size budget in bytes, null for unlimited
+  maxBytes: number | null;
+}
+
+export interface StickerExport {
+  blob: Blob;
+  width: number;
+  height: number;
+  withinBudget: boolean;
+}
+
+export const DEFAULT_STICKER_OPTIONS: StickerOptions = {
+  removeBackground: true,
+  tolerance: 12,
+  outline: true,
+  outlineColor: "#ffffff",
+  outlineWidth: 2.5,
+  trim: true,
+  padding: 4,
+};
+
+export const EXPORT_PRESETS: ExportPreset[] = [
+  { id: "sticker-png", labelKey: "sticker.preset.sticker-png", size: 512, format: "image/png", maxBytes: 512 * 1024 },
+  { id: "sticker-webp", labelKey: "sticker.preset.sticker-webp", size: 512, format: "image/webp", maxBytes: 100 * 1024 },
+  { id: "emoji", labelKey: "sticker.preset.emoji", size: 128, format: "image/png", maxBytes: 128 * 1024 },
+  { id: "print", labelKey: "sticker.preset.print", size: null, maxDimension: 2048, format: "image/png", maxBytes: null },
+];
+
+/**
+ * Flood-fills near-white pixels connected to the image border and makes them
+ * transparent. White areas enclosed by the character (eyes, shirts) survive
+ * because they are not reachable from the edge.
+ */
+const removeWhiteBackground = (image: ImageData, tolerance: number) => {
+  const { data, width, height } = image;
+  // Distance from white, 0..765; pixels between hard and soft limits get partial alpha
+  const hardLimit = (tolerance / 100) * 765;
+  const softLimit = hardLimit * 1.6 + 12;
+  const distance = (p: number) => 765 - data[p * 4] - data[p * 4 + 1] - data[p * 4 + 2];
+
+  const visited = new Uint8Array(width * height);
+  const queue = new Uint32Array(width * height);
+  let head = 0;
+  let tail = 0;
+
+  const enqueue = (p: number) => {
+    if (visited[p]) return;
+    visited[p] = 1;
+    if (distance(p) <= softLimit && data[p * 4 + 3] > 0) queue[tail++] = p;
+  };
+
+  for (let x = 0; x < width; x++) {
+    enqueue(x);
+    enqueue((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    enqueue(y * width);
+    enqueue(y * width + width - 1);
+  }
+
+  while (head < tail) {
+    const p = queue[head++];
+    const d = distance(p);
+    if (d <= hardLimit) {
+      data[p * 4 + 3] = 0;
+    } else {
+      // Anti-aliased edge pixel: fade it instead of cutting hard, and stop spreading
+      data[p * 4 + 3] = Math.round(data[p * 4 + 3] * ((d - hardLimit) / (softLimit - hardLimit)));
+      continue;
+    }
+    const x = p % width;
+    if (x > 0) enqueue(p - 1);
+    if (x < width - 1) enqueue(p + 1);
+    if (p >= width) enqueue(p - width);
+    if (p < width * (height - 1)) enqueue(p + width);
+  }
+};
+
+const opaqueBounds = (image: ImageData) => {
+  const { data, width, height } = image;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] > 8) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+/**
+ * Stamps a solid-colored silhouette around the source in a ring of offsets,
+ * which approximates a die-cut stroke without a distance transform.
+ */
+const drawWithOutline = (target: CanvasRenderingContext2D, source: HTMLCanvasElement, x: number, y: number, color: string, width: number) => {
+  const silhouette = createCanvas(source.width, source.height);
+  const sctx = silhouette.getContext("2d")!;
+  sctx.drawImage(source, 0, 0);
+  sctx.globalCompositeOperation = "source-in";
+  sctx.fillStyle = color;
+  sctx.fillRect(0, 0, silhouette.width, silhouette.height);
+
+  const steps = Math.max(16, Math.ceil(width * 4));
+  for (let i = 0; i < steps; i++) {
+    const angle = (i / steps) * Math.PI * 2;
+    target.drawImage(silhouette, x + Math.cos(angle) * width, y + Math.sin(angle) * width);
+  }
+  target.drawImage(source, x, y);
+};
+
+/**
+ * Runs background removal, trim, outline and padding and returns the result
+ * at the source resolution.
+ */
+export const processSticker = async (dataUrl: string, options: StickerOptions): Promise<HTMLCanvasElement> => {
+  const bitmap = await loadBitmap(dataUrl);
+  let source = createCanvas(bitmap.width, bitmap.height);
+  const ctx = source.getContext("2d", { willReadFrequently: true })!;
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const pixels = ctx.getImageData(0, 0, source.width, source.height);
+  if (options.removeBackground) {
+    removeWhiteBackground(pixels, options.tolerance);
+    ctx.putImageData(pixels, 0, 0);
+  }
+
+  if (options.trim) {
+    const bounds = opaqueBounds(pixels);
+    if (bounds) {
+      const trimmed = createCanvas(bounds.width, bounds.height);
+      trimmed.getContext("2d")!.drawImage(source, bounds.x, bounds.y, bounds.width, bounds.height, 0, 0, bounds.width, bounds.height);
+      source = trimmed;
+    }
+  }
+
+  const longest = Math.max(source.width, source.height);
+  const stroke = options.outline ? (options.outlineWidth / 100) * longest : 0;
+  const margin = (options.padding / 100) * longest + stroke;
+
+  const output = createCanvas(source.width + margin * 2, source.height + margin * 2);
+  const octx = output.getContext("2d")!;
+  if (stroke > 0) {
+    drawWithOutline(octx, source, margin, margin, options.outlineColor, stroke);
+  } else {
+    octx.drawImage(source, margin, margin);
+  }
+  return output;
+};
+
+const toBlob = (canvas: HTMLCanvasElement, format: StickerFormat, quality?: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(t("file.encodeFailed"))), format, quality);
+  });
+};
+
+/**
+ * Fits the processed sticker to the preset's canvas and encodes it. Lossy
+ * formats step down in quality until they meet the size budget.
+ */
+export const exportSticker = async (sticker: HTMLCanvasElement, preset: ExportPreset): Promise<StickerExport> => {
+  let width = sticker.width;
+  let height = sticker.height;
+  if (preset.size) {
+    width = height = preset.size;
+  } else if (preset.maxDimension) {
+    const scale = preset.maxDimension / Math.max(sticker.width, sticker.height);
+    width = sticker.width * scale;
+    height = sticker.height * scale;
+  }
+
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext("2d")!;
+  const scale = Math.min(canvas.width / sticker.width, canvas.height / sticker.height);
+  const drawWidth = sticker.width * scale;
+  const drawHeight = sticker.height * scale;
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(sticker, (canvas.width - drawWidth) / 2, (canvas.height - drawHeight) / 2, drawWidth, drawHeight);
+
+  let blob = await toBlob(canvas, preset.format, 0.92);
+  if (preset.maxBytes && preset.format === "image/webp") {
+    for (let quality = 0.85; blob.size > preset.maxBytes && quality >= 0.3; quality -= 0.1) {
+      blob = await toBlob(canvas, preset.format, quality);
+    }
+  }
+
+  return {
+    blob,
+    width: canvas.width,
+    height: canvas.height,
+    withinBudget: !preset.maxBytes || blob.size <= preset.maxBytes,
+  };
+};
@@ -0,0 +1,56 @@
+import { StyleReference, StyleRole } from "../types";
+import { Locale, translate } from "./i18n";
+import { createId } from "./ids";
+
+// Keeps requests with several references within the proxy's body size limit
+export const MAX_STYLE_REFERENCES = 4;
+
+export const STYLE_ROLES: StyleRole[] = ["overall", "linework", "coloring", "shading"];
+
+export const MIN_STYLE_WEIGHT = 10;
+export const MAX_STYLE_WEIGHT = 100;
+
+export const isStyleRole = (value: unknown): value is StyleRole => {
+  return STYLE_ROLES.includes(value as StyleRole);
+};
+
+export const createStyleReference = (image: string): StyleReference => ({
+  id: createId(),
+  image,
+  role: "overall",
+  weight: MAX_STYLE_WEIGHT,
+});
+
+const clampWeight = (weight: number): number => {
+  return Math.min(MAX_STYLE_WEIGHT, Math.max(MIN_STYLE_WEIGHT, Math.round(weight)));
+};
+
+/**
+ * Tells the model which image is which and what each reference contributes.
+ * The style references are images 1..N and the content image is N+1; preset
+ * prompts keep saying "image 1" and "image 2", so with several references
+ * the guide maps those names onto the blended style and the content image.
+ * Returns null when a single plain reference needs no explanation.
+ */
+export const buildStyleGuide = (references: StyleReference[], locale: Locale): string | null => {
+  if (references.length === 0) return null;
+  if (references.length === 1 && references[0].role === "overall" && references[0].weight === MAX_STYLE_WEIGHT) {
+    return null;
+  }
+
+  const contentIndex = references.length + 1;
+  const lines = [
+    references.length === 1
+      ? translate(locale, "modelPrompt.styleGuideSingle")
+      : translate(locale, "modelPrompt.styleGuideMultiple", { count: references.length, contentIndex }),
+    ...references.map((reference, i) => translate(locale, "modelPrompt.styleGuideItem", {
+      index: i + 1,
+      role: translate(locale, `modelPrompt.role.${reference.role}`),
+      weight: clampWeight(reference.weight),
+    })),
+  ];
+  if (references.length > 1) {
+    lines.push(translate(locale, "modelPrompt.styleGuideAlias", { contentIndex }));
+  }
+  return lines.join("\n");
+};
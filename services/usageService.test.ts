@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { afterEach, test } from "node:test";
+import { UsageRecord } from "../types";
+import { generateChibiStyle } from "./geminiService";
+import { DEFAULT_BUDGET, loadBudget, loadUsageLog, summarizeUsage } from "./usageService";
+
+const record = (outcome: UsageRecord["outcome"], outputTokens = 0): UsageRecord => ({
+  id: outcome,
+  createdAt: 0,
+  model: "gemini-2.5-flash-image",
+  provider: "gemini",
+  kind: "generate",
+  presetId: "",
+  presetName: "",
+  outcome,
+  latencyMs: 1000,
+  attempts: 1,
+  promptTokens: 0,
+  outputTokens,
+  totalTokens: outputTokens,
+});
+
+// In-memory stand-in so the usage log can be written outside the browser
+const installStorage = () => {
+  const items = new Map<string, string>();
+  Object.assign(globalThis, {
+    localStorage: {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+      removeItem: (key: string) => items.delete(key),
+    },
+  });
+};
+
+afterEach(() => {
+  delete (globalThis as { localStorage?: Storage }).localStorage;
+});
+
+test("cancelled requests are not counted as failures", () => {
+  const totals = summarizeUsage([record("SUCCESS", 1290), record("SAFETY"), record("CANCELLED"), record("CANCELLED")]);
+  assert.equal(totals.requests, 4);
+  assert.equal(totals.failures, 1);
+  assert.equal(totals.cancelled, 2);
+  assert.equal(totals.costUsd, 1290 * 30 / 1_000_000);
+});
+
+test("a request cancelled before it was sent leaves no record", async () => {
+  installStorage();
+  const result = await generateChibiStyle("data:image/png;base64,AAAA", [], "prompt", [], { signal: AbortSignal.abort() });
+  assert.equal(result.reason, "CANCELLED");
+  assert.deepEqual(loadUsageLog(), []);
+});
+
+test("stored records that do not check out are dropped", () => {
+  installStorage();
+  const good = record("SUCCESS", 1290);
+  localStorage.setItem("chibify.usage", JSON.stringify([good, null, { ...good, outputTokens: "1290" }, { ...good, kind: "video" }]));
+  assert.deepEqual(loadUsageLog(), [good]);
+  localStorage.setItem("chibify.usage", JSON.stringify({ records: [good] }));
+  assert.deepEqual(loadUsageLog(), []);
+});
+
+test("each stored budget field falls back to its default on its own", () => {
+  installStorage();
+  localStorage.setItem("chibify.budget", JSON.stringify({ limitUsd: 5, period: "week", action: "block" }));
+  assert.deepEqual(loadBudget(), { limitUsd: 5, period: "day", action: "block" });
+  localStorage.setItem("chibify.budget", JSON.stringify({ limitUsd: "5", period: "month" }));
+  assert.deepEqual(loadBudget(), { ...DEFAULT_BUDGET, period: "month" });
+  localStorage.setItem("chibify.budget", "[1]");
+  assert.deepEqual(loadBudget(), DEFAULT_BUDGET);
+});
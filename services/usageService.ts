@@ -0,0 +1,226 @@
+/**
+ * Local log of every generation request (model, tokens, latency, outcome),
+ * the totals shown in the usage dashboard, and the optional soft budget.
+ * Costs are estimates from the public price list, not a bill.
+ */
+
+import { BudgetPeriod, GenerationResult, TokenUsage, UsageBudget, UsageKind, UsageRecord } from "../types";
+import { isRecord } from "./guards";
+import { createId } from "./ids";
+
+const USAGE_LOG_KEY = "chibify.usage";
+const BUDGET_KEY = "chibify.budget";
+
+// Oldest records are dropped beyond this, keeping the log well inside the localStorage quota
+export const MAX_USAGE_RECORDS = 2000;
+
+// USD per million tokens; generated images are billed as output tokens
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  "gemini-2.5-flash-image": { input: 0.3, output: 30 },
+  "gemini-3-pro-image-preview": { input: 2, output: 120 },
+};
+
+export const DEFAULT_BUDGET: UsageBudget = { limitUsd: null, period: "day", action: "warn" };
+
+export interface UsageTotals extends TokenUsage {
+  requests: number;
+  // Cancelled requests are counted apart, they say nothing about reliability
+  failures: number;
+  cancelled: number;
+  costUsd: number;
+  // Summed, divide by `requests` for the average
+  latencyMs: number;
+}
+
+export interface UsageGroup {
+  key: string;
+  label: string;
+  totals: UsageTotals;
+}
+
+export interface BudgetStatus {
+  spentUsd: number;
+  limitUsd: number;
+  exceeded: boolean;
+  budget: UsageBudget;
+}
+
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+/**
+ * Calls `listener` whenever the log or the budget changes. Returns the
+ * unsubscribe function, so it can be returned from an effect directly.
+ */
+export const subscribeUsage = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const hasStorage = () => typeof localStorage !== "undefined";
+
+const USAGE_KINDS: UsageKind[] = ["generate", "refine", "batch", "sheet"];
+const BUDGET_PERIODS: BudgetPeriod[] = ["day", "month"];
+const BUDGET_ACTIONS: UsageBudget["action"][] = ["warn", "block"];
+
+const isBudgetPeriod = (value: unknown): value is BudgetPeriod => BUDGET_PERIODS.includes(value as BudgetPeriod);
+
+const isBudgetAction = (value: unknown): value is UsageBudget["action"] => BUDGET_ACTIONS.includes(value as UsageBudget["action"]);
+
+const isCount = (value: unknown): value is number => Number.isFinite(value) && (value as number) >= 0;
+
+const isUsageRecord = (value: unknown): value is UsageRecord => {
+  return isRecord(value)
+    && typeof value.id === "string"
+    && isCount(value.createdAt)
+    && typeof value.model === "string"
+    && typeof value.provider === "string"
+    && USAGE_KINDS.includes(value.kind as UsageKind)
+    && typeof value.presetId === "string"
+    && typeof value.presetName === "string"
+    && typeof value.outcome === "string"
+    && isCount(value.latencyMs)
+    && isCount(value.attempts)
+    && isCount(value.promptTokens)
+    && isCount(value.outputTokens)
+    && isCount(value.totalTokens);
+};
+
+// Records that do not check out are dropped rather than turning the totals into NaN
+export const loadUsageLog = (): UsageRecord[] => {
+  if (!hasStorage()) return [];
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(USAGE_LOG_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed.filter(isUsageRecord) : [];
+  } catch (error) {
+    console.error("Failed to load usage log:", error);
+    return [];
+  }
+};
+
+export const recordUsage = (record: Omit<UsageRecord, "id" | "createdAt">): void => {
+  if (!hasStorage()) return;
+  const entry: UsageRecord = { ...record, id: createId(), createdAt: Date.now() };
+  try {
+    localStorage.setItem(USAGE_LOG_KEY, JSON.stringify([...loadUsageLog(), entry].slice(-MAX_USAGE_RECORDS)));
+  } catch (error) {
+    console.error("Failed to save usage log:", error);
+  }
+  notify();
+};
+
+export const clearUsageLog = (): void => {
+  localStorage.removeItem(USAGE_LOG_KEY);
+  notify();
+};
+
+// Each field falls back to its default on its own
+export const loadBudget = (): UsageBudget => {
+  if (!hasStorage()) return DEFAULT_BUDGET;
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(BUDGET_KEY) || "{}");
+    const { limitUsd, period, action } = isRecord(parsed) ? parsed : {};
+    return {
+      limitUsd: isCount(limitUsd) ? limitUsd : DEFAULT_BUDGET.limitUsd,
+      period: isBudgetPeriod(period) ? period : DEFAULT_BUDGET.period,
+      action: isBudgetAction(action) ? action : DEFAULT_BUDGET.action,
+    };
+  } catch {
+    return DEFAULT_BUDGET;
+  }
+};
+
+export const saveBudget = (budget: UsageBudget): void => {
+  localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+  notify();
+};
+
+/**
+ * Reads token counts from a result, treating a missing usage block (the
+ * request never reached the model) as zero.
+ */
+export const usageOf = (result: GenerationResult): TokenUsage => {
+  return result.usage ?? { promptTokens: 0, outputTokens: 0, totalTokens: 0 };
+};
+
+export const estimateCost = (record: Pick<UsageRecord, "model" | "promptTokens" | "outputTokens">): number => {
+  const price = MODEL_PRICES[record.model];
+  if (!price) return 0;
+  return (record.promptTokens * price.input + record.outputTokens * price.output) / 1_000_000;
+};
+
+export const summarizeUsage = (records: UsageRecord[]): UsageTotals => {
+  return records.reduce<UsageTotals>((totals, record) => ({
+    requests: totals.requests + 1,
+    failures: totals.failures + (record.outcome === "SUCCESS" || record.outcome === "CANCELLED" ? 0 : 1),
+    cancelled: totals.cancelled + (record.outcome === "CANCELLED" ? 1 : 0),
+    promptTokens: totals.promptTokens + record.promptTokens,
+    outputTokens: totals.outputTokens + record.outputTokens,
+    totalTokens: totals.totalTokens + record.totalTokens,
+    costUsd: totals.costUsd + estimateCost(record),
+    latencyMs: totals.latencyMs + record.latencyMs,
+  }), { requests: 0, failures: 0, cancelled: 0, promptTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0, latencyMs: 0 });
+};
+
+// yyyy-mm-dd in local time
+export const toDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const periodKey = (timestamp: number, period: BudgetPeriod): string => {
+  const day = toDayKey(timestamp);
+  return period === "day" ? day : day.slice(0, 7);
+};
+
+/**
+ * Totals per day, newest first.
+ */
+export const usageByDay = (records: UsageRecord[]): UsageGroup[] => {
+  return groupBy(records, record => toDayKey(record.createdAt), record => toDayKey(record.createdAt))
+    .sort((a, b) => b.key.localeCompare(a.key));
+};
+
+/**
+ * Totals per preset, most expensive first. Grouped by id and labelled with
+ * the latest name the preset was used under.
+ */
+export const usageByPreset = (records: UsageRecord[]): UsageGroup[] => {
+  return groupBy(records, record => record.presetId, record => record.presetName)
+    .sort((a, b) => b.totals.costUsd - a.totals.costUsd || b.totals.requests - a.totals.requests);
+};
+
+const groupBy = (
+  records: UsageRecord[],
+  keyOf: (record: UsageRecord) => string,
+  labelOf: (record: UsageRecord) => string
+): UsageGroup[] => {
+  const groups = new Map<string, { label: string; records: UsageRecord[] }>();
+  for (const record of records) {
+    const key = keyOf(record);
+    const group = groups.get(key) ?? { label: labelOf(record), records: [] };
+    group.label = labelOf(record);
+    group.records.push(record);
+    groups.set(key, group);
+  }
+  return Array.from(groups, ([key, group]) => ({ key, label: group.label, totals: summarizeUsage(group.records) }));
+};
+
+/**
+ * Spend in the budget's current period (today or this calendar month), or
+ * null when no budget is set.
+ */
+export const getBudgetStatus = (
+  records: UsageRecord[] = loadUsageLog(),
+  budget: UsageBudget = loadBudget(),
+  now = Date.now()
+): BudgetStatus | null => {
+  if (budget.limitUsd === null) return null;
+  const current = periodKey(now, budget.period);
+  const spentUsd = summarizeUsage(records.filter(record => periodKey(record.createdAt, budget.period) === current)).costUsd;
+  return { spentUsd, limitUsd: budget.limitUsd, exceeded: spentUsd >= budget.limitUsd, budget };
+};
@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { crc32, createZip } from "./zipWriter";
+
+const encoder = new TextEncoder();
+
+test("crc32 matches the standard check value", () => {
+  assert.equal(crc32(encoder.encode("123456789")), 0xcbf43926);
+  assert.equal(crc32(new Uint8Array()), 0);
+});
+
+test("createZip stores each entry with a central directory", async () => {
+  const entries = [
+    { name: "01.png", data: encoder.encode("first") },
+    { name: "角色/02.png", data: encoder.encode("second entry") },
+  ];
+  const bytes = new Uint8Array(await createZip(entries).arrayBuffer());
+  const view = new DataView(bytes.buffer);
+
+  const end = bytes.length - 22;
+  assert.equal(view.getUint32(end, true), 0x06054b50);
+  assert.equal(view.getUint16(end + 10, true), entries.length);
+  const centralSize = view.getUint32(end + 12, true);
+  let central = view.getUint32(end + 16, true);
+  assert.equal(central + centralSize, end);
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    assert.equal(view.getUint32(central, true), 0x02014b50);
+    assert.equal(view.getUint32(central + 16, true), crc32(entry.data));
+    assert.deepEqual(bytes.subarray(central + 46, central + 46 + name.length), name);
+
+    const local = view.getUint32(central + 42, true);
+    assert.equal(view.getUint32(local, true), 0x04034b50);
+    assert.equal(view.getUint32(local + 18, true), entry.data.length);
+    const dataStart = local + 30 + view.getUint16(local + 26, true);
+    assert.deepEqual(bytes.subarray(dataStart, dataStart + entry.data.length), entry.data);
+
+    central += 46 + name.length;
+  }
+});
@@ -6,12 +6,198 @@ export enum AppStatus {
   ERROR = 'ERROR',
 }
 
+export type GenerationFailureReason =
+  // The model answered but produced no image
+  | 'SAFETY'
+  | 'TEXT_ONLY'
+  | 'EMPTY_RESPONSE'
+  | 'NO_IMAGE'
+  // The request did not complete
+  | 'RATE_LIMIT'
+  | 'NETWORK'
+  | 'TIMEOUT'
+  | 'AUTH'
+  | 'UPSTREAM'
+  | 'TOO_LARGE'
+  | 'INVALID_REQUEST'
+  | 'CANCELLED'
+  // Refused locally because the usage budget is used up
+  | 'BUDGET'
+  | 'UNKNOWN';
+
+// Token counts from the response's usage metadata
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
 export interface GenerationResult {
   imageUrl: string | null;
+  // Localized, user-facing message
   error?: string;
+  reason?: GenerationFailureReason;
+  // Untranslated specifics (e.g. the model's text reply) so the message can be rebuilt in another locale
+  detail?: string;
+  // Only present when the request reached the model
+  usage?: TokenUsage;
+}
+
+// What the model should take from a style reference image
+export type StyleRole = 'overall' | 'linework' | 'coloring' | 'shading';
+
+export interface StyleReference {
+  id: string;
+  image: string;
+  role: StyleRole;
+  // How strongly the reference should influence the result, 10–100
+  weight: number;
+}
+
+// What must stay the same whenever a saved character is drawn
+export interface CharacterTraits {
+  hair: string;
+  outfit: string;
+  accessories: string;
+  notes: string;
+}
+
+/**
+ * A recurring character. The first image is used as the content image; the
+ * others are sent as extra views of the same character.
+ */
+export interface CharacterProfile {
+  id: string;
+  name: string;
+  images: string[];
+  traits: CharacterTraits;
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface StyleConfig {
   prompt: string;
   label: string;
-}
\ No newline at end of file
+}
+
+/**
+ * A named style with one prompt for content-only generation and one for
+ * generation guided by a style reference image.
+ */
+export interface StylePreset {
+  id: string;
+  name: string;
+  single: StyleConfig;
+  withStyle: StyleConfig;
+  builtIn?: boolean;
+}
+
+/**
+ * Model and sampling parameters for a request. `null` leaves a parameter at
+ * the model's default.
+ */
+export interface GenerationSettings {
+  model: string;
+  aspectRatio: string | null;
+  temperature: number | null;
+  seed: number | null;
+}
+
+export interface BatchItem {
+  id: string;
+  fileName: string;
+  contentImage: string;
+  status: AppStatus;
+  resultImage: string | null;
+  error: string | null;
+}
+
+// The inputs a batch item was generated with, which may differ from the current ones by the time it finishes
+export interface BatchRequest {
+  styleReferences: StyleReference[];
+  // The prompt template and the values it is rendered with
+  prompt: string;
+  templateValues: Record<string, string>;
+  // Labels the batch's requests in the usage log
+  preset: { id: string; name: string };
+  settings: GenerationSettings;
+}
+
+// One expression in a sticker sheet
+export interface SheetCell {
+  id: string;
+  // Built-in expression id, or null for one the user typed
+  expressionId: string | null;
+  // Text inserted as {{expression}}
+  expression: string;
+  status: AppStatus;
+  resultImage: string | null;
+  error: string | null;
+}
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  contentImage: string;
+  styleReferences: StyleReference[];
+  resultImage: string;
+  // Prompt as typed (may contain template variables) and the values used to render it
+  prompt: string;
+  templateValues: Record<string, string>;
+  presetId: string;
+  presetName: string;
+  model: string;
+  // Missing in entries saved before generation settings were recorded
+  settings?: GenerationSettings;
+  favorite: boolean;
+}
+
+/**
+ * One candidate of a multi-variant generation run.
+ */
+export interface VariantSlot extends GenerationResult {
+  id: string;
+  status: AppStatus;
+}
+
+/**
+ * A node in the refinement tree of one result. The root has no parent and no
+ * instruction; every other node was produced by applying `instruction` to its
+ * parent, limited to the white area of `mask` for regional edits.
+ */
+export interface Revision {
+  id: string;
+  parentId: string | null;
+  imageUrl: string;
+  instruction: string | null;
+  mask?: string;
+  createdAt: number;
+}
+
+export type UsageKind = 'generate' | 'refine' | 'batch' | 'sheet';
+
+// One request in the local usage log
+export interface UsageRecord extends TokenUsage {
+  id: string;
+  createdAt: number;
+  model: string;
+  provider: string;
+  kind: UsageKind;
+  presetId: string;
+  presetName: string;
+  // 'SUCCESS' or the failure reason
+  outcome: 'SUCCESS' | GenerationFailureReason;
+  // Wall time including retries
+  latencyMs: number;
+  attempts: number;
+}
+
+export type BudgetPeriod = 'day' | 'month';
+
+export interface UsageBudget {
+  // Estimated spend in USD; null means no budget
+  limitUsd: number | null;
+  period: BudgetPeriod;
+  // Warn keeps generating; block refuses new requests until the period rolls over
+  action: 'warn' | 'block';
+}
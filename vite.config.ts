@@ -8,11 +8,17 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // The API key lives only in the proxy server (server/index.ts)
+          '/api': `http://localhost:${env.PORT || 3001}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER),
+        'process.env.MOCK_SCENARIO': JSON.stringify(env.MOCK_SCENARIO),
+        'process.env.MOCK_LATENCY_MS': JSON.stringify(env.MOCK_LATENCY_MS),
+        'process.env.GENERATION_TIMEOUT_MS': JSON.stringify(env.GENERATION_TIMEOUT_MS)
       },
       resolve: {
         alias: {